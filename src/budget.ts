@@ -0,0 +1,222 @@
+/**
+ * @file budget.ts
+ * @description
+ *   Keeps a policy under a header size budget. Some proxies and CDNs
+ *   reject headers over about 8 KB, so an over-budget sources map is
+ *   shrunk one step at a time until it fits:
+ *     1. minimize: drop redundant sources and directives
+ *     2. collapse-wildcards: collapse sibling subdomains
+ *     3. hashes-to-nonce: replace inline hashes with the nonce
+ *   and a HeaderBudgetError listing the largest directives is thrown when
+ *   it still does not fit.
+ */
+
+import {minimizeSources} from './minimize'
+import {CSPPolicy} from './policy'
+import type {
+  DirectiveName,
+  HeaderBudgetStep,
+  MinimizeChange,
+  WildcardCollapse,
+  WildcardOptions,
+} from './types'
+import {collapseWildcards} from './wildcards'
+
+// Directives whose hashes only ever match inline elements a nonce can mark
+const NONCE_DIRECTIVES: readonly DirectiveName[] = [
+  'script-src',
+  'script-src-elem',
+  'style-src',
+  'style-src-elem',
+]
+
+const hashSourceRe = /^'sha(?:256|384|512)-[a-z0-9+/_=-]+'$/i
+
+/**
+ * Checks the maxHeaderBytes option.
+ * @throws Error unless it is a non-negative integer
+ */
+export function validateMaxHeaderBytes(maxHeaderBytes: number): void {
+  if (!(Number.isInteger(maxHeaderBytes) && maxHeaderBytes >= 0)) {
+    throw new Error('maxHeaderBytes must be a non-negative integer')
+  }
+}
+
+/**
+ * Size of a header value in UTF-8 bytes, as sent on the wire.
+ */
+export function headerBytes(value: string): number {
+  return new TextEncoder().encode(value).length
+}
+
+/**
+ * A directive and the bytes it takes up in the serialized policy.
+ */
+export interface DirectiveSize {
+  directive: DirectiveName
+  bytes: number
+}
+
+/**
+ * The largest directives of a policy, largest first.
+ */
+export function largestDirectives(
+  policy: CSPPolicy | string,
+  limit = 5,
+): DirectiveSize[] {
+  const parsed = typeof policy === 'string' ? CSPPolicy.parse(policy) : policy
+  return parsed
+    .entries()
+    .map(([directive, values]) => ({
+      directive,
+      bytes: headerBytes([directive, ...values].join(' ')),
+    }))
+    .sort((a, b) => b.bytes - a.bytes)
+    .slice(0, limit)
+}
+
+/**
+ * Replaces inline script and style hashes with one nonce source, in place.
+ * Directives with 'unsafe-hashes' are left alone, since their hashes may
+ * cover attributes, which nonces cannot.
+ * @returns One line per directive changed
+ */
+export function hashesToNonce(
+  sources: Map<DirectiveName, Set<string>>,
+  nonce: string,
+): string[] {
+  const changes: string[] = []
+  for (const directive of NONCE_DIRECTIVES) {
+    const values = sources.get(directive)
+    if (!values || values.has("'unsafe-hashes'")) continue
+    const hashes = Array.from(values).filter((v) => hashSourceRe.test(v))
+    if (!hashes.length) continue
+    for (const hash of hashes) values.delete(hash)
+    values.add(`'nonce-${nonce}'`)
+    changes.push(
+      `${directive}: ${hashes.length} hash(es) replaced by the nonce`,
+    )
+  }
+  return changes
+}
+
+/**
+ * Thrown by generate() when a policy cannot be made to fit maxHeaderBytes.
+ */
+export class HeaderBudgetError extends Error {
+  /** Size of the smallest policy reached, in bytes. */
+  readonly bytes: number
+  readonly maxHeaderBytes: number
+  /** The largest directives of that policy, largest first. */
+  readonly largest: DirectiveSize[]
+
+  constructor(bytes: number, maxHeaderBytes: number, largest: DirectiveSize[]) {
+    const sizes = largest.map((d) => `${d.directive} (${d.bytes} bytes)`)
+    super(
+      `Policy is ${bytes} bytes, over the ${maxHeaderBytes}-byte budget; largest directives: ${sizes.join(', ')}`,
+    )
+    this.name = 'HeaderBudgetError'
+    this.bytes = bytes
+    this.maxHeaderBytes = maxHeaderBytes
+    this.largest = largest
+  }
+}
+
+export interface HeaderBudgetOptions {
+  /** URL of the page or site the policy protects, for minimizing. */
+  self: URL
+  /** Nonce that replaces hashes; only used when a hash is replaced. */
+  nonce: string
+  /** Options for the wildcard step (default: the defaults). */
+  collapseWildcards?: WildcardOptions
+}
+
+/**
+ * What {@link fitHeaderBudget} did; the step-specific arrays only hold
+ * what the steps removed or added.
+ */
+export interface HeaderBudgetResult {
+  /** The serialized policy, within budget. */
+  policy: string
+  steps: HeaderBudgetStep[]
+  minimized: MinimizeChange[]
+  wildcards: WildcardCollapse[]
+  /** Whether hashes were replaced, so the page now needs the nonce. */
+  usedNonce: boolean
+}
+
+/**
+ * Shrinks a sources map in place, step by step, while its policy exceeds
+ * `maxHeaderBytes`; a budget of 0 leaves it alone.
+ * @throws HeaderBudgetError if the last step still leaves it too large
+ */
+export function fitHeaderBudget(
+  sources: Map<DirectiveName, Set<string>>,
+  maxHeaderBytes: number,
+  options: HeaderBudgetOptions,
+): HeaderBudgetResult {
+  const result: HeaderBudgetResult = {
+    policy: new CSPPolicy(sources).toString(),
+    steps: [],
+    minimized: [],
+    wildcards: [],
+    usedNonce: false,
+  }
+  if (!maxHeaderBytes) return result
+
+  const steps: Array<[HeaderBudgetStep['step'], () => string[]]> = [
+    [
+      'minimize',
+      () => {
+        const changes = minimizeSources(sources, {self: options.self})
+        result.minimized.push(...changes)
+        return changes.map(
+          ({directive, source, reason}) =>
+            `${directive}${source ? ` ${source}` : ''}: ${reason}`,
+        )
+      },
+    ],
+    [
+      'collapse-wildcards',
+      () => {
+        const collapses = collapseWildcards(sources, options.collapseWildcards)
+        result.wildcards.push(...collapses)
+        return collapses.map(
+          ({directive, wildcard, replaced}) =>
+            `${directive} ${wildcard} replaces ${replaced.join(' ')}`,
+        )
+      },
+    ],
+    [
+      'hashes-to-nonce',
+      () => {
+        const changes = hashesToNonce(sources, options.nonce)
+        if (changes.length) result.usedNonce = true
+        return changes
+      },
+    ],
+  ]
+  for (const [step, run] of steps) {
+    const before = headerBytes(result.policy)
+    if (before <= maxHeaderBytes) return result
+    const changes = run()
+    if (!changes.length) continue
+    result.policy = new CSPPolicy(sources).toString()
+    result.steps.push({
+      step,
+      before,
+      after: headerBytes(result.policy),
+      changes,
+    })
+  }
+
+  const bytes = headerBytes(result.policy)
+  if (bytes > maxHeaderBytes) {
+    throw new HeaderBudgetError(
+      bytes,
+      maxHeaderBytes,
+      largestDirectives(result.policy),
+    )
+  }
+  return result
+}
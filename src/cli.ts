@@ -5,25 +5,64 @@
  * @description Command-line interface for the CSP generator
  */
 
-import type {SecureCSPGeneratorOptions} from './types'
+import type {
+  CLIOptions,
+  ExistingPolicy,
+  HashAlgorithm,
+  HeaderBudgetStep,
+  InlineFinding,
+  SecureCSPGeneratorOptions,
+  SourceFinding,
+  TrustedTypesOptions,
+} from './types'
 import {SecureCSPGenerator} from './csp-generator'
+import {allowsUnsafeInline, type CSPPolicy} from './policy'
+import {SiteCrawler} from './crawler'
+import {comparePolicies, type PolicyComparison} from './compare'
+import {
+  buildHeaders,
+  formatServerConfig,
+  SERVER_CONFIG_FORMATS,
+} from './headers'
+import {
+  loadViolations,
+  normalizeReports,
+  ReportCollector,
+  summarizeViolations,
+  type CollectedViolation,
+  type ViolationReport,
+  type ViolationSummary,
+} from './collector'
+import {refinePolicy, type RefineResult} from './refine'
+import {formatMetaTag, injectMetaTag} from './meta'
+import {validateHashAlgorithms} from './hash'
+import {validateSandbox} from './sandbox'
+import {validateSourceGranularity} from './granularity'
+import {evaluatePolicy, isAtLeast, SEVERITIES, type Severity} from './evaluator'
 import {parseArgs} from 'node:util'
-import {VALID_CSP_DIRECTIVES, type CSPDirective} from './constants'
+import {readFile} from 'node:fs/promises'
+import {CSP_DIRECTIVES, isDirectiveName, type CSPDirective} from './constants'
 
+/**
+ * Parses `directive:value1,value2;...` presets. Only the first colon
+ * separates the name, so values may be URLs; directives that take no
+ * values (e.g. upgrade-insecure-requests) may be given by name alone.
+ * Unknown directives are ignored.
+ */
 export function parsePresets(
   value: string | undefined,
 ): Partial<Record<CSPDirective, readonly string[]>> {
   if (!value) return {}
   const presets: Partial<Record<CSPDirective, readonly string[]>> = {}
   value.split(';').forEach((preset) => {
-    const [directive, values] = preset.split(':')
-    if (directive && values) {
-      const trimmedDirective = directive.trim() as CSPDirective
-      if (VALID_CSP_DIRECTIVES.includes(trimmedDirective)) {
-        presets[trimmedDirective] = Object.freeze(
-          values.split(',').map((v) => v.trim()),
-        )
-      }
+    const colon = preset.indexOf(':')
+    const directive = (colon < 0 ? preset : preset.slice(0, colon)).trim()
+    const values = colon < 0 ? '' : preset.slice(colon + 1)
+    if (!isDirectiveName(directive)) return
+    if (values.trim()) {
+      presets[directive] = Object.freeze(values.split(',').map((v) => v.trim()))
+    } else if (colon < 0 && CSP_DIRECTIVES[directive].grammar === 'none') {
+      presets[directive] = Object.freeze([])
     }
   })
   return presets
@@ -40,23 +79,487 @@ export function parseFetchOptions(
   }
 }
 
+/**
+ * Base URL used to resolve relative references when local HTML is analyzed
+ * without a URL. Its origin is treated as private, so relative resources are
+ * left to 'self' instead of being listed explicitly.
+ */
+export const DEFAULT_BASE_URL = 'https://localhost/'
+
+/**
+ * Reads an HTML document (or any text input) from a file path, or from
+ * stdin when path is '-'.
+ */
+export async function readHtmlInput(file: string): Promise<string> {
+  if (file !== '-') {
+    return readFile(file, 'utf8')
+  }
+  const chunks: Buffer[] = []
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.from(chunk))
+  }
+  return Buffer.concat(chunks).toString('utf8')
+}
+
+/**
+ * Renders the policy in the chosen output format. The header, json and
+ * server config formats include every delivery header (report-only and
+ * reporting endpoints when configured); raw and csp-only print just the
+ * policy.
+ */
 export function formatOutput(
   csp: string,
   options: SecureCSPGeneratorOptions,
 ): string {
+  const headers = buildHeaders(csp, options)
   switch (options.outputFormat) {
     case 'json':
-      return JSON.stringify({'Content-Security-Policy': csp}, null, 2)
+      return JSON.stringify(headers, null, 2)
     case 'raw':
     case 'csp-only':
       return csp
+    case 'nginx':
+    case 'apache':
+    case 'caddy':
+    case 'haproxy':
+      return formatServerConfig(headers, options.outputFormat)
+    case 'meta':
+      return formatMetaTag(csp, options)
     case 'header':
     default:
-      return `Content-Security-Policy: ${csp}`
+      return Object.entries(headers)
+        .map(([name, value]) => `${name}: ${value}`)
+        .join('\n')
+  }
+}
+
+const POLICY_SOURCE_LABELS: Record<ExistingPolicy['source'], string> = {
+  header: 'Content-Security-Policy header',
+  'report-only-header': 'Content-Security-Policy-Report-Only header',
+  meta: '<meta http-equiv> tag',
+}
+
+/**
+ * Renders a comparison between a live policy and the generated one.
+ */
+export function formatComparison(
+  existing: ExistingPolicy,
+  comparison: PolicyComparison,
+): string {
+  const lines = [`Live policy (${POLICY_SOURCE_LABELS[existing.source]}):`]
+  lines.push(`  ${existing.policy}`)
+
+  const section = (title: string, entries: string[]) => {
+    lines.push(`\n${title}:`)
+    lines.push(...(entries.length ? entries : ['  (none)']))
+  }
+  section(
+    'Allowed by the live policy but not needed',
+    comparison.unneeded.map((d) => `  ${d.directive}: ${d.sources.join(' ')}`),
+  )
+  section(
+    'Needed but missing from the live policy',
+    comparison.missing.map((d) => `  ${d.directive}: ${d.sources.join(' ')}`),
+  )
+  const marks = {added: '+', removed: '-', changed: '~'}
+  section(
+    'Directives that differ',
+    comparison.directives.map((d) => `  ${marks[d.status]} ${d.directive}`),
+  )
+  return lines.join('\n')
+}
+
+/**
+ * Builds trusted-types options from a comma-separated list of policy names
+ * (`default` allows the default policy) and the allow-duplicates flag.
+ */
+export function parseTrustedTypes(
+  names: string | undefined,
+  allowDuplicates: boolean,
+): TrustedTypesOptions | undefined {
+  if (!names && !allowDuplicates) return undefined
+  const policies = (names ?? '')
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean)
+  return {policies, allowDuplicates}
+}
+
+/**
+ * Parses the sandbox flag: 'infer', 'none' (fully sandboxed) or a
+ * comma-separated list of tokens.
+ * @throws Error on an unknown token
+ */
+export function parseSandbox(
+  value: string | undefined,
+): SecureCSPGeneratorOptions['sandbox'] {
+  const trimmed = value?.trim().toLowerCase()
+  if (!trimmed) return undefined
+  if (trimmed === 'infer') return 'infer'
+  if (trimmed === 'none') return []
+  return validateSandbox(trimmed.split(','))
+}
+
+/**
+ * Parses the source granularity flag: one mode, e.g. "path", or modes per
+ * directive, e.g. "script-src:url,img-src:origin".
+ * @throws Error on an unknown mode or directive
+ */
+export function parseSourceGranularity(
+  value: string | undefined,
+): SecureCSPGeneratorOptions['sourceGranularity'] {
+  const trimmed = value?.trim()
+  if (!trimmed) return undefined
+  const option = (
+    trimmed.includes(':')
+      ? Object.fromEntries(
+          trimmed.split(',').map((entry) => {
+            const [directive = '', mode = ''] = entry.split(':')
+            return [directive.trim(), mode.trim()]
+          }),
+        )
+      : trimmed
+  ) as SecureCSPGeneratorOptions['sourceGranularity']
+  validateSourceGranularity(option)
+  return option
+}
+
+/**
+ * Parses a comma-separated list of hash algorithms, e.g. "sha384,sha512".
+ * @throws Error on an unsupported algorithm
+ */
+export function parseHashAlgorithms(
+  value: string | undefined,
+): HashAlgorithm[] | undefined {
+  return value ? validateHashAlgorithms(value) : undefined
+}
+
+/**
+ * Renders source findings, one source per line.
+ */
+export function formatSourceFindings(
+  title: string,
+  findings: SourceFinding[],
+): string {
+  return [
+    `${title}:`,
+    ...findings.map((f) => `  ${f.directive} ${f.source}: ${f.impact}`),
+  ].join('\n')
+}
+
+/**
+ * Renders the steps taken to fit a header budget, one step per line.
+ */
+export function formatHeaderBudget(
+  maxHeaderBytes: number,
+  steps: HeaderBudgetStep[],
+): string {
+  return [
+    `Policy shrunk to fit --max-header-bytes ${maxHeaderBytes}:`,
+    ...steps.map((s) => `  ${s.step}: ${s.before} -> ${s.after} bytes`),
+  ].join('\n')
+}
+
+/**
+ * Renders inline content findings, one element per line.
+ */
+export function formatInlineFindings(
+  title: string,
+  findings: InlineFinding[],
+): string {
+  const lines = [`${title}:`]
+  for (const finding of findings) {
+    const element =
+      finding.element.length > 80
+        ? `${finding.element.slice(0, 77)}...`
+        : finding.element
+    lines.push(
+      `  line ${finding.line}: ${element} (${finding.kind.replace('-', ' ')})`,
+    )
+  }
+  return lines.join('\n')
+}
+
+// Whether a policy lets inline content run: by its hash (attribute values
+// and URLs also need 'unsafe-hashes'), or by 'unsafe-inline'.
+function allowsInline(policy: CSPPolicy, finding: InlineFinding): boolean {
+  const sources = policy.effective(finding.directive)
+  if (!sources) return true
+  if (
+    finding.hashes.some((hash) => sources.includes(hash)) &&
+    (finding.kind === 'style-element' || sources.includes("'unsafe-hashes'"))
+  ) {
+    return true
+  }
+  return allowsUnsafeInline(sources)
+}
+
+/**
+ * Renders a Subresource Integrity manifest, one resource per line.
+ */
+export function formatIntegrity(manifest: Record<string, string>): string {
+  const entries = Object.entries(manifest)
+  const lines = ['Subresource Integrity:']
+  lines.push(
+    ...(entries.length
+      ? entries.map(([url, integrity]) => `  ${url} ${integrity}`)
+      : ['  (none)']),
+  )
+  return lines.join('\n')
+}
+
+/**
+ * `csp-generator evaluate <policy|-> [--file path] [--fail-on severity]`:
+ * prints the findings for a policy and exits with 1 if any finding is at
+ * least as severe as --fail-on (default: high).
+ */
+export async function evaluateCommand(args: string[]): Promise<void> {
+  const {
+    values: {file, 'fail-on': failOnValue, format},
+    positionals,
+  } = parseArgs({
+    args,
+    options: {
+      file: {type: 'string'},
+      'fail-on': {type: 'string'},
+      format: {type: 'string', short: 'f'},
+    },
+    allowPositionals: true,
+  })
+
+  const failOn = failOnValue || process.env.CSP_FAIL_ON || 'high'
+  if (!SEVERITIES.includes(failOn as Severity)) {
+    throw new Error(
+      `Invalid severity "${failOn}", expected one of: ${SEVERITIES.join(', ')}`,
+    )
+  }
+
+  const source =
+    file || positionals[0] === '-'
+      ? await readHtmlInput(file || '-')
+      : positionals.join(' ')
+  // Accept a full header line as well as a bare policy
+  const policy = source.replace(/^\s*Content-Security-Policy:/i, '').trim()
+  if (!policy) {
+    console.error('Usage: csp-generator evaluate <policy|-> [options]')
+    console.error('\nOptions:')
+    console.error(
+      '  --file <path>                  Read the policy from a file (- for stdin)',
+    )
+    console.error(
+      '  --fail-on <severity>           Exit with 1 at or above: info, low, medium, high',
+    )
+    console.error('  --format, -f <format>          Output format (text, json)')
+    console.error(
+      `\nExample: csp-generator evaluate "script-src 'self'" --fail-on medium`,
+    )
+    process.exit(1)
+    return
+  }
+
+  const findings = evaluatePolicy(policy)
+  if (format === 'json') {
+    console.log(JSON.stringify(findings, null, 2))
+  } else if (!findings.length) {
+    console.log('No issues found')
+  } else {
+    for (const {severity, directive, message} of findings) {
+      const where = directive ? `${directive}: ` : ''
+      console.log(`[${severity.toUpperCase()}] ${where}${message}`)
+    }
+  }
+
+  if (findings.some((f) => isAtLeast(f.severity, failOn as Severity))) {
+    process.exit(1)
+  }
+}
+
+/**
+ * Renders the top violated directives and blocked origins.
+ */
+export function formatSummary(summary: ViolationSummary): string {
+  const lines = [
+    `${summary.total} report(s), ${summary.unique} unique violation(s)`,
+  ]
+  lines.push('\nTop violated directives:')
+  for (const {directive, count} of summary.directives) {
+    lines.push(`  ${String(count).padStart(6)}  ${directive}`)
+  }
+  lines.push('\nTop blocked origins:')
+  for (const {origin, count} of summary.origins) {
+    lines.push(`  ${String(count).padStart(6)}  ${origin}`)
+  }
+  return lines.join('\n')
+}
+
+/**
+ * `csp-generator collect [--port n] [--host h] [--file path]`: runs a
+ * violation-report collector until interrupted, then prints a summary.
+ * With `--summary true` it only prints the summary of the saved file.
+ */
+export async function collectCommand(args: string[]): Promise<void> {
+  const {
+    values: {port, host, file, summary, limit},
+  } = parseArgs({
+    args,
+    options: {
+      port: {type: 'string', short: 'p'},
+      host: {type: 'string'},
+      file: {type: 'string'},
+      summary: {type: 'string'},
+      limit: {type: 'string'},
+    },
+  })
+
+  const reportsFile = file || process.env.CSP_REPORTS_FILE || 'csp-reports.json'
+  const top = parseInt(limit || '', 10) || 10
+
+  if (summary === 'true') {
+    const violations = await loadViolations(reportsFile)
+    console.log(formatSummary(summarizeViolations(violations, top)))
+    return
+  }
+
+  const collector = new ReportCollector({
+    port: parseInt(port || process.env.CSP_COLLECTOR_PORT || '', 10) || 8080,
+    host: host || process.env.CSP_COLLECTOR_HOST || '127.0.0.1',
+    file: reportsFile,
+  })
+  const {url} = await collector.start()
+  console.error(`Collecting CSP reports at ${url} (saving to ${reportsFile})`)
+  console.error(`Summary: ${url}summary – press Ctrl+C to stop`)
+
+  process.once('SIGINT', async () => {
+    await collector.stop()
+    console.log(formatSummary(collector.summary(top)))
+    process.exit(0)
+  })
+}
+
+/**
+ * Reads violation reports from a collector file, or from raw report
+ * payloads (legacy or Reporting API JSON) saved to a file.
+ */
+export async function readReports(
+  file: string,
+): Promise<Array<ViolationReport | CollectedViolation>> {
+  const payload = JSON.parse(await readHtmlInput(file))
+  const collected =
+    Array.isArray(payload) &&
+    payload.every((entry) => entry?.directive && entry?.blockedUri)
+  return collected ? payload : normalizeReports(payload)
+}
+
+/**
+ * Renders refinement proposals and rejected violations, one per line.
+ */
+export function formatProposals({proposals, rejected}: RefineResult): string {
+  const lines = proposals.map(
+    ({directive, source, count, pages, confidence, accepted}) =>
+      `${accepted ? '+' : '?'} ${directive} ${source} (${count} report(s), ${pages} page(s), confidence ${confidence.toFixed(2)})`,
+  )
+  for (const {directive, blockedUri, count, reason} of rejected) {
+    lines.push(`✗ ${directive} ${blockedUri} (${count} report(s)): ${reason}`)
+  }
+  return lines.length ? lines.join('\n') : 'No changes proposed'
+}
+
+/**
+ * `csp-generator refine <policy|-> --reports <file>`: proposes additions
+ * to a policy from violation reports and prints the refined policy.
+ * Proposals marked '+' were applied; '?' are below --confidence.
+ */
+export async function refineCommand(args: string[]): Promise<void> {
+  const {
+    values: {
+      reports,
+      confidence,
+      'allow-http': allowHttp,
+      'allow-private-origins': allowPrivateOrigins,
+      format,
+    },
+    positionals,
+  } = parseArgs({
+    args,
+    options: {
+      reports: {type: 'string'},
+      confidence: {type: 'string'},
+      'allow-http': {type: 'string'},
+      'allow-private-origins': {type: 'string'},
+      format: {type: 'string', short: 'f'},
+    },
+    allowPositionals: true,
+  })
+
+  const reportsFile =
+    reports || process.env.CSP_REPORTS_FILE || 'csp-reports.json'
+  if (!positionals.length) {
+    console.error(
+      'Usage: csp-generator refine <policy|-> --reports <file> [options]',
+    )
+    console.error('\nOptions:')
+    console.error(
+      '  --reports <path>               Collected reports (default: csp-reports.json)',
+    )
+    console.error(
+      '  --confidence <0-1>             Auto-accept threshold (default: 0.9)',
+    )
+    console.error(
+      '  --allow-http <true|false>      Accept http: origins from reports',
+    )
+    console.error(
+      '  --allow-private-origins <true|false>  Accept private IP / localhost origins',
+    )
+    console.error(
+      '  --format, -f <format>          Output format (header, raw, json, csp-only)',
+    )
+    process.exit(1)
+    return
+  }
+
+  const threshold = parseFloat(confidence || process.env.CSP_CONFIDENCE || '')
+  if (confidence && (isNaN(threshold) || threshold < 0 || threshold > 1)) {
+    throw new Error('Confidence must be a number between 0 and 1')
   }
+
+  const base =
+    positionals[0] === '-' ? await readHtmlInput('-') : positionals.join(' ')
+  const result = await refinePolicy(
+    base.replace(/^\s*Content-Security-Policy(?:-Report-Only)?:/i, '').trim(),
+    await readReports(reportsFile),
+    {
+      allowHttp: (allowHttp || process.env.CSP_ALLOW_HTTP) === 'true',
+      allowPrivateOrigins:
+        (allowPrivateOrigins || process.env.CSP_ALLOW_PRIVATE_ORIGINS) ===
+        'true',
+      confidenceThreshold: isNaN(threshold) ? undefined : threshold,
+    },
+  )
+
+  const policy = result.policy.toString()
+  if (format === 'json') {
+    console.log(
+      JSON.stringify(
+        {
+          'Content-Security-Policy': policy,
+          proposals: result.proposals,
+          rejected: result.rejected,
+        },
+        null,
+        2,
+      ),
+    )
+    return
+  }
+  console.error(formatProposals(result))
+  console.log(
+    formatOutput(policy, {
+      outputFormat: format as SecureCSPGeneratorOptions['outputFormat'],
+    }),
+  )
 }
 
-export function getOptions(): SecureCSPGeneratorOptions {
+export function getOptions(): CLIOptions {
   const {
     values: {
       'allow-http': allowHttp,
@@ -65,11 +568,42 @@ export function getOptions(): SecureCSPGeneratorOptions {
       'allow-unsafe-inline-style': allowUnsafeInlineStyle,
       'allow-unsafe-eval': allowUnsafeEval,
       'require-trusted-types': requireTrustedTypes,
+      'trusted-types': trustedTypes,
+      'trusted-types-allow-duplicates': trustedTypesAllowDuplicates,
       'max-body-size': maxBodySize,
+      'max-header-bytes': maxHeaderBytes,
       'timeout-ms': timeoutMs,
       presets,
       'fetch-options': fetchOptions,
       format,
+      file,
+      'base-url': baseUrl,
+      'follow-stylesheets': followStylesheets,
+      'analyze-scripts': analyzeScripts,
+      'max-stylesheet-depth': maxStylesheetDepth,
+      crawl,
+      'max-depth': maxDepth,
+      'max-pages': maxPages,
+      concurrency,
+      'requests-per-second': requestsPerSecond,
+      'respect-robots-txt': respectRobotsTxt,
+      compare,
+      'report-only': reportOnly,
+      'report-uri': reportUri,
+      'report-group': reportGroup,
+      'inject-meta': injectMeta,
+      integrity,
+      'inject-integrity': injectIntegrity,
+      'hash-algorithms': hashAlgorithms,
+      'hash-inline-styles': hashInlineStyles,
+      'hash-inline-handlers': hashInlineHandlers,
+      'attribute-hashes': attributeHashes,
+      'split-directives': splitDirectives,
+      sandbox,
+      'source-granularity': sourceGranularity,
+      'collapse-wildcards': collapseWildcards,
+      'wildcard-threshold': wildcardThreshold,
+      minimize,
     },
     positionals,
   } = parseArgs({
@@ -80,16 +614,51 @@ export function getOptions(): SecureCSPGeneratorOptions {
       'allow-unsafe-inline-style': {type: 'string'},
       'allow-unsafe-eval': {type: 'string'},
       'require-trusted-types': {type: 'string'},
+      'trusted-types': {type: 'string'},
+      'trusted-types-allow-duplicates': {type: 'string'},
       'max-body-size': {type: 'string'},
+      'max-header-bytes': {type: 'string'},
       'timeout-ms': {type: 'string'},
       presets: {type: 'string'},
       'fetch-options': {type: 'string'},
       format: {type: 'string', short: 'f'},
+      file: {type: 'string'},
+      'base-url': {type: 'string'},
+      'follow-stylesheets': {type: 'string'},
+      'analyze-scripts': {type: 'string'},
+      'max-stylesheet-depth': {type: 'string'},
+      crawl: {type: 'string'},
+      'max-depth': {type: 'string'},
+      'max-pages': {type: 'string'},
+      concurrency: {type: 'string'},
+      'requests-per-second': {type: 'string'},
+      'respect-robots-txt': {type: 'string'},
+      compare: {type: 'string'},
+      'report-only': {type: 'string'},
+      'report-uri': {type: 'string'},
+      'report-group': {type: 'string'},
+      'inject-meta': {type: 'string'},
+      integrity: {type: 'string'},
+      'inject-integrity': {type: 'string'},
+      'hash-algorithms': {type: 'string'},
+      'hash-inline-styles': {type: 'string'},
+      'hash-inline-handlers': {type: 'string'},
+      'attribute-hashes': {type: 'string'},
+      'split-directives': {type: 'string'},
+      sandbox: {type: 'string'},
+      'source-granularity': {type: 'string'},
+      'collapse-wildcards': {type: 'string'},
+      'wildcard-threshold': {type: 'string'},
+      minimize: {type: 'string'},
     },
     allowPositionals: true,
   })
 
-  const finalUrl = positionals[0] || process.env.CSP_URL || ''
+  // A lone '-' positional reads the HTML from stdin
+  const fromStdin = positionals[0] === '-'
+  const input = file || (fromStdin ? '-' : undefined)
+  const finalUrl =
+    (fromStdin ? '' : positionals[0]) || baseUrl || process.env.CSP_URL || ''
 
   // Validate URL format
   if (finalUrl) {
@@ -118,11 +687,11 @@ export function getOptions(): SecureCSPGeneratorOptions {
     return defaultValue
   }
 
-  const parseNumber = (
+  const parseNumber = <T extends number | undefined>(
     value: string | undefined,
     envVar: string | undefined,
-    defaultValue: number,
-  ) => {
+    defaultValue: T,
+  ): number | T => {
     const val = value || envVar
     if (!val) return defaultValue
     const num = parseInt(val, 10)
@@ -130,7 +699,14 @@ export function getOptions(): SecureCSPGeneratorOptions {
   }
 
   // Validate format value
-  const validFormats = ['header', 'raw', 'json', 'csp-only']
+  const validFormats = [
+    'header',
+    'raw',
+    'json',
+    'csp-only',
+    ...SERVER_CONFIG_FORMATS,
+    'meta',
+  ]
   const outputFormat = format || process.env.CSP_OUTPUT_FORMAT || 'header'
   if (!validFormats.includes(outputFormat)) {
     console.warn(`Invalid format "${outputFormat}", defaulting to "header"`)
@@ -160,7 +736,19 @@ export function getOptions(): SecureCSPGeneratorOptions {
       process.env.CSP_REQUIRE_TRUSTED_TYPES,
       true,
     ),
+    trustedTypes: parseTrustedTypes(
+      trustedTypes || process.env.CSP_TRUSTED_TYPES,
+      parseBoolean(
+        trustedTypesAllowDuplicates,
+        process.env.CSP_TRUSTED_TYPES_ALLOW_DUPLICATES,
+      ),
+    ),
     maxBodySize: parseNumber(maxBodySize, process.env.CSP_MAX_BODY_SIZE, 0),
+    maxHeaderBytes: parseNumber(
+      maxHeaderBytes,
+      process.env.CSP_MAX_HEADER_BYTES,
+      0,
+    ),
     timeoutMs: parseNumber(timeoutMs, process.env.CSP_TIMEOUT_MS, 8000),
     presets: parsePresets(presets || process.env.CSP_PRESETS),
     fetchOptions: parseFetchOptions(
@@ -169,15 +757,103 @@ export function getOptions(): SecureCSPGeneratorOptions {
     outputFormat: (validFormats.includes(outputFormat)
       ? outputFormat
       : 'header') as SecureCSPGeneratorOptions['outputFormat'],
+    followStylesheets: parseBoolean(
+      followStylesheets,
+      process.env.CSP_FOLLOW_STYLESHEETS,
+    ),
+    maxStylesheetDepth: parseNumber(
+      maxStylesheetDepth,
+      process.env.CSP_MAX_STYLESHEET_DEPTH,
+      undefined,
+    ),
+    analyzeScripts: parseBoolean(
+      analyzeScripts,
+      process.env.CSP_ANALYZE_SCRIPTS,
+    ),
+    file: input,
+    crawl: parseBoolean(crawl, process.env.CSP_CRAWL),
+    maxDepth: parseNumber(maxDepth, process.env.CSP_MAX_DEPTH, undefined),
+    maxPages: parseNumber(maxPages, process.env.CSP_MAX_PAGES, undefined),
+    concurrency: parseNumber(
+      concurrency,
+      process.env.CSP_CONCURRENCY,
+      undefined,
+    ),
+    requestsPerSecond: parseNumber(
+      requestsPerSecond,
+      process.env.CSP_REQUESTS_PER_SECOND,
+      undefined,
+    ),
+    respectRobotsTxt: parseBoolean(
+      respectRobotsTxt,
+      process.env.CSP_RESPECT_ROBOTS_TXT,
+      true,
+    ),
+    compare: parseBoolean(compare, process.env.CSP_COMPARE),
+    reportOnly: parseBoolean(reportOnly, process.env.CSP_REPORT_ONLY),
+    reportUri: reportUri || process.env.CSP_REPORT_URI || undefined,
+    reportGroup: reportGroup || process.env.CSP_REPORT_GROUP || undefined,
+    injectMeta: parseBoolean(injectMeta, process.env.CSP_INJECT_META),
+    hashInlineStyles: parseBoolean(
+      hashInlineStyles,
+      process.env.CSP_HASH_INLINE_STYLES,
+    ),
+    hashInlineHandlers: parseBoolean(
+      hashInlineHandlers,
+      process.env.CSP_HASH_INLINE_HANDLERS,
+    ),
+    attributeHashes: (attributeHashes ||
+      process.env.CSP_ATTRIBUTE_HASHES ||
+      undefined) as CLIOptions['attributeHashes'],
+    splitDirectives: parseBoolean(
+      splitDirectives,
+      process.env.CSP_SPLIT_DIRECTIVES,
+    ),
+    hashAlgorithms: parseHashAlgorithms(
+      hashAlgorithms || process.env.CSP_HASH_ALGORITHMS,
+    ),
+    sandbox: parseSandbox(sandbox || process.env.CSP_SANDBOX),
+    sourceGranularity: parseSourceGranularity(
+      sourceGranularity || process.env.CSP_SOURCE_GRANULARITY,
+    ),
+    collapseWildcards: parseBoolean(
+      collapseWildcards,
+      process.env.CSP_COLLAPSE_WILDCARDS,
+    ) && {
+      threshold: parseNumber(
+        wildcardThreshold,
+        process.env.CSP_WILDCARD_THRESHOLD,
+        undefined,
+      ),
+    },
+    minimize: parseBoolean(minimize, process.env.CSP_MINIMIZE),
+    integrity: parseBoolean(integrity, process.env.CSP_INTEGRITY),
+    injectIntegrity: parseBoolean(
+      injectIntegrity,
+      process.env.CSP_INJECT_INTEGRITY,
+    ),
   }
 }
 
 export async function main() {
   try {
+    if (process.argv[2] === 'evaluate') {
+      await evaluateCommand(process.argv.slice(3))
+      return
+    }
+    if (process.argv[2] === 'collect') {
+      await collectCommand(process.argv.slice(3))
+      return
+    }
+    if (process.argv[2] === 'refine') {
+      await refineCommand(process.argv.slice(3))
+      return
+    }
+
     const options = getOptions()
 
-    if (!options.url) {
-      console.error('Usage: csp-generator <url> [options]')
+    if (!options.url && !options.file) {
+      console.error('Usage: csp-generator <url|-> [options]')
       console.error('\nOptions:')
       console.error(
         '  --allow-http <true|false>       Allow HTTP URLs in addition to HTTPS',
@@ -197,9 +873,18 @@ export async function main() {
       console.error(
         '  --require-trusted-types <true|false>  Add require-trusted-types-for script',
       )
+      console.error(
+        '  --trusted-types <names>        Extra Trusted Types policy names (comma-separated)',
+      )
+      console.error(
+        "  --trusted-types-allow-duplicates <true|false>  Add 'allow-duplicates' to trusted-types",
+      )
       console.error(
         '  --max-body-size <bytes>        Maximum allowed bytes for HTML download',
       )
+      console.error(
+        '  --max-header-bytes <bytes>     Shrink the policy to fit, or fail (0 = unlimited)',
+      )
       console.error(
         '  --timeout-ms <milliseconds>    Timeout for fetch requests',
       )
@@ -210,28 +895,290 @@ export async function main() {
         '  --fetch-options <json>         Options to forward to fetch',
       )
       console.error(
-        '  --format, -f <format>          Output format (header, raw, json, csp-only)',
+        '  --format, -f <format>          Output format (header, raw, json, csp-only,',
+      )
+      console.error(
+        '                                 nginx, apache, caddy, haproxy, meta)',
+      )
+      console.error(
+        '  --file <path>                  Analyze a local HTML file (- for stdin)',
+      )
+      console.error(
+        '  --base-url <url>               Base URL for resolving local HTML',
+      )
+      console.error(
+        '  --follow-stylesheets <true|false>  Fetch linked CSS for fonts, images, @import',
+      )
+      console.error(
+        '  --max-stylesheet-depth <n>     Maximum @import nesting to follow',
+      )
+      console.error(
+        '  --analyze-scripts <true|false>  Scan scripts for fetch/WebSocket/worker URLs',
+      )
+      console.error(
+        '  --crawl <true|false>           Crawl same-origin links and merge policies',
+      )
+      console.error(
+        '  --max-depth <n>                Link depth to follow when crawling',
+      )
+      console.error(
+        '  --max-pages <n>                Maximum pages to analyze when crawling',
+      )
+      console.error(
+        '  --concurrency <n>              Pages fetched in parallel when crawling',
+      )
+      console.error(
+        '  --requests-per-second <n>      Crawl request-rate limit (0 = unlimited)',
+      )
+      console.error(
+        '  --respect-robots-txt <true|false>  Skip paths disallowed by robots.txt',
+      )
+      console.error(
+        '  --compare <true|false>         Compare with the policy the page already sends',
+      )
+      console.error(
+        '  --report-only <true|false>     Emit Content-Security-Policy-Report-Only',
+      )
+      console.error(
+        '  --report-uri <url>             Send violation reports to this endpoint',
+      )
+      console.error(
+        "  --report-group <name>          Reporting group name (default: 'csp-endpoint')",
+      )
+      console.error(
+        '  --inject-meta <true|false>     Print the document with a <meta> policy in <head>',
+      )
+      console.error(
+        '  --integrity <true|false>       Compute sha384 SRI for external scripts and styles',
+      )
+      console.error(
+        '  --hash-algorithms <list>       Inline hash algorithms: sha256, sha384, sha512',
+      )
+      console.error(
+        '  --hash-inline-styles <true|false>  Hash <style> blocks and style attributes',
+      )
+      console.error(
+        '  --hash-inline-handlers <true|false>  Hash event handlers and javascript: URLs',
+      )
+      console.error(
+        '  --attribute-hashes <mode>      Attribute hashes in attr-directive or unsafe-hashes',
+      )
+      console.error(
+        '  --split-directives <true|false>  Also emit script/style -elem and -attr directives',
+      )
+      console.error(
+        '  --sandbox <infer|none|tokens>  Add a sandbox directive (tokens comma-separated)',
+      )
+      console.error(
+        '  --source-granularity <mode>    scheme, origin, path or url (or dir:mode,...)',
+      )
+      console.error(
+        '  --collapse-wildcards <true|false>  Replace sibling subdomains with *.domain',
+      )
+      console.error(
+        '  --wildcard-threshold <n>       Subdomains that trigger a collapse (default: 5)',
+      )
+      console.error(
+        '  --minimize <true|false>        Drop redundant sources and directives',
+      )
+      console.error(
+        '  --inject-integrity <true|false>  Print the document with integrity attributes',
+      )
+      console.error('\nCommands:')
+      console.error(
+        '  evaluate <policy|->            Report weaknesses in an existing policy',
+      )
+      console.error(
+        '  collect [--port n] [--file f]  Collect violation reports on a local server',
+      )
+      console.error(
+        '  refine <policy|-> --reports f  Propose policy additions from reports',
       )
       console.error(
         '\nExample: csp-generator https://example.com --format json',
       )
+      console.error(
+        '         cat index.html | csp-generator - --base-url https://example.com',
+      )
       process.exit(1)
     }
 
-    const generator = new SecureCSPGenerator(options.url, {
+    const generatorOptions: SecureCSPGeneratorOptions = {
       allowHttp: options.allowHttp,
       allowPrivateOrigins: options.allowPrivateOrigins,
       allowUnsafeInlineScript: options.allowUnsafeInlineScript,
       allowUnsafeInlineStyle: options.allowUnsafeInlineStyle,
+      hashInlineStyles: options.hashInlineStyles,
+      hashInlineHandlers: options.hashInlineHandlers,
+      attributeHashes: options.attributeHashes,
+      splitDirectives: options.splitDirectives,
+      sandbox: options.sandbox,
+      sourceGranularity: options.sourceGranularity,
+      collapseWildcards: options.collapseWildcards,
+      minimize: options.minimize,
       allowUnsafeEval: options.allowUnsafeEval,
       requireTrustedTypes: options.requireTrustedTypes,
+      trustedTypes: options.trustedTypes,
       maxBodySize: options.maxBodySize,
+      maxHeaderBytes: options.maxHeaderBytes,
       timeoutMs: options.timeoutMs,
       presets: options.presets,
       fetchOptions: options.fetchOptions,
-    })
+      followStylesheets: options.followStylesheets,
+      maxStylesheetDepth: options.maxStylesheetDepth,
+      analyzeScripts: options.analyzeScripts,
+      hashAlgorithms: options.hashAlgorithms,
+      integrity: options.integrity || options.injectIntegrity,
+      reportOnly: options.reportOnly,
+      reportUri: options.reportUri,
+      reportGroup: options.reportGroup,
+    }
+
+    if (options.crawl && !options.file) {
+      const crawler = new SiteCrawler(options.url!, {
+        ...generatorOptions,
+        maxDepth: options.maxDepth,
+        maxPages: options.maxPages,
+        concurrency: options.concurrency,
+        requestsPerSecond: options.requestsPerSecond,
+        respectRobotsTxt: options.respectRobotsTxt,
+      })
+      const {policy, pages, headerBudget} = await crawler.crawl()
+      for (const page of pages) {
+        console.error(
+          page.error
+            ? `✗ ${page.url} (${page.error})`
+            : `✓ ${page.url} (depth ${page.depth})`,
+        )
+      }
+      if (headerBudget.length) {
+        console.error(formatHeaderBudget(options.maxHeaderBytes!, headerBudget))
+      }
+      console.log(formatOutput(policy, options))
+      return
+    }
+
+    const generator = new SecureCSPGenerator(
+      options.url || DEFAULT_BASE_URL,
+      generatorOptions,
+    )
+
+    const csp = options.file
+      ? await generator.generateFromHtml(await readHtmlInput(options.file))
+      : await generator.generate()
+
+    const report = generator.getReport()
+    const blocked = (findings: InlineFinding[]) =>
+      findings.filter((f) => !allowsInline(generator.getPolicy(), f))
+    const blockedStyles = blocked(report.inlineStyles)
+    if (blockedStyles.length) {
+      console.error(
+        formatInlineFindings(
+          'Inline styles blocked by this policy (refactor them or pass --hash-inline-styles true)',
+          blockedStyles,
+        ),
+      )
+    }
+    const blockedHandlers = blocked(report.inlineHandlers)
+    if (blockedHandlers.length) {
+      console.error(
+        formatInlineFindings(
+          'Event handlers and javascript: URLs blocked by this policy (refactor them or pass --hash-inline-handlers true)',
+          blockedHandlers,
+        ),
+      )
+    }
+    const sharedHosts = report.sources.filter(
+      (f) => f.sharedHost && f.source === new URL(f.url).origin,
+    )
+    if (sharedHosts.length) {
+      console.error(
+        formatSourceFindings(
+          'Shared hosts allowed in full (narrow them with --source-granularity path or url)',
+          sharedHosts,
+        ),
+      )
+    }
+    if (report.wildcards.length) {
+      console.error('Sibling subdomains collapsed into wildcards:')
+      for (const {directive, wildcard, replaced} of report.wildcards) {
+        console.error(
+          `  ${directive} ${wildcard} replaces ${replaced.join(' ')}`,
+        )
+      }
+    }
+    if (report.minimized.length) {
+      console.error('Redundant sources and directives removed:')
+      for (const {directive, source, reason} of report.minimized) {
+        console.error(`  ${directive}${source ? ` ${source}` : ''}: ${reason}`)
+      }
+    }
+    if (report.headerBudget.length) {
+      console.error(
+        formatHeaderBudget(options.maxHeaderBytes!, report.headerBudget),
+      )
+    }
+
+    if (options.injectIntegrity) {
+      const html = generator.injectIntegrity()
+      console.log(
+        options.injectMeta ? injectMetaTag(html, generator.getMetaTag()) : html,
+      )
+      return
+    }
+
+    if (options.injectMeta) {
+      console.log(generator.injectMetaTag())
+      return
+    }
+
+    if (options.integrity) {
+      const manifest = generator.getIntegrityManifest()
+      if (options.outputFormat === 'json') {
+        console.log(
+          JSON.stringify(
+            {...buildHeaders(csp, options), integrity: manifest},
+            null,
+            2,
+          ),
+        )
+        return
+      }
+      console.log(formatOutput(csp, options))
+      console.log(`\n${formatIntegrity(manifest)}`)
+      return
+    }
+
+    if (options.compare) {
+      const {existingPolicies} = generator.getReport()
+      if (options.outputFormat === 'json') {
+        console.log(
+          JSON.stringify(
+            {
+              ...buildHeaders(csp, options),
+              comparisons: existingPolicies.map((existing) => ({
+                ...existing,
+                ...comparePolicies(existing.policy, csp, {self: generator.url}),
+              })),
+            },
+            null,
+            2,
+          ),
+        )
+        return
+      }
+      console.log(formatOutput(csp, options))
+      if (!existingPolicies.length) {
+        console.error('\nNo existing Content-Security-Policy found')
+      }
+      for (const existing of existingPolicies) {
+        console.log(
+          `\n${formatComparison(existing, comparePolicies(existing.policy, csp, {self: generator.url}))}`,
+        )
+      }
+      return
+    }
 
-    const csp = await generator.generate()
     console.log(formatOutput(csp, options))
   } catch (error: any) {
     console.error('Error:', error.message || error)
@@ -0,0 +1,410 @@
+/**
+ * @file collector.ts
+ * @description
+ *   A local HTTP server that collects CSP violation reports, e.g. while a
+ *   generated policy runs in report-only mode. Core features include:
+ *     - Legacy `application/csp-report` and Reporting API
+ *       `application/reports+json` payloads, normalized to one shape
+ *     - De-duplication by directive and blocked URI, with occurrence counts
+ *     - Persistence to a local JSON file that survives restarts
+ *     - GET /summary with the most violated directives and blocked origins
+ *
+ * @example
+ * import { ReportCollector } from './collector';
+ *
+ * const collector = new ReportCollector({ port: 8080, file: 'csp-reports.json' });
+ * const { url } = await collector.start();
+ * // Point report-uri / Reporting-Endpoints at `url`, then:
+ * console.log(collector.summary());
+ */
+
+import {createServer, type IncomingMessage, type Server} from 'node:http'
+import {readFile, writeFile} from 'node:fs/promises'
+import type {AddressInfo} from 'node:net'
+import type {Logger} from './types'
+
+/**
+ * A single violation, normalized from either report format.
+ */
+export interface ViolationReport {
+  /** URL of the page where the violation occurred. */
+  documentUri: string
+  /** The directive that blocked the resource, e.g. 'script-src-elem'. */
+  directive: string
+  /** The blocked URL, or a keyword such as 'inline', 'eval' or 'data'. */
+  blockedUri: string
+  /** 'enforce' for blocked resources, 'report' for report-only policies. */
+  disposition: 'enforce' | 'report'
+  sourceFile?: string
+  lineNumber?: number
+  columnNumber?: number
+  /** The first characters of the inline script or style, if sent. */
+  sample?: string
+}
+
+/**
+ * A de-duplicated violation with its occurrence count.
+ */
+export interface CollectedViolation extends ViolationReport {
+  count: number
+  /** ISO timestamps of the first and most recent occurrence. */
+  firstSeen: string
+  lastSeen: string
+}
+
+/**
+ * Occurrence counts behind GET /summary.
+ */
+export interface ViolationSummary {
+  /** Total reports received. */
+  total: number
+  /** Distinct directive / blocked URI pairs. */
+  unique: number
+  /** Most violated directives, by report count. */
+  directives: Array<{directive: string; count: number}>
+  /** Most blocked origins (or keywords like 'inline'), by report count. */
+  origins: Array<{origin: string; count: number}>
+}
+
+export interface ReportCollectorOptions {
+  /** Port to listen on; 0 picks a free port (default: 8080). */
+  port?: number
+  /** Interface to bind (default: '127.0.0.1'). */
+  host?: string
+  /** JSON file the violations are loaded from and saved to. */
+  file?: string
+  /** Maximum accepted request body in bytes (default: 64 KiB). */
+  maxBodySize?: number
+  /** A logger implementing error, warn, info, debug (default: console). */
+  logger?: Logger
+}
+
+const REPORT_CONTENT_TYPES = new Set([
+  'application/csp-report',
+  'application/reports+json',
+  'application/json',
+])
+
+// Reports are sent from arbitrary pages, which need CORS for reports+json
+const CORS_HEADERS = {
+  'access-control-allow-origin': '*',
+  'access-control-allow-methods': 'POST, GET, OPTIONS',
+  'access-control-allow-headers': 'content-type',
+}
+
+const str = (value: unknown): string | undefined =>
+  typeof value === 'string' && value ? value : undefined
+const num = (value: unknown): number | undefined =>
+  typeof value === 'number' && value > 0 ? value : undefined
+
+type Fields = Record<string, unknown>
+
+const isFields = (value: unknown): value is Fields =>
+  !!value && typeof value === 'object' && !Array.isArray(value)
+
+// {"csp-report": {"document-uri": ..., "effective-directive": ..., ...}}
+const isLegacyReport = (entry: Fields): entry is {'csp-report': Fields} =>
+  isFields(entry['csp-report'])
+
+// {"type": "csp-violation", "url": ..., "body": {"documentURL": ..., ...}}
+const isReportingApiReport = (
+  entry: Fields,
+): entry is {type: 'csp-violation'; url?: unknown; body: Fields} =>
+  entry.type === 'csp-violation' && isFields(entry.body)
+
+// An entry of a saved reports file; the other fields are optional
+const isCollectedViolation = (entry: unknown): entry is CollectedViolation =>
+  isFields(entry) &&
+  typeof entry.directive === 'string' &&
+  typeof entry.blockedUri === 'string' &&
+  typeof entry.count === 'number'
+
+/**
+ * Normalizes a parsed report payload in either the legacy
+ * `{"csp-report": {...}}` format or the Reporting API array format.
+ * Entries that are not CSP violations are dropped.
+ */
+export function normalizeReports(payload: unknown): ViolationReport[] {
+  const entries = Array.isArray(payload) ? payload : [payload]
+  const reports: ViolationReport[] = []
+
+  for (const entry of entries) {
+    if (!isFields(entry)) continue
+
+    if (isLegacyReport(entry)) {
+      const legacy = entry['csp-report']
+      const directive =
+        str(legacy['effective-directive']) ??
+        str(legacy['violated-directive'])?.split(/\s+/)[0]
+      if (!directive) continue
+      reports.push({
+        documentUri: str(legacy['document-uri']) ?? '',
+        directive,
+        blockedUri: str(legacy['blocked-uri']) ?? 'inline',
+        disposition: legacy.disposition === 'report' ? 'report' : 'enforce',
+        sourceFile: str(legacy['source-file']),
+        lineNumber: num(legacy['line-number']),
+        columnNumber: num(legacy['column-number']),
+        sample: str(legacy['script-sample']),
+      })
+      continue
+    }
+
+    if (!isReportingApiReport(entry)) continue
+    const {url, body} = entry
+    const directive = str(body.effectiveDirective)
+    if (!directive) continue
+    reports.push({
+      documentUri: str(body.documentURL) ?? str(url) ?? '',
+      directive,
+      blockedUri: str(body.blockedURL) ?? 'inline',
+      disposition: body.disposition === 'report' ? 'report' : 'enforce',
+      sourceFile: str(body.sourceFile),
+      lineNumber: num(body.lineNumber),
+      columnNumber: num(body.columnNumber),
+      sample: str(body.sample),
+    })
+  }
+
+  return reports
+}
+
+/**
+ * Origin of a blocked URI, its scheme for opaque URLs such as data:,
+ * or the URI itself for keywords such as 'inline' and 'eval'.
+ */
+export function blockedOrigin(blockedUri: string): string {
+  try {
+    const url = new URL(blockedUri)
+    return url.origin !== 'null' ? url.origin : url.protocol
+  } catch {
+    return blockedUri
+  }
+}
+
+/**
+ * Counts violations by directive and blocked origin, most frequent first.
+ * @param limit - Maximum entries per list (default: 10)
+ */
+export function summarizeViolations(
+  violations: CollectedViolation[],
+  limit = 10,
+): ViolationSummary {
+  const directives = new Map<string, number>()
+  const origins = new Map<string, number>()
+  let total = 0
+  for (const v of violations) {
+    total += v.count
+    directives.set(v.directive, (directives.get(v.directive) ?? 0) + v.count)
+    const origin = blockedOrigin(v.blockedUri)
+    origins.set(origin, (origins.get(origin) ?? 0) + v.count)
+  }
+  const top = (counts: Map<string, number>) =>
+    Array.from(counts)
+      .sort((a, b) => b[1] - a[1] || (a[0] < b[0] ? -1 : 1))
+      .slice(0, limit)
+  return {
+    total,
+    unique: violations.length,
+    directives: top(directives).map(([directive, count]) => ({
+      directive,
+      count,
+    })),
+    origins: top(origins).map(([origin, count]) => ({origin, count})),
+  }
+}
+
+/**
+ * Reads violations previously saved by a collector; a missing file is empty.
+ */
+export async function loadViolations(
+  file: string,
+): Promise<CollectedViolation[]> {
+  try {
+    const saved: unknown = JSON.parse(await readFile(file, 'utf8'))
+    if (!Array.isArray(saved) || !saved.every(isCollectedViolation)) {
+      throw new Error('expected an array of collected violations')
+    }
+    return saved
+  } catch (err: any) {
+    if (err?.code === 'ENOENT') return []
+    throw new Error(`Cannot read reports from ${file}: ${err?.message || err}`)
+  }
+}
+
+/**
+ * ReportCollector:
+ * Receives, de-duplicates and persists CSP violation reports.
+ */
+export class ReportCollector {
+  private readonly opts: Required<Omit<ReportCollectorOptions, 'file'>> &
+    Pick<ReportCollectorOptions, 'file'>
+  private readonly violations = new Map<string, CollectedViolation>()
+  private server: Server | null = null
+  private saving: Promise<void> = Promise.resolve()
+
+  constructor(opts: ReportCollectorOptions = {}) {
+    const {
+      port = 8080,
+      host = '127.0.0.1',
+      file,
+      maxBodySize = 64 * 1024,
+      logger = console,
+    } = opts
+    this.opts = {port, host, file, maxBodySize, logger}
+  }
+
+  /**
+   * Loads previously saved violations and starts listening.
+   * @returns The URL reports should be sent to
+   */
+  public async start(): Promise<{url: string; port: number}> {
+    if (this.opts.file) {
+      for (const v of await loadViolations(this.opts.file)) {
+        this.violations.set(this.key(v), v)
+      }
+    }
+
+    const server = createServer((req, res) => {
+      this.handle(req)
+        .then(({status, body}) => {
+          res.writeHead(status, {
+            ...CORS_HEADERS,
+            ...(body !== undefined && {'content-type': 'application/json'}),
+          })
+          res.end(body === undefined ? undefined : JSON.stringify(body))
+        })
+        .catch((err) => {
+          this.opts.logger.error(`Failed to handle report: ${err}`)
+          res.writeHead(500, CORS_HEADERS)
+          res.end()
+        })
+    })
+    this.server = server
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject)
+      server.listen(this.opts.port, this.opts.host, () => resolve())
+    })
+    const {port} = server.address() as AddressInfo
+    const host = this.opts.host.includes(':')
+      ? `[${this.opts.host}]`
+      : this.opts.host
+    return {url: `http://${host}:${port}/`, port}
+  }
+
+  /**
+   * Stops the server and waits for pending writes.
+   */
+  public async stop(): Promise<void> {
+    const server = this.server
+    this.server = null
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()))
+    }
+    await this.saving
+  }
+
+  /**
+   * Records normalized reports, merging duplicates.
+   */
+  public add(reports: ViolationReport[]): void {
+    const now = new Date().toISOString()
+    for (const report of reports) {
+      const key = this.key(report)
+      const existing = this.violations.get(key)
+      if (existing) {
+        existing.count++
+        existing.lastSeen = now
+      } else {
+        this.violations.set(key, {
+          ...report,
+          count: 1,
+          firstSeen: now,
+          lastSeen: now,
+        })
+      }
+    }
+  }
+
+  /**
+   * All collected violations, most frequent first.
+   */
+  public getViolations(): CollectedViolation[] {
+    return Array.from(this.violations.values(), (v) => ({...v})).sort(
+      (a, b) => b.count - a.count,
+    )
+  }
+
+  public summary(limit?: number): ViolationSummary {
+    return summarizeViolations(this.getViolations(), limit)
+  }
+
+  private key(report: ViolationReport): string {
+    return `${report.directive} ${report.blockedUri}`
+  }
+
+  /**
+   * Routes a request: POST stores reports, GET /summary and GET /reports
+   * return JSON, OPTIONS answers CORS preflights.
+   */
+  private async handle(
+    req: IncomingMessage,
+  ): Promise<{status: number; body?: unknown}> {
+    const path = new URL(req.url ?? '/', 'http://collector').pathname
+
+    if (req.method === 'OPTIONS') return {status: 204}
+    if (req.method === 'GET' && path === '/summary') {
+      return {status: 200, body: this.summary()}
+    }
+    if (req.method === 'GET' && path === '/reports') {
+      return {status: 200, body: this.getViolations()}
+    }
+    if (req.method !== 'POST') return {status: 404}
+
+    const type = (req.headers['content-type'] ?? '')
+      .split(';')[0]!
+      .trim()
+      .toLowerCase()
+    if (!REPORT_CONTENT_TYPES.has(type)) return {status: 415}
+
+    const raw = await this.readBody(req)
+    if (raw === null) return {status: 413}
+
+    let payload: unknown
+    try {
+      payload = JSON.parse(raw)
+    } catch {
+      return {status: 400}
+    }
+
+    const reports = normalizeReports(payload)
+    this.add(reports)
+    this.opts.logger.debug(`Received ${reports.length} violation report(s)`)
+    if (reports.length) this.persist()
+    return {status: 204}
+  }
+
+  // Resolves to null once the body exceeds maxBodySize
+  private async readBody(req: IncomingMessage): Promise<string | null> {
+    const chunks: Buffer[] = []
+    let size = 0
+    for await (const chunk of req) {
+      size += chunk.length
+      if (size > this.opts.maxBodySize) return null
+      chunks.push(Buffer.from(chunk))
+    }
+    return Buffer.concat(chunks).toString('utf8')
+  }
+
+  // Writes are chained so the file always ends up with the latest state
+  private persist(): void {
+    const {file, logger} = this.opts
+    if (!file) return
+    this.saving = this.saving.then(() =>
+      writeFile(file, JSON.stringify(this.getViolations(), null, 2)).catch(
+        (err) => logger.error(`Failed to save reports to ${file}: ${err}`),
+      ),
+    )
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * @file compare.ts
+ * @description
+ *   Compares a live policy with the one a page actually needs: which
+ *   sources the live policy allows needlessly, which needed sources it is
+ *   missing, and which directives differ. Directives absent from either
+ *   policy follow their fallback chain (e.g. frame-src to child-src, then
+ *   default-src), as in browsers; directives
+ *   a policy does not restrict at all only show up as directive differences.
+ *   A source counts as allowed when a source of the other policy covers it
+ *   (`https:` covers `https://cdn.example.com`, `*.example.com` covers
+ *   `cdn.example.com`), with 'self' and scheme-less hosts resolved against
+ *   the page URL when one is given.
+ *   Nonces are regenerated per response, so any two nonces compare equal.
+ *
+ * @example
+ * import { comparePolicies } from './compare';
+ *
+ * const {unneeded, missing} = comparePolicies(livePolicy, generator.getPolicy(), {
+ *   self: 'https://example.com',
+ * });
+ */
+
+import {CSPPolicy, normalizeSource, type DirectiveDiff} from './policy'
+import {sourceListCovers} from './source-matcher'
+import type {DirectiveName} from './types'
+
+export interface CompareOptions {
+  /**
+   * URL of the page both policies protect. Without it, 'self' and hosts
+   * without a scheme only match themselves.
+   */
+  self?: string | URL
+}
+
+/**
+ * Sources of one directive that only one policy allows.
+ */
+export interface SourceDelta {
+  directive: DirectiveName
+  sources: string[]
+}
+
+/**
+ * Outcome of {@link comparePolicies}.
+ */
+export interface PolicyComparison {
+  /** Sources the live policy allows that the page does not need. */
+  unneeded: SourceDelta[]
+  /** Sources the page needs that the live policy does not allow. */
+  missing: SourceDelta[]
+  /** Directive-level differences; added/removed are relative to the live policy. */
+  directives: DirectiveDiff[]
+}
+
+const NONCE_PLACEHOLDER = "'nonce-*'"
+
+// Normalizes sources and collapses every nonce to a placeholder
+function comparable(policy: CSPPolicy): CSPPolicy {
+  return new CSPPolicy(
+    policy
+      .entries()
+      .map(([dir, values]): [DirectiveName, string[]] => [
+        dir,
+        values.map((v) =>
+          /^'nonce-/i.test(v) ? NONCE_PLACEHOLDER : normalizeSource(v),
+        ),
+      ]),
+  )
+}
+
+// Sources in `from` that the effective directives of `against` do not allow
+function sourcesNotIn(
+  from: CSPPolicy,
+  against: CSPPolicy,
+  self?: URL,
+): SourceDelta[] {
+  const deltas: SourceDelta[] = []
+  for (const [directive, values] of from.entries()) {
+    const allowed = against.effective(directive)
+    if (!allowed) continue
+    const sources = values.filter((v) => !sourceListCovers(allowed, v, self))
+    if (sources.length) deltas.push({directive, sources})
+  }
+  return deltas
+}
+
+/**
+ * Compares a live policy with the generated one.
+ * @param live - The policy the site currently delivers
+ * @param generated - The policy the page needs
+ */
+export function comparePolicies(
+  live: CSPPolicy | string,
+  generated: CSPPolicy | string,
+  options: CompareOptions = {},
+): PolicyComparison {
+  const self = options.self === undefined ? undefined : new URL(options.self)
+  const current = comparable(
+    typeof live === 'string' ? CSPPolicy.parse(live) : live,
+  )
+  const needed = comparable(
+    typeof generated === 'string' ? CSPPolicy.parse(generated) : generated,
+  )
+  return {
+    unneeded: sourcesNotIn(current, needed, self),
+    missing: sourcesNotIn(needed, current, self),
+    directives: current.diff(needed),
+  }
+}
@@ -1,32 +1,272 @@
 /**
  * @file constants.ts
- * @description Shared constants for the CSP generator
+ * @description
+ *   Shared constants for the CSP generator, chiefly the directive registry:
+ *   every CSP Level 3 directive with its fallback chain, value grammar and
+ *   whether it takes effect in a `<meta>` policy.
  */
 
+import type {SandboxToken} from './types'
+
+/**
+ * The values a directive accepts:
+ *  - source-list: `'self'`, keywords, nonces, hashes, schemes and hosts
+ *  - ancestor-source-list: `'self'`, `'none'`, schemes and hosts
+ *  - sandbox-flags: `allow-*` tokens, or none at all
+ *  - sink-groups: `'script'`
+ *  - policy-names: Trusted Types policy names, `'allow-duplicates'`,
+ *    `'none'` and `*`
+ *  - uri-references: one or more URLs
+ *  - token: a single reporting group name
+ *  - allow-block: `'allow'` or `'block'`
+ *  - none: no values
+ */
+export type DirectiveGrammar =
+  | 'source-list'
+  | 'ancestor-source-list'
+  | 'sandbox-flags'
+  | 'sink-groups'
+  | 'policy-names'
+  | 'uri-references'
+  | 'token'
+  | 'allow-block'
+  | 'none'
+
+/**
+ * How a directive behaves.
+ */
+export interface DirectiveSpec {
+  /**
+   * Directives a browser consults, in order, when this one is absent
+   * (CSP3 "effective directive" fallback lists).
+   */
+  fallback: readonly string[]
+  grammar: DirectiveGrammar
+  /** Whether browsers honor the directive in a `<meta>` policy. */
+  meta: boolean
+  /** Deprecated directives are still accepted, but no longer needed. */
+  deprecated?: boolean
+}
+
+/**
+ * The CSP directive registry.
+ * @see https://www.w3.org/TR/CSP3/#csp-directives
+ */
+export const CSP_DIRECTIVES = {
+  'default-src': {fallback: [], grammar: 'source-list', meta: true},
+  'script-src': {fallback: ['default-src'], grammar: 'source-list', meta: true},
+  'script-src-elem': {
+    fallback: ['script-src', 'default-src'],
+    grammar: 'source-list',
+    meta: true,
+  },
+  'script-src-attr': {
+    fallback: ['script-src', 'default-src'],
+    grammar: 'source-list',
+    meta: true,
+  },
+  'style-src': {fallback: ['default-src'], grammar: 'source-list', meta: true},
+  'style-src-elem': {
+    fallback: ['style-src', 'default-src'],
+    grammar: 'source-list',
+    meta: true,
+  },
+  'style-src-attr': {
+    fallback: ['style-src', 'default-src'],
+    grammar: 'source-list',
+    meta: true,
+  },
+  'img-src': {fallback: ['default-src'], grammar: 'source-list', meta: true},
+  'font-src': {fallback: ['default-src'], grammar: 'source-list', meta: true},
+  'connect-src': {
+    fallback: ['default-src'],
+    grammar: 'source-list',
+    meta: true,
+  },
+  'media-src': {fallback: ['default-src'], grammar: 'source-list', meta: true},
+  'object-src': {
+    fallback: ['default-src'],
+    grammar: 'source-list',
+    meta: true,
+  },
+  'manifest-src': {
+    fallback: ['default-src'],
+    grammar: 'source-list',
+    meta: true,
+  },
+  'child-src': {fallback: ['default-src'], grammar: 'source-list', meta: true},
+  'frame-src': {
+    fallback: ['child-src', 'default-src'],
+    grammar: 'source-list',
+    meta: true,
+  },
+  'fenced-frame-src': {
+    fallback: ['frame-src', 'child-src', 'default-src'],
+    grammar: 'source-list',
+    meta: true,
+  },
+  'worker-src': {
+    fallback: ['child-src', 'script-src', 'default-src'],
+    grammar: 'source-list',
+    meta: true,
+  },
+  'base-uri': {fallback: [], grammar: 'source-list', meta: true},
+  'form-action': {fallback: [], grammar: 'source-list', meta: true},
+  'frame-ancestors': {
+    fallback: [],
+    grammar: 'ancestor-source-list',
+    meta: false,
+  },
+  sandbox: {fallback: [], grammar: 'sandbox-flags', meta: false},
+  'report-uri': {
+    fallback: [],
+    grammar: 'uri-references',
+    meta: false,
+    deprecated: true,
+  },
+  'report-to': {fallback: [], grammar: 'token', meta: false},
+  'upgrade-insecure-requests': {fallback: [], grammar: 'none', meta: true},
+  'block-all-mixed-content': {
+    fallback: [],
+    grammar: 'none',
+    meta: true,
+    deprecated: true,
+  },
+  'require-trusted-types-for': {
+    fallback: [],
+    grammar: 'sink-groups',
+    meta: true,
+  },
+  'trusted-types': {fallback: [], grammar: 'policy-names', meta: true},
+  webrtc: {fallback: [], grammar: 'allow-block', meta: true},
+} as const satisfies Record<string, DirectiveSpec>
+
+export type CSPDirective = keyof typeof CSP_DIRECTIVES
+
 /**
  * List of valid CSP directives
  * @see https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Content-Security-Policy
  */
-export const VALID_CSP_DIRECTIVES = [
-  'default-src',
-  'script-src',
-  'style-src',
-  'img-src',
-  'font-src',
-  'connect-src',
-  'frame-src',
-  'object-src',
-  'base-uri',
-  'form-action',
-  'frame-ancestors',
-  'media-src',
-  'worker-src',
-  'manifest-src',
-  'report-uri',
-  'report-to',
-  'upgrade-insecure-requests',
-  'block-all-mixed-content',
-  'require-trusted-types-for',
-] as const
-
-export type CSPDirective = (typeof VALID_CSP_DIRECTIVES)[number]
+export const VALID_CSP_DIRECTIVES = Object.keys(
+  CSP_DIRECTIVES,
+) as readonly CSPDirective[]
+
+export function isDirectiveName(name: string): name is CSPDirective {
+  return Object.hasOwn(CSP_DIRECTIVES, name)
+}
+
+/**
+ * The directive itself followed by its fallbacks, i.e. where a browser
+ * looks for the sources that govern it.
+ */
+export function directiveChain(directive: CSPDirective): CSPDirective[] {
+  const spec: DirectiveSpec = CSP_DIRECTIVES[directive]
+  return [directive, ...(spec.fallback as CSPDirective[])]
+}
+
+const KEYWORDS = new Set([
+  "'self'",
+  "'none'",
+  "'unsafe-inline'",
+  "'unsafe-eval'",
+  "'unsafe-hashes'",
+  "'strict-dynamic'",
+  "'report-sample'",
+  "'wasm-unsafe-eval'",
+  "'inline-speculation-rules'",
+])
+
+/**
+ * The sandboxing flags a sandbox directive may relax.
+ * @see https://html.spec.whatwg.org/multipage/iframe-embed-object.html#attr-iframe-sandbox
+ */
+export const SANDBOX_TOKENS: readonly SandboxToken[] = [
+  'allow-downloads',
+  'allow-forms',
+  'allow-modals',
+  'allow-orientation-lock',
+  'allow-pointer-lock',
+  'allow-popups',
+  'allow-popups-to-escape-sandbox',
+  'allow-presentation',
+  'allow-same-origin',
+  'allow-scripts',
+  'allow-storage-access-by-user-activation',
+  'allow-top-navigation',
+  'allow-top-navigation-by-user-activation',
+  'allow-top-navigation-to-custom-protocols',
+]
+
+const schemeRe = /^[a-z][a-z0-9+.-]*:$/i
+const hostRe =
+  /^(?:[a-z][a-z0-9+.-]*:\/\/)?(?:\*|(?:\*\.)?[a-z0-9-]+(?:\.[a-z0-9-]+)*)(?::(?:\d+|\*))?(?:\/[^\s;,]*)?$/i
+const hashRe = /^'(?:nonce-[a-z0-9+/_=-]+|sha(?:256|384|512)-[a-z0-9+/_=-]+)'$/i
+const policyNameRe = /^[a-z0-9\-#=_/@.%]+$/i
+
+// Whether a single value fits the grammar
+function checkValue(grammar: DirectiveGrammar, value: string): boolean {
+  switch (grammar) {
+    case 'source-list':
+      return (
+        KEYWORDS.has(value.toLowerCase()) ||
+        hashRe.test(value) ||
+        schemeRe.test(value) ||
+        hostRe.test(value)
+      )
+    case 'ancestor-source-list':
+      return (
+        ["'self'", "'none'"].includes(value.toLowerCase()) ||
+        schemeRe.test(value) ||
+        hostRe.test(value)
+      )
+    case 'sandbox-flags':
+      return SANDBOX_TOKENS.includes(value.toLowerCase() as SandboxToken)
+    case 'sink-groups':
+      return value.toLowerCase() === "'script'"
+    case 'policy-names':
+      return (
+        ["'allow-duplicates'", "'none'", '*'].includes(value.toLowerCase()) ||
+        policyNameRe.test(value)
+      )
+    case 'uri-references':
+      return !/[\s;,]/.test(value)
+    case 'token':
+      return /^[a-z0-9_-]+$/i.test(value)
+    case 'allow-block':
+      return ["'allow'", "'block'"].includes(value.toLowerCase())
+    case 'none':
+      return false
+  }
+}
+
+/**
+ * Checks a directive name and its values against the registry.
+ * @throws Error naming the directive and the first invalid value
+ */
+export function validateDirective(
+  name: string,
+  values: readonly string[],
+): void {
+  if (!isDirectiveName(name)) {
+    throw new Error(`Unknown CSP directive "${name}"`)
+  }
+  const {grammar}: DirectiveSpec = CSP_DIRECTIVES[name]
+  if (grammar === 'none' && values.length) {
+    throw new Error(`${name} takes no values`)
+  }
+  const single = ['token', 'allow-block', 'sink-groups'].includes(grammar)
+  if (single && values.length !== 1) {
+    throw new Error(`${name} takes exactly one value`)
+  }
+  if (grammar === 'uri-references' && !values.length) {
+    throw new Error(`${name} needs at least one URL`)
+  }
+  for (const value of values) {
+    if (!checkValue(grammar, value)) {
+      throw new Error(`Invalid value "${value}" for ${name}`)
+    }
+  }
+  if (values.includes("'none'") && values.length > 1) {
+    throw new Error(`'none' must be the only value of ${name}`)
+  }
+}
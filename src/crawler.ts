@@ -0,0 +1,428 @@
+/**
+ * @file crawler.ts
+ * @description
+ *   SiteCrawler: runs SecureCSPGenerator over every same-origin page
+ *   reachable from a start URL and merges the per-page source lists into
+ *   a single site-wide policy. Core features include:
+ *     - Breadth-first crawl bounded by link depth and page count
+ *     - robots.txt support (Allow/Disallow with wildcards, Crawl-delay)
+ *     - Concurrency and request-rate limits
+ *     - One shared nonce so that the merged policy stays consistent
+ *     - Wildcard collapsing, minimizing and the header size budget applied
+ *       to the merged policy rather than to each page
+ *     - Per-page breakdown of the sources each page contributed
+ *
+ * @example
+ * import { SiteCrawler } from './crawler';
+ *
+ * const crawler = new SiteCrawler('https://example.com', {
+ *   maxDepth: 3,
+ *   maxPages: 200,
+ *   concurrency: 4,
+ *   requestsPerSecond: 2,
+ * });
+ * const { policy, pages } = await crawler.crawl();
+ */
+
+import {fitHeaderBudget, validateMaxHeaderBytes} from './budget'
+import {SecureCSPGenerator} from './csp-generator'
+import {minimizeSources} from './minimize'
+import {CSPPolicy} from './policy'
+import type {
+  DirectiveName,
+  HeaderBudgetStep,
+  Logger,
+  MinimizeChange,
+  SiteCrawlerOptions,
+  WildcardCollapse,
+} from './types'
+import {collapseWildcards, validateWildcardOptions} from './wildcards'
+
+export type {SiteCrawlerOptions}
+
+/**
+ * Sources contributed by a single crawled page.
+ */
+export interface CrawledPage {
+  /** Absolute URL of the page. */
+  url: string
+  /** Number of links followed from the start page. */
+  depth: number
+  /** Directive sources the page's own policy required. */
+  sources: Partial<Record<DirectiveName, string[]>>
+  /** Set when the page could not be fetched or analyzed. */
+  error?: string
+}
+
+/**
+ * A page that was discovered but deliberately not fetched.
+ */
+export interface SkippedPage {
+  url: string
+  reason: string
+}
+
+/**
+ * Outcome of a crawl.
+ */
+export interface CrawlResult {
+  /** The merged, site-wide CSP header string. */
+  policy: string
+  /** The merged directive sources behind `policy`. */
+  sources: Map<DirectiveName, Set<string>>
+  /** Per-page breakdown, in crawl order. */
+  pages: CrawledPage[]
+  /** Pages excluded by robots.txt. */
+  skipped: SkippedPage[]
+  /** The nonce in `policy`, or '' when it has none. */
+  nonce: string
+  /** Wildcards that replaced sibling subdomains across pages. */
+  wildcards: WildcardCollapse[]
+  /** Sources and directives dropped from the merged policy as redundant. */
+  minimized: MinimizeChange[]
+  /** Steps taken to fit the merged policy into maxHeaderBytes, in order. */
+  headerBudget: HeaderBudgetStep[]
+}
+
+/**
+ * Rules from the robots.txt group that applies to our user agent.
+ */
+export interface RobotsRules {
+  rules: Array<{allow: boolean; pattern: string}>
+  /** Crawl-delay in seconds, if the group specifies one. */
+  crawlDelay?: number
+}
+
+/**
+ * Parses robots.txt and returns the rules of the most specific group
+ * matching `userAgent`, falling back to the `*` group.
+ */
+export function parseRobotsTxt(text: string, userAgent: string): RobotsRules {
+  const agent = userAgent.toLowerCase()
+  const specific: RobotsRules = {rules: []}
+  const wildcard: RobotsRules = {rules: []}
+  let matchesSpecific = false
+
+  let agents: string[] = []
+  let inRules = false
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim()
+    const sep = line.indexOf(':')
+    if (sep === -1) continue
+    const key = line.slice(0, sep).trim().toLowerCase()
+    const value = line.slice(sep + 1).trim()
+
+    if (key === 'user-agent') {
+      // A user-agent line after rules starts a new group
+      if (inRules) {
+        agents = []
+        inRules = false
+      }
+      agents.push(value.toLowerCase())
+      continue
+    }
+
+    inRules = true
+    const targets: RobotsRules[] = []
+    if (agents.some((a) => a !== '*' && agent.includes(a))) {
+      matchesSpecific = true
+      targets.push(specific)
+    }
+    if (agents.includes('*')) targets.push(wildcard)
+
+    for (const target of targets) {
+      if (key === 'allow' || key === 'disallow') {
+        // An empty Disallow allows everything and adds no rule
+        if (value) target.rules.push({allow: key === 'allow', pattern: value})
+      } else if (key === 'crawl-delay') {
+        const delay = parseFloat(value)
+        if (!isNaN(delay)) target.crawlDelay = delay
+      }
+    }
+  }
+
+  return matchesSpecific ? specific : wildcard
+}
+
+/**
+ * Tests a path (including query) against robots rules: the longest
+ * matching pattern wins, and Allow wins ties.
+ */
+export function isAllowedByRobots(robots: RobotsRules, path: string): boolean {
+  let best = -1
+  let allowed = true
+  for (const {allow, pattern} of robots.rules) {
+    const anchored = pattern.endsWith('$')
+    const body = (anchored ? pattern.slice(0, -1) : pattern)
+      .split('*')
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*')
+    if (!new RegExp(`^${body}${anchored ? '$' : ''}`).test(path)) continue
+    if (pattern.length > best || (pattern.length === best && allow)) {
+      best = pattern.length
+      allowed = allow
+    }
+  }
+  return allowed
+}
+
+// Links to these are never HTML, so there is no point fetching them
+const NON_HTML_EXTENSIONS =
+  /\.(?:png|jpe?g|gif|svg|webp|ico|bmp|pdf|zip|gz|tar|mp[34]|webm|ogg|wav|woff2?|ttf|otf|css|js|json|xml|txt)$/i
+
+/**
+ * SiteCrawler:
+ * Crawls same-origin pages and merges their CSP requirements.
+ */
+export class SiteCrawler {
+  /** The start URL; only links with the same origin are followed. */
+  readonly url: URL
+  private readonly opts: SiteCrawlerOptions
+  private readonly logger: Logger
+  private readonly maxDepth: number
+  private readonly maxPages: number
+  private readonly concurrency: number
+  private intervalMs: number
+  private nextRequestAt = 0
+
+  /**
+   * @param inputUrl - URL of the start page (must be non-empty)
+   * @param opts - Crawl limits plus options forwarded to each page's generator
+   * @throws Error on invalid URL or insecure scheme when allowHttp=false
+   */
+  constructor(inputUrl: string, opts: SiteCrawlerOptions = {}) {
+    if (!inputUrl) {
+      throw new Error('URL must not be empty')
+    }
+    this.url = new URL(inputUrl)
+
+    const {
+      maxDepth = 2,
+      maxPages = 50,
+      concurrency = 4,
+      requestsPerSecond = 5,
+      logger = console,
+    } = opts
+
+    validateWildcardOptions(opts.collapseWildcards)
+    validateMaxHeaderBytes(opts.maxHeaderBytes ?? 0)
+
+    if (!opts.allowHttp && this.url.protocol !== 'https:') {
+      throw new Error(
+        'Insecure scheme rejected – pass allowHttp: true to override',
+      )
+    }
+
+    this.opts = opts
+    this.logger = logger
+    this.maxDepth = Math.max(0, maxDepth)
+    this.maxPages = Math.max(1, maxPages)
+    this.concurrency = Math.max(1, concurrency)
+    this.intervalMs = requestsPerSecond > 0 ? 1000 / requestsPerSecond : 0
+  }
+
+  /**
+   * Crawls the site breadth-first and merges the policies of all pages.
+   * Pages that fail are recorded with an error and do not abort the crawl.
+   * @throws HeaderBudgetError if the merged policy cannot fit maxHeaderBytes
+   */
+  public async crawl(): Promise<CrawlResult> {
+    const {respectRobotsTxt = true, userAgent = 'csp-generator'} = this.opts
+    const robots = respectRobotsTxt ? await this.fetchRobots(userAgent) : null
+    if (robots?.crawlDelay) {
+      this.intervalMs = Math.max(this.intervalMs, robots.crawlDelay * 1000)
+    }
+
+    // Share one nonce across pages so the merged policy has a single token
+    const nonce =
+      this.opts.customNonce ||
+      (this.opts.useNonce === false ? '' : this.generateNonce())
+
+    // Pages are combined with a fallback-aware union, so a page that only
+    // sets default-src still allows what it needs in the others' img-src
+    let merged = new CSPPolicy()
+    const pages: CrawledPage[] = []
+    const skipped: SkippedPage[] = []
+    const seen = new Set<string>()
+
+    const enqueue = (href: string, queue: string[]) => {
+      const link = new URL(href)
+      link.hash = ''
+      if (link.origin !== this.url.origin || seen.has(link.href)) return
+      if (NON_HTML_EXTENSIONS.test(link.pathname)) return
+      seen.add(link.href)
+      if (robots && !isAllowedByRobots(robots, link.pathname + link.search)) {
+        skipped.push({url: link.href, reason: 'Disallowed by robots.txt'})
+        return
+      }
+      queue.push(link.href)
+    }
+
+    let level: string[] = []
+    enqueue(this.url.href, level)
+
+    for (let depth = 0; depth <= this.maxDepth && level.length; depth++) {
+      const batch = level.slice(0, this.maxPages - pages.length)
+      const results = await this.runPool(batch, (pageUrl) =>
+        this.analyzePage(pageUrl, nonce),
+      )
+
+      const next: string[] = []
+      results.forEach((result, i) => {
+        const url = batch[i]!
+        if ('error' in result) {
+          this.logger.warn(`Skipping ${url}: ${result.error}`)
+          pages.push({url, depth, sources: {}, error: result.error})
+          return
+        }
+        pages.push({url, depth, sources: this.toRecord(result.sources)})
+        merged = merged.merge(new CSPPolicy(result.sources))
+        for (const link of result.links) enqueue(link, next)
+      })
+
+      if (pages.length >= this.maxPages) break
+      level = next
+    }
+
+    const sources = new Map(
+      merged.entries().map(([dir, vals]) => [dir, new Set(vals)] as const),
+    )
+
+    // Collapse, minimize and fit the site-wide policy, as the generator
+    // does for a single page
+    const {
+      collapseWildcards: collapse,
+      minimize = false,
+      maxHeaderBytes = 0,
+    } = this.opts
+    const wildcardOptions = typeof collapse === 'object' ? collapse : {}
+    const wildcards = collapse
+      ? collapseWildcards(sources, wildcardOptions)
+      : []
+    const minimized = minimize ? minimizeSources(sources, {self: this.url}) : []
+    const budgetNonce = nonce || this.generateNonce()
+    const budget = fitHeaderBudget(sources, maxHeaderBytes, {
+      self: this.url,
+      nonce: budgetNonce,
+      collapseWildcards: wildcardOptions,
+    })
+    if (budget.usedNonce) {
+      this.logger.warn(
+        'Inline hashes were replaced by the shared nonce to fit maxHeaderBytes; serve every page with it',
+      )
+    }
+
+    return {
+      policy: budget.policy,
+      sources,
+      pages,
+      skipped,
+      nonce: budget.usedNonce ? budgetNonce : nonce,
+      wildcards: [...wildcards, ...budget.wildcards],
+      minimized: [...minimized, ...budget.minimized],
+      headerBudget: budget.steps,
+    }
+  }
+
+  /**
+   * Generates a cryptographically secure random nonce.
+   */
+  private generateNonce(): string {
+    const buffer = new Uint8Array(16)
+    crypto.getRandomValues(buffer)
+    return Buffer.from(buffer).toString('base64')
+  }
+
+  /**
+   * Runs the generator against one page, returning its sources and links.
+   */
+  private async analyzePage(
+    pageUrl: string,
+    nonce: string,
+  ): Promise<
+    | {sources: Map<DirectiveName, Set<string>>; links: string[]}
+    | {error: string}
+  > {
+    await this.throttle()
+    try {
+      // Site-wide passes run once, on the merged policy
+      const generator = new SecureCSPGenerator(pageUrl, {
+        ...this.opts,
+        customNonce: nonce,
+        collapseWildcards: false,
+        minimize: false,
+        maxHeaderBytes: 0,
+      })
+      await generator.generate()
+      return {sources: generator.getSources(), links: generator.getLinks()}
+    } catch (err: any) {
+      return {error: err?.message || String(err)}
+    }
+  }
+
+  /**
+   * Downloads and parses robots.txt; a missing or unreachable file allows all.
+   */
+  private async fetchRobots(userAgent: string): Promise<RobotsRules | null> {
+    const {timeoutMs = 8_000, fetchOptions = {}} = this.opts
+    const ac = new AbortController()
+    const timer = setTimeout(() => ac.abort(), timeoutMs)
+    try {
+      const response = await fetch(new URL('/robots.txt', this.url), {
+        ...fetchOptions,
+        signal: ac.signal,
+      })
+      if (!response.ok) return null
+      return parseRobotsTxt(await response.text(), userAgent)
+    } catch (err: any) {
+      this.logger.debug(`robots.txt unavailable: ${err?.message || err}`)
+      return null
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  /**
+   * Waits until the next request slot allowed by the rate limit.
+   */
+  private async throttle(): Promise<void> {
+    if (!this.intervalMs) return
+    const now = Date.now()
+    const start = Math.max(now, this.nextRequestAt)
+    this.nextRequestAt = start + this.intervalMs
+    if (start > now) {
+      await new Promise((resolve) => setTimeout(resolve, start - now))
+    }
+  }
+
+  /**
+   * Maps items through `task` with at most `concurrency` in flight,
+   * preserving input order in the results.
+   */
+  private async runPool<T, R>(
+    items: T[],
+    task: (item: T) => Promise<R>,
+  ): Promise<R[]> {
+    const results: R[] = new Array(items.length)
+    let cursor = 0
+    const worker = async () => {
+      while (cursor < items.length) {
+        const i = cursor++
+        results[i] = await task(items[i]!)
+      }
+    }
+    await Promise.all(
+      Array.from({length: Math.min(this.concurrency, items.length)}, worker),
+    )
+    return results
+  }
+
+  private toRecord(
+    sources: Map<DirectiveName, Set<string>>,
+  ): Partial<Record<DirectiveName, string[]>> {
+    const record: Partial<Record<DirectiveName, string[]>> = {}
+    for (const [dir, vals] of sources) record[dir] = Array.from(vals)
+    return record
+  }
+}
@@ -5,6 +5,14 @@
  *   This version uses native browser APIs and omits Node.js-specific features.
  */
 
+import {validateDirective} from './constants'
+import {hashSources, validateHashAlgorithms} from './hash'
+import {
+  inferSandbox,
+  resolveSandbox,
+  sandboxWarnings,
+  type SandboxEvidence,
+} from './sandbox'
 import type {DirectiveName, Logger, SecureCSPGeneratorOptions} from './types'
 
 /**
@@ -25,6 +33,7 @@ export class SecureCSPGenerator {
   private detectedInlineScript = false
   private detectedInlineStyle = false
   private detectedEval = false
+  private sandboxEvidence: SandboxEvidence = {elements: [], scripts: []}
 
   /**
    * @param inputUrl - URL of the page to analyze (must be non-empty)
@@ -52,9 +61,11 @@ export class SecureCSPGenerator {
       useStrictDynamic = false,
       useNonce = false,
       useHashes = false,
+      hashAlgorithms = ['sha256'],
       upgradeInsecureRequests = true,
       blockMixedContent = true,
       restrictFraming = false,
+      sandbox,
       useSandbox = false,
     } = opts
 
@@ -80,10 +91,11 @@ export class SecureCSPGenerator {
       useStrictDynamic,
       useNonce,
       useHashes,
+      hashAlgorithms: validateHashAlgorithms(hashAlgorithms),
       upgradeInsecureRequests,
       blockMixedContent,
       restrictFraming,
-      useSandbox,
+      sandbox: resolveSandbox(sandbox, useSandbox),
       url: inputUrl,
       outputFormat: 'header',
     }
@@ -103,6 +115,7 @@ export class SecureCSPGenerator {
       DirectiveName,
       readonly string[],
     ][]) {
+      validateDirective(dir, list)
       this.sources.set(dir, new Set(list))
     }
   }
@@ -118,17 +131,6 @@ export class SecureCSPGenerator {
     )
   }
 
-  private async generateHash(content: string): Promise<string> {
-    const encoder = new TextEncoder()
-    const data = encoder.encode(content)
-    const hashBuffer = await crypto.subtle.digest('SHA-256', data)
-    const hashArray = Array.from(new Uint8Array(hashBuffer))
-    const hashHex = hashArray
-      .map((b) => b.toString(16).padStart(2, '0'))
-      .join('')
-    return `'sha256-${hashHex}'`
-  }
-
   /**
    * Downloads HTML via fetch, respecting timeouts and size limits.
    * @throws Error if HTTP status not OK, type mismatch, or size exceeded
@@ -205,22 +207,20 @@ export class SecureCSPGenerator {
 
     if (isCheerio && $) {
       // Cheerio path (Node.js/Bun/test)
-      // Collect promises for hash generation
-      const hashPromises: Promise<void>[] = []
+      // Collect hash generation in document order
+      const hashPromises: Promise<string[]>[] = []
       $('script').each((_: any, script: any) => {
         const src = $(script).attr('src')
         if (src) {
           this.ensureSet('script-src').add(src)
         } else {
+          // As in the Node build: hash the exact text, but skip scripts
+          // that are only whitespace
+          this.detectedInlineScript = true
           const code = $(script).text()
-          if (code) {
-            this.detectedInlineScript = true
+          if (code.trim()) {
             if (this.opts.useHashes) {
-              hashPromises.push(
-                this.generateHash(code).then((hash) => {
-                  this.ensureSet('script-src').add(hash)
-                }),
-              )
+              hashPromises.push(hashSources(code, this.opts.hashAlgorithms!))
             }
             if (this.opts.useNonce && this.nonce) {
               this.ensureSet('script-src').add(`'nonce-${this.nonce}'`)
@@ -229,13 +229,13 @@ export class SecureCSPGenerator {
         }
       })
       // Await all hash generation before continuing
-      if (hashPromises.length) {
-        await Promise.all(hashPromises)
+      for (const hash of (await Promise.all(hashPromises)).flat()) {
+        this.ensureSet('script-src').add(hash)
       }
       $('style').each((_: any, style: any) => {
+        this.detectedInlineStyle = true
         const code = $(style).text()
-        if (code) {
-          this.detectedInlineStyle = true
+        if (code.trim()) {
           this.extractCssUrls(code, 'style-src')
           // Extract font sources from @font-face rules
           const fontUrls =
@@ -252,9 +252,9 @@ export class SecureCSPGenerator {
       })
       // Also extract CSS URLs from inline style attributes
       $('[style]').each((_: any, el: any) => {
+        this.detectedInlineStyle = true
         const styleAttr = $(el).attr('style')
         if (styleAttr) {
-          this.detectedInlineStyle = true
           this.extractCssUrls(styleAttr, 'style-src')
         }
       })
@@ -323,9 +323,31 @@ export class SecureCSPGenerator {
           }
         }
       })
+      if (this.opts.sandbox === 'infer') {
+        this.sandboxEvidence = {
+          elements: $('*').toArray(),
+          scripts: $('script')
+            .toArray()
+            .map((script: any) => $(script).text()),
+        }
+      }
     } else if (doc) {
       // DOMParser path (browser)
       // (No-op in Bun/Node/test: skip browser-only code)
+      if (this.opts.sandbox === 'infer') {
+        this.sandboxEvidence = {
+          elements: Array.from(doc.querySelectorAll('*'), (el: any) => ({
+            name: el.localName,
+            attribs: Object.fromEntries(
+              Array.from(el.attributes, (a: any) => [a.name, a.value]),
+            ),
+          })),
+          scripts: Array.from(
+            doc.querySelectorAll('script'),
+            (script: any) => script.textContent ?? '',
+          ),
+        }
+      }
     }
 
     // Add security features
@@ -349,12 +371,6 @@ export class SecureCSPGenerator {
       this.ensureSet('frame-ancestors').add("'none'")
     }
 
-    if (this.opts.useSandbox) {
-      this.ensureSet('sandbox').add(
-        'allow-scripts allow-same-origin allow-forms allow-popups',
-      )
-    }
-
     // Heuristic eval detection
     if (
       /\b(?:eval\(|Function\s*\(|set(?:Timeout|Interval)\(['"])\b/.test(
@@ -419,17 +435,14 @@ export class SecureCSPGenerator {
       this.sources.set('frame-ancestors', new Set(["'none'"]))
     }
 
-    // Add sandbox if enabled
-    if (this.opts.useSandbox) {
-      this.sources.set(
-        'sandbox',
-        new Set([
-          'allow-scripts',
-          'allow-same-origin',
-          'allow-forms',
-          'allow-popups',
-        ]),
-      )
+    // Sandbox the page with the configured or inferred tokens
+    if (this.opts.sandbox) {
+      const tokens =
+        this.opts.sandbox === 'infer'
+          ? inferSandbox(this.sandboxEvidence)
+          : this.opts.sandbox
+      for (const warning of sandboxWarnings(tokens)) this.logger.warn(warning)
+      this.sources.set('sandbox', new Set(tokens))
     }
 
     // Enforce mixed-content safety directives
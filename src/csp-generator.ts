@@ -7,8 +7,25 @@
  *     - HTTPS-only scheme enforcement (configurable)
  *     - SSRF protection (rejects private IPv4/IPv6 by default)
  *     - Streamed HTML download with timeout and max-body-size limits
- *     - Inline <script> hashing (SHA-256) and optional nonce/unsafe-inline
- *     - Inline <style> URL extraction and optional unsafe-inline
+ *     - Offline analysis of supplied markup via generateFromHtml()/fromHtml()
+ *     - Inline <script> hashing (SHA-256/384/512) and optional nonce/unsafe-inline
+ *     - Inline <style> URL extraction and optional hashing or unsafe-inline
+ *     - Detection and optional hashing of event handlers and javascript: URLs
+ *     - Optional CSP3 split -elem/-attr directives
+ *     - Opt-in download of linked stylesheets for fonts, images and @imports
+ *     - Opt-in static analysis of scripts for connect/worker/module endpoints
+ *     - Trusted Types policy-name discovery and trusted-types output
+ *     - Sandbox tokens, configured or inferred from the page
+ *     - Scheme, origin, path or URL source granularity, per directive
+ *     - Optional collapsing of sibling subdomains into wildcard sources
+ *     - Optional minimization of redundant sources and directives
+ *     - Header size budget with minimize, wildcard and nonce fallbacks
+ *     - Capture of the page's existing header and <meta> policies
+ *     - Report-only delivery and report-uri/report-to endpoint wiring
+ *     - <meta> tag rendering and insertion into the analyzed document
+ *     - Nonce stamping of script and style elements in HTML strings/streams
+ *     - Opt-in sha384 Subresource Integrity for external scripts and styles
+ *     - Per-request nonce middleware for Express, Fastify, Hono and Bun.serve
  *     - Auto-adding of upgrade-insecure-requests & block-all-mixed-content
  *     - Pluggable logging via Console-like interface
  *     - Extensible directive presets and testable, modular helpers
@@ -30,12 +47,166 @@
  */
 
 import * as cheerio from 'cheerio'
-import {createHash} from 'crypto'
-import {isIP} from 'net'
-import dns from 'dns/promises'
-import type {DirectiveName, Logger, SecureCSPGeneratorOptions} from './types.ts'
+import {isTag, type Element} from 'domhandler'
+import {extractCssReferences} from './css'
+import {digestBase64, hashSources, validateHashAlgorithms} from './hash'
+import {isAllowedUrl} from './origin-filter'
+import {
+  describeSource,
+  granularityFor,
+  toSource,
+  validateSourceGranularity,
+} from './granularity'
+import {formatMetaTag, injectMetaTag} from './meta'
+import {
+  buildHeaders,
+  DEFAULT_REPORT_GROUP,
+  validateReportGroup,
+} from './headers'
+import {allowsUnsafeInline, CSPPolicy} from './policy'
+import {
+  inferSandbox,
+  resolveSandbox,
+  sandboxWarnings,
+  type SandboxElement,
+} from './sandbox'
+import {validateDirective} from './constants'
+import {collapseWildcards, validateWildcardOptions} from './wildcards'
+import {minimizeSources} from './minimize'
+import {fitHeaderBudget, validateMaxHeaderBytes} from './budget'
+import {classifyElement, rewriteTags, stampNonces} from './nonce-rewriter'
+import {
+  analyzeScript,
+  analyzeTrustedTypes,
+  isJavaScriptType,
+  type ScriptCall,
+  type TrustedTypesCall,
+} from './script-analyzer'
+import type {
+  DirectiveName,
+  ExistingPolicy,
+  GeneratorReport,
+  HashAlgorithm,
+  HeaderBudgetStep,
+  InlineFinding,
+  Logger,
+  MinimizeChange,
+  SandboxToken,
+  ScriptFinding,
+  SourceFinding,
+  SourceGranularity,
+  TrustedTypesFinding,
+  TrustedTypesOptions,
+  SecureCSPGeneratorOptions,
+  WildcardCollapse,
+  WildcardOptions,
+} from './types.ts'
 
-export type {SecureCSPGeneratorOptions}
+export type {
+  ExistingPolicy,
+  GeneratorReport,
+  HashAlgorithm,
+  HeaderBudgetStep,
+  InlineFinding,
+  MinimizeChange,
+  SandboxToken,
+  ScriptFinding,
+  SourceFinding,
+  SourceGranularity,
+  TrustedTypesFinding,
+  TrustedTypesOptions,
+  SecureCSPGeneratorOptions,
+  WildcardCollapse,
+  WildcardOptions,
+}
+export {CSPPolicy} from './policy'
+export {
+  CSP_DIRECTIVES,
+  SANDBOX_TOKENS,
+  VALID_CSP_DIRECTIVES,
+  validateDirective,
+} from './constants'
+export type {DirectiveGrammar, DirectiveSpec} from './constants'
+export type {DirectiveDiff, PolicyMergeMode} from './policy'
+export {SiteCrawler} from './crawler'
+export type {CrawlResult, CrawledPage} from './crawler'
+export {evaluatePolicy} from './evaluator'
+export type {EvaluationFinding, Severity} from './evaluator'
+export {comparePolicies} from './compare'
+export {buildHeaders} from './headers'
+export {HASH_ALGORITHMS} from './hash'
+export {
+  collapseWildcards,
+  DEFAULT_WILDCARD_EXCLUDE,
+  DEFAULT_WILDCARD_THRESHOLD,
+} from './wildcards'
+export {minimizePolicy, minimizeSources} from './minimize'
+export {
+  fitHeaderBudget,
+  hashesToNonce,
+  HeaderBudgetError,
+  headerBytes,
+  largestDirectives,
+} from './budget'
+export type {
+  DirectiveSize,
+  HeaderBudgetOptions,
+  HeaderBudgetResult,
+} from './budget'
+export type {MinimizeOptions, MinimizeResult} from './minimize'
+export {
+  covers,
+  parseHostSource,
+  policyAllows,
+  sourceListMatches,
+  sourceListCovers,
+  sourceMatches,
+} from './source-matcher'
+export type {HostSource} from './source-matcher'
+export {
+  describeSource,
+  isSharedHost,
+  SOURCE_GRANULARITIES,
+  toSource,
+} from './granularity'
+export {
+  inferSandbox,
+  resolveSandbox,
+  sandboxWarnings,
+  validateSandbox,
+} from './sandbox'
+export type {SandboxElement, SandboxEvidence} from './sandbox'
+export {formatMetaTag, injectMetaTag} from './meta'
+export {ReportCollector, normalizeReports} from './collector'
+export {refinePolicy} from './refine'
+export {
+  bunNonce,
+  expressNonce,
+  fastifyNonce,
+  honoNonce,
+  NoncePolicy,
+} from './middleware'
+export type {NonceMiddlewareOptions} from './middleware'
+export {
+  classifyElement,
+  NonceRewriter,
+  nonceStream,
+  rewriteTags,
+  stampNonces,
+  TagRewriter,
+} from './nonce-rewriter'
+export type {ElementClass, TagStamp} from './nonce-rewriter'
+export type {PolicyProposal, RefineOptions, RefineResult} from './refine'
+export type {
+  CollectedViolation,
+  ViolationReport,
+  ViolationSummary,
+} from './collector'
+export type {CompareOptions, PolicyComparison, SourceDelta} from './compare'
+
+// Scripts and stylesheets downloaded for analysis or integrity stay bounded
+// even when maxBodySize leaves the page itself unlimited
+const DEFAULT_SUBRESOURCE_MAX_BYTES = 5 * 1024 * 1024
 
 /**
  * SecureCSPGenerator:
@@ -49,6 +220,24 @@ export class SecureCSPGenerator {
   private readonly logger: Logger
   private html: string = ''
   private readonly sources = new Map<DirectiveName, Set<string>>()
+  private readonly links = new Set<string>()
+  private readonly visitedStylesheets = new Set<string>()
+  private readonly scriptFindings: ScriptFinding[] = []
+  private readonly trustedTypes: TrustedTypesFinding[] = []
+  private readonly sandboxEvidence: {
+    elements: SandboxElement[]
+    scripts: string[]
+  } = {elements: [], scripts: []}
+  private readonly existingPolicies: ExistingPolicy[] = []
+  private readonly inlineStyles: InlineFinding[] = []
+  // Keyed by directive and source, in discovery order
+  private readonly sourceFindings = new Map<string, SourceFinding>()
+  private readonly wildcards: WildcardCollapse[] = []
+  private readonly minimized: MinimizeChange[] = []
+  private readonly headerBudget: HeaderBudgetStep[] = []
+  private readonly inlineHandlers: InlineFinding[] = []
+  private readonly integrity = new Map<string, string>()
+  private readonly integrityChecked = new Set<string>()
   private detectedInlineScript = false
   private detectedInlineStyle = false
   private detectedEval = false
@@ -70,15 +259,34 @@ export class SecureCSPGenerator {
       allowPrivateOrigins = false,
       allowUnsafeInlineScript = false,
       allowUnsafeInlineStyle = false,
+      hashInlineStyles = false,
+      hashInlineHandlers = false,
+      attributeHashes = 'attr-directive',
+      splitDirectives = false,
       allowUnsafeEval = false,
       presets = {},
+      sourceGranularity,
+      collapseWildcards = false,
+      minimize = false,
+      maxHeaderBytes = 0,
       maxBodySize = 0,
       fetchOptions = {},
       timeoutMs = 8_000,
       logger = console,
       requireTrustedTypes = false,
+      trustedTypes,
+      sandbox,
+      useSandbox = false,
       useNonce = true,
       customNonce = '',
+      followStylesheets = false,
+      maxStylesheetDepth = 3,
+      analyzeScripts = false,
+      integrity = false,
+      hashAlgorithms = ['sha256'],
+      reportOnly = false,
+      reportUri = '',
+      reportGroup = DEFAULT_REPORT_GROUP,
     } = opts
 
     // Generate or use custom nonce
@@ -91,18 +299,57 @@ export class SecureCSPGenerator {
       )
     }
 
+    // Reporting-Endpoints needs an absolute URL
+    if (reportUri) {
+      try {
+        new URL(reportUri)
+      } catch {
+        throw new Error('reportUri must be an absolute URL')
+      }
+    }
+    validateReportGroup(reportGroup)
+    validateSourceGranularity(sourceGranularity)
+    validateWildcardOptions(collapseWildcards)
+    validateMaxHeaderBytes(maxHeaderBytes)
+    if (trustedTypes?.policies) {
+      validateDirective('trusted-types', trustedTypes.policies)
+    }
+    if (!['attr-directive', 'unsafe-hashes'].includes(attributeHashes)) {
+      throw new Error(
+        `Invalid attributeHashes "${attributeHashes}" – use 'attr-directive' or 'unsafe-hashes'`,
+      )
+    }
+
     this.opts = {
       allowHttp,
       allowPrivateOrigins,
       allowUnsafeInlineScript,
       allowUnsafeInlineStyle,
+      hashInlineStyles,
+      hashInlineHandlers,
+      attributeHashes,
+      splitDirectives,
       allowUnsafeEval,
       presets,
+      sourceGranularity,
+      collapseWildcards,
+      minimize,
+      maxHeaderBytes,
       maxBodySize,
       fetchOptions,
       timeoutMs,
       logger,
       requireTrustedTypes,
+      trustedTypes,
+      sandbox: resolveSandbox(sandbox, useSandbox),
+      followStylesheets,
+      maxStylesheetDepth,
+      analyzeScripts,
+      integrity,
+      hashAlgorithms: validateHashAlgorithms(hashAlgorithms),
+      reportOnly,
+      reportUri,
+      reportGroup,
     }
     this.logger = logger
 
@@ -115,6 +362,7 @@ export class SecureCSPGenerator {
       DirectiveName,
       readonly string[],
     ][]) {
+      validateDirective(dir, list)
       this.sources.set(dir, new Set(list))
     }
   }
@@ -134,55 +382,134 @@ export class SecureCSPGenerator {
    * @throws Error if HTTP status not OK, type mismatch, or size exceeded
    */
   private async fetchHtml(): Promise<void> {
-    const {timeoutMs, fetchOptions, maxBodySize} = this.opts
+    const {body, headers} = await this.fetchResource(this.url, 'text/html')
+
+    // Validate Content-Type header if present
+    const cType = headers.get('content-type')
+    if (cType && !/text\/html/i.test(cType)) {
+      this.logger.warn(`Expected HTML but got ${cType}`)
+    }
+
+    // Capture the policies the site already sends
+    const policyHeaders: Array<[string, ExistingPolicy['source']]> = [
+      ['content-security-policy', 'header'],
+      ['content-security-policy-report-only', 'report-only-header'],
+    ]
+    for (const [name, source] of policyHeaders) {
+      const value = headers.get(name)
+      if (!value) continue
+      for (const policy of CSPPolicy.parseHeader(value)) {
+        this.existingPolicies.push({source, policy: policy.toString()})
+      }
+    }
+
+    this.html = body
+  }
+
+  /**
+   * Downloads a text resource, applying the configured timeout, fetch
+   * options and maxBodySize to every request the generator makes.
+   * @param target - Absolute URL to download
+   * @param accept - Value for the Accept request header
+   * @param maxBytes - Size limit, 0 for none (default: maxBodySize)
+   * @throws Error if HTTP status not OK or size exceeded
+   */
+  private async fetchResource(
+    target: URL,
+    accept: string,
+    maxBytes = this.opts.maxBodySize!,
+  ): Promise<{body: string; headers: Headers}> {
+    const {body, headers} = await this.fetchBytes(target, accept, {}, maxBytes)
+    return {body: new TextDecoder().decode(body), headers}
+  }
+
+  /**
+   * Downloads a resource as bytes, with the same limits as fetchResource.
+   * @param extraHeaders - Request headers added to Accept, e.g. Origin
+   * @param maxBytes - Size limit, 0 for none (default: maxBodySize)
+   * @throws Error if HTTP status not OK or size exceeded
+   */
+  private async fetchBytes(
+    target: URL,
+    accept: string,
+    extraHeaders: Record<string, string> = {},
+    maxBytes = this.opts.maxBodySize!,
+  ): Promise<{body: Uint8Array; headers: Headers}> {
+    const {timeoutMs, fetchOptions} = this.opts
     const ac = new AbortController()
     const timer = setTimeout(() => ac.abort(), timeoutMs)
 
-    const response = await fetch(this.url, {
+    const response = await fetch(target, {
       ...fetchOptions,
       signal: ac.signal,
-      headers: {accept: 'text/html', ...(fetchOptions?.headers ?? {})},
+      headers: {accept, ...extraHeaders, ...(fetchOptions?.headers ?? {})},
     }).finally(() => clearTimeout(timer))
 
     if (!response.ok) {
       throw new Error(`HTTP ${response.status} ${response.statusText}`)
     }
 
-    // Validate Content-Type header if present
-    const cType = response.headers.get('content-type')
-    if (cType && !/text\/html/i.test(cType)) {
-      this.logger.warn(`Expected HTML but got ${cType}`)
-    }
-
-    // Enforce content-length if maxBodySize is set
+    // Enforce content-length if a limit is set
     const length = +response.headers.get('content-length')!
-    if (maxBodySize && length > maxBodySize) {
+    if (maxBytes && length > maxBytes) {
+      ac.abort()
       throw new Error('Response too large – aborting')
     }
 
     try {
-      // Get the response text directly
-      this.html = await response.text()
-
-      // Check size after getting text
-      if (maxBodySize && this.html.length > maxBodySize) {
-        ac.abort()
-        throw new Error('Response exceeded maxBodySize')
-      }
+      const body = await this.readBody(response, maxBytes)
+      return {body, headers: response.headers}
     } catch (err) {
       ac.abort()
       throw err
     }
   }
 
+  // Reads a response body, stopping as soon as it grows past maxBytes
+  private async readBody(
+    response: Response,
+    maxBytes: number,
+  ): Promise<Uint8Array> {
+    const reader = response.body?.getReader()
+    if (!reader) return new Uint8Array(await response.arrayBuffer())
+
+    const chunks: Uint8Array[] = []
+    let size = 0
+    for (;;) {
+      const {done, value} = await reader.read()
+      if (done) break
+      size += value.byteLength
+      if (maxBytes && size > maxBytes) {
+        await reader.cancel()
+        throw new Error(`Response exceeded ${maxBytes} bytes`)
+      }
+      chunks.push(value)
+    }
+    const body = new Uint8Array(size)
+    let offset = 0
+    for (const chunk of chunks) {
+      body.set(chunk, offset)
+      offset += chunk.byteLength
+    }
+    return body
+  }
+
+  // Limit for scripts and stylesheets fetched on top of the page
+  private get subresourceMaxBytes(): number {
+    return this.opts.maxBodySize || DEFAULT_SUBRESOURCE_MAX_BYTES
+  }
+
   /**
-   * Resolves a raw URL or token into an origin/token and adds it to the CSP set.
+   * Resolves a raw URL or token into a source (see sourceGranularity) or
+   * token and adds it to the CSP set.
    * @param directive - CSP directive to update (e.g., 'script-src')
    * @param rawSrc - URL, nonce/hash token, or relative path
+   * @param base - URL that relative paths are resolved against (default: url)
    */
   private async resolveAndAdd(
     directive: DirectiveName,
     rawSrc: string,
+    base: URL = this.url,
   ): Promise<void> {
     const token = rawSrc.trim()
 
@@ -194,45 +521,32 @@ export class SecureCSPGenerator {
 
     let absolute: URL
     try {
-      absolute = new URL(token, this.url)
+      absolute = new URL(token, base)
     } catch {
       this.logger.debug(`Invalid URL skipped: ${token}`)
       return
     }
 
-    // Enforce HTTPS
-    if (!this.opts.allowHttp && absolute.protocol !== 'https:') return
-
-    // SSRF mitigation: block private IPs/domains unless allowed
-    if (!this.opts.allowPrivateOrigins) {
-      const host = absolute.hostname
-      if (host === 'localhost' || host.endsWith('.local')) return
-      if (
-        isIP(host)
-          ? this.isPrivateIp(host)
-          : (await dns.lookup(host, {all: true})).some((r) =>
-              this.isPrivateIp(r.address),
-            )
-      ) {
-        return
-      }
-    }
+    if (!(await this.isAllowedUrl(absolute))) return
 
-    this.ensureSet(directive).add(absolute.origin)
+    const granularity = granularityFor(this.opts.sourceGranularity, directive)
+    const source = toSource(absolute, granularity)
+    this.ensureSet(directive).add(source)
+    const key = `${directive} ${source}`
+    if (!this.sourceFindings.has(key)) {
+      this.sourceFindings.set(
+        key,
+        describeSource(directive, source, absolute, granularity),
+      )
+    }
   }
 
   /**
-   * Tests if an IPv4/v6 address is private or loopback.
+   * Applies the HTTPS-only and SSRF rules to a URL before it is added
+   * to the policy or fetched.
    */
-  private isPrivateIp(ip: string): boolean {
-    return (
-      /^10\./.test(ip) ||
-      /^192\.168\./.test(ip) ||
-      /^172\.(1[6-9]|2\d|3[0-1])\./.test(ip) ||
-      /^127\./.test(ip) ||
-      ip === '::1' ||
-      ip.startsWith('fe80:')
-    )
+  private isAllowedUrl(absolute: URL): Promise<boolean> {
+    return isAllowedUrl(absolute, this.opts, this.logger)
   }
 
   /**
@@ -250,13 +564,11 @@ export class SecureCSPGenerator {
    * inline scripts/styles, and computes hashes or origins.
    */
   private async parse(): Promise<void> {
-    const $ = cheerio.load(this.html)
+    const $ = cheerio.load(this.html, {sourceCodeLocationInfo: true})
     $.root()
 
     // External resource attributes
     const selectors: Array<[string, string, DirectiveName]> = [
-      ['script[src]', 'src', 'script-src'],
-      ['link[rel="stylesheet"][href]', 'href', 'style-src'],
       ['img[src]', 'src', 'img-src'],
       ['audio[src]', 'src', 'media-src'],
       ['video[src]', 'src', 'media-src'],
@@ -264,42 +576,164 @@ export class SecureCSPGenerator {
       ['iframe[src]', 'src', 'frame-src'],
     ]
 
+    // Policies delivered in the document itself
+    $('meta[http-equiv]').each((_, el) => {
+      const equiv = $(el).attr('http-equiv')!.trim().toLowerCase()
+      const content = $(el).attr('content')?.trim()
+      if (equiv === 'content-security-policy' && content) {
+        this.existingPolicies.push({source: 'meta', policy: content})
+      }
+    })
+
+    // Source resolution may hit DNS, so collect and await it before returning
+    const pending: Promise<unknown>[] = []
+
     for (const [sel, attr, dir] of selectors) {
       $(sel).each((_, el) => {
         const val = $(el).attr(attr)
-        if (val) this.resolveAndAdd(dir, val)
+        if (val) pending.push(this.resolveAndAdd(dir, val))
+      })
+    }
+
+    // External scripts, stylesheets and module preloads
+    $('script[src], link[href]').each((_, el) => {
+      const kind = classifyElement(el.tagName, el.attribs)
+      if (!kind?.url) return
+      pending.push(this.resolveAndAdd(kind.directive, kind.url))
+      if (this.opts.integrity) {
+        pending.push(this.computeIntegrity(kind.url, kind.directive))
+      }
+    })
+
+    // Optionally download external CSS for fonts, images and @imports
+    if (this.opts.followStylesheets) {
+      $('link[rel="stylesheet"][href]').each((_, el) => {
+        pending.push(this.followStylesheet($(el).attr('href')!, this.url, 1))
+      })
+      $('style').each((_, el) => {
+        for (const ref of extractCssReferences($(el).text()).imports) {
+          pending.push(this.followStylesheet(ref, this.url, 1))
+        }
       })
     }
 
+    // Inline style blocks and attributes, recorded in document order
+    const styles: Array<Omit<InlineFinding, 'hashes'>> = []
+    $('style, [style]').each((_, el) => {
+      const context = {
+        element: this.startTag(el),
+        line: el.sourceCodeLocation?.startLine ?? 0,
+      }
+      const text = $(el).text()
+      if (el.tagName === 'style' && text.trim()) {
+        styles.push({
+          kind: 'style-element',
+          directive: 'style-src-elem',
+          ...context,
+          content: text,
+        })
+      }
+      const attr = $(el).attr('style')
+      if (attr?.trim()) {
+        styles.push({
+          kind: 'style-attribute',
+          directive: 'style-src-attr',
+          ...context,
+          attribute: 'style',
+          content: attr,
+        })
+      }
+    })
+    pending.push(this.addInlineStyles(styles))
+
+    // Event handlers and javascript: URLs, which no nonce can allow
+    const handlers: Array<Omit<InlineFinding, 'hashes'>> = []
+    $('*').each((_, el) => {
+      if (!isTag(el)) return
+      for (const [name, value] of Object.entries(el.attribs)) {
+        const handler = this.scriptAttribute(name, value)
+        if (!handler) continue
+        handlers.push({
+          ...handler,
+          element: this.startTag(el),
+          line: el.sourceCodeLocation?.startLine ?? 0,
+        })
+      }
+    })
+    if (handlers.length) this.detectedInlineScript = true
+    pending.push(this.addInlineHandlers(handlers))
+
     // Inline styles
     $('[style]').each((_, el) => {
       this.detectedInlineStyle = true
-      this.extractCssUrls($(el).attr('style') || '', 'style-src')
+      pending.push(this.extractCssUrls($(el).attr('style') || '', 'style-src'))
     })
     $('style').each((_, styleEl) => {
       this.detectedInlineStyle = true
-      this.extractCssUrls($(styleEl).text() || '', 'style-src')
+      pending.push(this.extractCssUrls($(styleEl).text() || '', 'style-src'))
       // Also extract CSS URLs from the style block for images/fonts
       const styleText = $(styleEl).text() || ''
       // Extract url()s from style block
       let match: RegExpExecArray | null
       const urlRe = /url\(\s*(['"]?)([^)'"\s]+)\1\s*\)/gi
       while ((match = urlRe.exec(styleText))) {
-        this.resolveAndAdd('style-src', match[2]!)
+        pending.push(this.resolveAndAdd('style-src', match[2]!))
         // If the URL is an image, also add to img-src
         if (/\.(png|jpg|jpeg|gif|svg|webp|bmp|ico)$/i.test(match[2]!)) {
-          this.resolveAndAdd('img-src', match[2]!)
+          pending.push(this.resolveAndAdd('img-src', match[2]!))
         }
       }
     })
 
+    // Trusted Types policies and sinks in inline scripts
+    $('script:not([src])').each((_, el) => {
+      if (!isJavaScriptType(el.attribs.type)) return
+      const code = $(el).text()
+      this.sandboxEvidence.scripts.push(code)
+      this.addTrustedTypesCalls(analyzeTrustedTypes(code), this.url.href, true)
+    })
+    if (this.opts.sandbox === 'infer') {
+      this.sandboxEvidence.elements.push(
+        ...$('*')
+          .toArray()
+          .filter(isTag)
+          .map((el) => ({name: el.tagName, attribs: el.attribs})),
+      )
+    }
+
+    // Optionally analyze inline and external scripts for endpoints
+    if (this.opts.analyzeScripts) {
+      $('script').each((_, el) => {
+        if (!isJavaScriptType(el.attribs.type)) return
+        const src = $(el).attr('src')
+        if (src) {
+          pending.push(this.analyzeExternalScript(src))
+        } else {
+          const calls = analyzeScript($(el).text())
+          pending.push(this.addScriptCalls(calls, this.url.href, true))
+        }
+      })
+    }
+
+    // Record outgoing links (without fragments) for crawling
+    $('a[href]').each((_, el) => {
+      try {
+        const link = new URL($(el).attr('href')!, this.url)
+        if (link.protocol !== 'https:' && link.protocol !== 'http:') return
+        link.hash = ''
+        this.links.add(link.href)
+      } catch {
+        // Ignore malformed hrefs
+      }
+    })
+
     // Extract base URI
     let baseUriSet = false
     const baseEl = $('base[href]').get(0)
     if (baseEl) {
       const baseHref = $(baseEl).attr('href')
       if (baseHref) {
-        this.resolveAndAdd('base-uri', baseHref)
+        pending.push(this.resolveAndAdd('base-uri', baseHref))
         baseUriSet = true
       }
     }
@@ -307,22 +741,33 @@ export class SecureCSPGenerator {
       this.ensureSet('base-uri').add("'self'")
     }
 
-    // Inline scripts hashing and nonce/integrity reuse
+    // Inline scripts hashing and nonce/integrity reuse. Browsers hash the
+    // exact element text, so only the emptiness check ignores whitespace.
+    const inlineHashes: Promise<string[]>[] = []
     $('script').each((_, scr) => {
       if ($(scr).attr('src')) return
       this.detectedInlineScript = true
-      const code = ($(scr).text() || '').trim()
-      if (!code) return
+      const code = $(scr).text() || ''
+      if (!code.trim()) return
 
       if ($(scr).attr('nonce')) {
-        this.resolveAndAdd('script-src', `\'nonce-${$(scr).attr('nonce')}\'`)
+        pending.push(
+          this.resolveAndAdd('script-src', `\'nonce-${$(scr).attr('nonce')}\'`),
+        )
       } else if ($(scr).attr('integrity')) {
-        this.resolveAndAdd('script-src', `\'${$(scr).attr('integrity')}\'`)
+        pending.push(
+          this.resolveAndAdd('script-src', `\'${$(scr).attr('integrity')}\'`),
+        )
       } else {
-        const hash = createHash('sha256').update(code).digest('base64')
-        this.resolveAndAdd('script-src', `\'sha256-${hash}\'`)
+        inlineHashes.push(hashSources(code, this.opts.hashAlgorithms!))
       }
     })
+    // Added once all are computed, to keep document order
+    pending.push(
+      Promise.all(inlineHashes).then((lists) => {
+        for (const hash of lists.flat()) this.ensureSet('script-src').add(hash)
+      }),
+    )
 
     // Heuristic eval detection
     if (
@@ -332,6 +777,283 @@ export class SecureCSPGenerator {
     ) {
       this.detectedEval = true
     }
+
+    await Promise.all(pending)
+  }
+
+  /**
+   * Returns an element's start tag as written in the document.
+   */
+  private startTag(el: Element): string {
+    const loc = el.sourceCodeLocation?.startTag
+    return loc
+      ? this.html.slice(loc.startOffset, loc.endOffset)
+      : `<${el.tagName}>`
+  }
+
+  /**
+   * Hashes inline styles for the report and, with hashInlineStyles, adds
+   * the hashes of blocks to style-src and of attributes to style-src-attr
+   * (or style-src, per attributeHashes) along with 'unsafe-hashes'.
+   */
+  private async addInlineStyles(
+    styles: Array<Omit<InlineFinding, 'hashes'>>,
+  ): Promise<void> {
+    const hashed = await this.hashFindings(styles)
+    this.inlineStyles.push(...hashed)
+    if (!this.opts.hashInlineStyles) return
+
+    const attrDirective =
+      this.opts.attributeHashes === 'unsafe-hashes' &&
+      !this.opts.splitDirectives
+        ? 'style-src'
+        : 'style-src-attr'
+    for (const style of hashed) {
+      if (style.kind === 'style-element') {
+        for (const hash of style.hashes) this.ensureSet('style-src').add(hash)
+      } else {
+        const set = this.ensureSet(attrDirective).add("'unsafe-hashes'")
+        for (const hash of style.hashes) set.add(hash)
+      }
+    }
+  }
+
+  /**
+   * Classifies an attribute that runs script: an `on*` event handler, or a
+   * `javascript:` URL in href, src, action or formaction.
+   */
+  private scriptAttribute(
+    name: string,
+    value: string,
+  ): Pick<
+    InlineFinding,
+    'kind' | 'directive' | 'attribute' | 'content'
+  > | null {
+    if (/^on./.test(name)) {
+      if (!value.trim()) return null
+      return {
+        kind: 'event-handler',
+        directive: 'script-src-attr',
+        attribute: name,
+        content: value,
+      }
+    }
+    if (!['href', 'src', 'action', 'formaction'].includes(name)) return null
+    // The URL parser trims and drops tabs and newlines, so `java\tscript:`
+    // runs as well; browsers hash the parsed URL
+    const url = value.replace(/[\t\n\r]/g, '').replace(/^[\0- ]+|[\0- ]+$/g, '')
+    if (!/^javascript:/i.test(url)) return null
+    return {
+      kind: 'javascript-url',
+      directive: 'script-src-elem',
+      attribute: name,
+      content: `javascript:${url.slice('javascript:'.length)}`,
+    }
+  }
+
+  /**
+   * Hashes event handlers and javascript: URLs for the report and, with
+   * hashInlineHandlers, adds them with 'unsafe-hashes': handlers to
+   * script-src-attr (or script-src, per attributeHashes), URLs to
+   * script-src, as navigations are checked against script-src-elem.
+   */
+  private async addInlineHandlers(
+    handlers: Array<Omit<InlineFinding, 'hashes'>>,
+  ): Promise<void> {
+    const hashed = await this.hashFindings(handlers)
+    this.inlineHandlers.push(...hashed)
+    if (!this.opts.hashInlineHandlers) return
+
+    const attrDirective =
+      this.opts.attributeHashes === 'unsafe-hashes' &&
+      !this.opts.splitDirectives
+        ? 'script-src'
+        : 'script-src-attr'
+    for (const handler of hashed) {
+      const set = this.ensureSet(
+        handler.kind === 'event-handler' ? attrDirective : 'script-src',
+      ).add("'unsafe-hashes'")
+      for (const hash of handler.hashes) set.add(hash)
+    }
+  }
+
+  private hashFindings(
+    findings: Array<Omit<InlineFinding, 'hashes'>>,
+  ): Promise<InlineFinding[]> {
+    return Promise.all(
+      findings.map(async (finding) => ({
+        ...finding,
+        hashes: await hashSources(finding.content, this.opts.hashAlgorithms!),
+      })),
+    )
+  }
+
+  /**
+   * Downloads a stylesheet and adds its fonts, images and @imports,
+   * recursing into imports up to maxStylesheetDepth.
+   * @param href - Stylesheet URL as written in the referencing document
+   * @param base - URL of the referencing document or stylesheet
+   * @param depth - Nesting level of this stylesheet (1 = linked from HTML)
+   */
+  private async followStylesheet(
+    href: string,
+    base: URL,
+    depth: number,
+  ): Promise<void> {
+    let target: URL
+    try {
+      target = new URL(href.trim(), base)
+    } catch {
+      this.logger.debug(`Invalid URL skipped: ${href}`)
+      return
+    }
+    target.hash = ''
+    if (depth > this.opts.maxStylesheetDepth!) return
+    if (this.visitedStylesheets.has(target.href)) return
+    this.visitedStylesheets.add(target.href)
+    if (!(await this.isAllowedUrl(target))) return
+
+    let css: string
+    try {
+      css = (
+        await this.fetchResource(target, 'text/css', this.subresourceMaxBytes)
+      ).body
+    } catch (err: any) {
+      this.logger.warn(`Stylesheet ${target.href} skipped: ${err.message}`)
+      return
+    }
+
+    // References inside a stylesheet are relative to the stylesheet itself
+    const {imports, fonts, images} = extractCssReferences(css)
+    await Promise.all([
+      ...fonts.map((ref) => this.resolveAndAdd('font-src', ref, target)),
+      ...images.map((ref) => this.resolveAndAdd('img-src', ref, target)),
+      ...imports.flatMap((ref) => [
+        this.resolveAndAdd('style-src', ref, target),
+        this.followStylesheet(ref, target, depth + 1),
+      ]),
+    ])
+  }
+
+  /**
+   * Downloads an external script and adds the endpoints it references.
+   * @param src - Script URL as written in the page
+   */
+  private async analyzeExternalScript(src: string): Promise<void> {
+    let target: URL
+    try {
+      target = new URL(src.trim(), this.url)
+    } catch {
+      this.logger.debug(`Invalid URL skipped: ${src}`)
+      return
+    }
+    if (!(await this.isAllowedUrl(target))) return
+
+    let code: string
+    try {
+      code = (await this.fetchResource(target, '*/*', this.subresourceMaxBytes))
+        .body
+    } catch (err: any) {
+      this.logger.warn(`Script ${target.href} skipped: ${err.message}`)
+      return
+    }
+    await this.addScriptCalls(analyzeScript(code), target.href, false)
+    this.addTrustedTypesCalls(analyzeTrustedTypes(code), target.href, false)
+    this.sandboxEvidence.scripts.push(code)
+  }
+
+  /**
+   * Downloads an external script or stylesheet and records its sha384
+   * Subresource Integrity value. Third-party resources are requested with
+   * an Origin header and skipped unless the response allows CORS.
+   * @param src - Resource URL as written in the page
+   */
+  private async computeIntegrity(
+    src: string,
+    directive: 'script-src' | 'style-src',
+  ): Promise<void> {
+    let target: URL
+    try {
+      target = new URL(src.trim(), this.url)
+    } catch {
+      this.logger.debug(`Invalid URL skipped: ${src}`)
+      return
+    }
+    if (this.integrityChecked.has(target.href)) return
+    this.integrityChecked.add(target.href)
+    if (!(await this.isAllowedUrl(target))) return
+
+    const crossOrigin = target.origin !== this.url.origin
+    let body: Uint8Array
+    let headers: Headers
+    try {
+      ;({body, headers} = await this.fetchBytes(
+        target,
+        directive === 'style-src' ? 'text/css' : '*/*',
+        crossOrigin ? {origin: this.url.origin} : {},
+        this.subresourceMaxBytes,
+      ))
+    } catch (err: any) {
+      this.logger.warn(`Integrity for ${target.href} skipped: ${err.message}`)
+      return
+    }
+
+    const allowOrigin = headers.get('access-control-allow-origin')?.trim()
+    if (crossOrigin && allowOrigin !== '*' && allowOrigin !== this.url.origin) {
+      this.logger.warn(
+        `Integrity for ${target.href} skipped: served without CORS headers, so SRI would block it`,
+      )
+      return
+    }
+
+    this.integrity.set(
+      target.href,
+      `sha384-${await digestBase64(body, 'sha384')}`,
+    )
+  }
+
+  /**
+   * Records script analysis findings and adds their endpoints. URLs are
+   * resolved against the page, as the browser does for fetch and workers,
+   * except import() specifiers, which resolve against the importing script.
+   */
+  private async addScriptCalls(
+    calls: ScriptCall[],
+    script: string,
+    inline: boolean,
+  ): Promise<void> {
+    await Promise.all(
+      calls.map((call) => {
+        this.scriptFindings.push({...call, script, inline})
+        this.logger.debug(
+          `${call.api}: ${call.url} -> ${call.directive} (${script}:${call.line}:${call.column})`,
+        )
+        const base = call.api === 'import()' ? new URL(script) : this.url
+        return this.resolveAndAdd(call.directive, call.url, base)
+      }),
+    )
+  }
+
+  /**
+   * Records Trusted Types findings. Policy names the trusted-types grammar
+   * cannot express are reported but left out of the directive.
+   */
+  private addTrustedTypesCalls(
+    calls: TrustedTypesCall[],
+    script: string,
+    inline: boolean,
+  ): void {
+    for (const call of calls) {
+      this.trustedTypes.push({...call, script, inline})
+      if (call.kind !== 'policy') continue
+      try {
+        validateDirective('trusted-types', [call.name])
+      } catch {
+        this.logger.warn(
+          `Trusted Types policy "${call.name}" (${script}:${call.line}) cannot be listed in trusted-types`,
+        )
+      }
+    }
   }
 
   private cssUrlRe = /url\(\s*(['"]?)([^\)'"]+)\1\s*\)/gi
@@ -341,13 +1063,136 @@ export class SecureCSPGenerator {
    * Extracts CSS resource URLs from inline CSS text and adds them.
    */
   private async extractCssUrls(css: string, dir: DirectiveName): Promise<void> {
+    // Drain both regexes synchronously; they are shared and stateful
+    const pending: Promise<void>[] = []
     let match: RegExpExecArray | null
     while ((match = this.cssUrlRe.exec(css))) {
-      await this.resolveAndAdd(dir, match[2]!)
+      pending.push(this.resolveAndAdd(dir, match[2]!))
     }
     while ((match = this.cssImportRe.exec(css))) {
-      await this.resolveAndAdd(dir, match[1]!)
+      pending.push(this.resolveAndAdd(dir, match[1]!))
     }
+    await Promise.all(pending)
+  }
+
+  /**
+   * Returns a copy of the directive sources collected so far.
+   */
+  public getSources(): Map<DirectiveName, Set<string>> {
+    return new Map(
+      Array.from(this.sources, ([dir, vals]) => [dir, new Set(vals)]),
+    )
+  }
+
+  /**
+   * Returns the generated policy as a structured {@link CSPPolicy}.
+   * Call after generate(); its toString() equals the returned header.
+   */
+  public getPolicy(): CSPPolicy {
+    return new CSPPolicy(this.sources)
+  }
+
+  /**
+   * Returns the response headers that deliver the generated policy:
+   * Content-Security-Policy (or -Report-Only), plus Reporting-Endpoints
+   * and Report-To when reportUri is set. Call after generate().
+   */
+  public getHeaders(): Record<string, string> {
+    return buildHeaders(this.getPolicy().toString(), this.opts)
+  }
+
+  /**
+   * Returns the generated policy as a `<meta http-equiv>` element, without
+   * the directives meta policies ignore (a warning is logged for each).
+   * Call after generate().
+   */
+  public getMetaTag(): string {
+    return formatMetaTag(this.getPolicy(), {
+      logger: this.logger,
+      reportOnly: this.opts.reportOnly,
+    })
+  }
+
+  /**
+   * Returns the analyzed document with {@link getMetaTag} inserted at the
+   * start of `<head>`, replacing any existing CSP meta tag.
+   */
+  public injectMetaTag(): string {
+    return injectMetaTag(this.html, this.getMetaTag())
+  }
+
+  /**
+   * Returns the nonce added to script-src, or '' when useNonce is false.
+   */
+  public getNonce(): string {
+    return this.nonce
+  }
+
+  /**
+   * Returns the analyzed document with the generator's nonce stamped onto
+   * every script and style element. script-src always carries the nonce;
+   * style-src does when the page has inline `<style>` elements, unless it
+   * allows 'unsafe-inline'. The document is returned unchanged when
+   * useNonce is false.
+   */
+  public stampNonces(): string {
+    return this.nonce ? stampNonces(this.html, this.nonce) : this.html
+  }
+
+  /**
+   * Returns the Subresource Integrity values computed when the integrity
+   * option is set, keyed by absolute resource URL.
+   */
+  public getIntegrityManifest(): Record<string, string> {
+    return Object.fromEntries(this.integrity)
+  }
+
+  /**
+   * Returns the analyzed document with integrity (and, unless present,
+   * crossorigin="anonymous") added to each external script, stylesheet and
+   * module preload in the manifest. Elements that already declare integrity
+   * are left unchanged.
+   */
+  public injectIntegrity(): string {
+    return rewriteTags(this.html, (name, attribs) => {
+      const url = classifyElement(name, attribs)?.url
+      if (!url || attribs.integrity !== undefined) return undefined
+      let href: string
+      try {
+        href = new URL(url.trim(), this.url).href
+      } catch {
+        return undefined
+      }
+      const integrity = this.integrity.get(href)
+      if (!integrity) return undefined
+      const attrs: Record<string, string> = {integrity}
+      if (attribs.crossorigin === undefined) attrs.crossorigin = 'anonymous'
+      return attrs
+    })
+  }
+
+  /**
+   * Returns details gathered during the last analysis.
+   */
+  public getReport(): GeneratorReport {
+    return {
+      scriptFindings: [...this.scriptFindings],
+      trustedTypes: [...this.trustedTypes],
+      inlineStyles: [...this.inlineStyles],
+      inlineHandlers: [...this.inlineHandlers],
+      existingPolicies: [...this.existingPolicies],
+      sources: Array.from(this.sourceFindings.values()),
+      wildcards: [...this.wildcards],
+      minimized: [...this.minimized],
+      headerBudget: [...this.headerBudget],
+    }
+  }
+
+  /**
+   * Returns the absolute http(s) URLs of all `<a href>` links found by parse().
+   */
+  public getLinks(): string[] {
+    return Array.from(this.links)
   }
 
   /**
@@ -356,6 +1201,39 @@ export class SecureCSPGenerator {
    */
   public async generate(): Promise<string> {
     await this.fetchHtml()
+    return this.build()
+  }
+
+  /**
+   * Runs the parse pipeline against supplied markup instead of fetching
+   * `url`, which is then only used to resolve relative references.
+   * @param html - The HTML document to analyze
+   * @returns A fully-formed CSP header string.
+   */
+  public async generateFromHtml(html: string): Promise<string> {
+    this.html = html
+    return this.build()
+  }
+
+  /**
+   * Convenience wrapper around {@link generateFromHtml} for one-off use.
+   * @param html - The HTML document to analyze
+   * @param baseUrl - URL the document is (or will be) served from
+   * @param opts - Configuration options to control the policy
+   * @returns A fully-formed CSP header string.
+   */
+  static fromHtml(
+    html: string,
+    baseUrl: string,
+    opts: SecureCSPGeneratorOptions = {},
+  ): Promise<string> {
+    return new SecureCSPGenerator(baseUrl, opts).generateFromHtml(html)
+  }
+
+  /**
+   * Parses the current HTML and constructs the final CSP header.
+   */
+  private async build(): Promise<string> {
     await this.parse()
 
     // Add nonce to script-src if enabled
@@ -377,6 +1255,25 @@ export class SecureCSPGenerator {
     if (this.detectedInlineStyle && this.opts.allowUnsafeInlineStyle) {
       this.ensureSet('style-src').add("'unsafe-inline'")
     }
+
+    // stampNonces() marks <style> elements too, so style-src accepts the
+    // nonce, unless it relies on 'unsafe-inline', which a nonce would
+    // switch off
+    if (
+      this.nonce &&
+      this.inlineStyles.some((f) => f.kind === 'style-element')
+    ) {
+      const base =
+        this.sources.get('style-src') ?? this.sources.get('default-src')
+      if (!allowsUnsafeInline(Array.from(base ?? []))) {
+        for (const dir of ['style-src', 'style-src-elem'] as const) {
+          if (dir === 'style-src-elem' && !this.sources.has(dir)) continue
+          const sources = this.sources.get(dir) ?? new Set(base)
+          sources.delete("'none'")
+          this.sources.set(dir, sources.add(`'nonce-${this.nonce}'`))
+        }
+      }
+    }
     if (this.opts.allowUnsafeEval) {
       this.ensureSet('script-src').add("'unsafe-eval'")
     } else if (this.detectedEval) {
@@ -385,9 +1282,49 @@ export class SecureCSPGenerator {
       )
     }
 
-    // Add Trusted Types directive if enabled
+    // Add Trusted Types directives if enabled
     if (this.opts.requireTrustedTypes) {
       this.sources.set('require-trusted-types-for', new Set(["'script'"]))
+      const sinks = this.trustedTypes.filter((f) => f.kind === 'sink')
+      if (sinks.length) {
+        this.logger.warn(
+          `${sinks.length} DOM XSS sink(s) will throw under Trusted Types unless a policy handles them; see getReport().trustedTypes`,
+        )
+      }
+    }
+    if (this.opts.requireTrustedTypes || this.opts.trustedTypes) {
+      const {
+        policies = [],
+        defaultPolicy = false,
+        allowDuplicates = false,
+      } = this.opts.trustedTypes ?? {}
+      const names = new Set<string>()
+      for (const finding of this.trustedTypes) {
+        if (finding.kind === 'policy') names.add(finding.name)
+      }
+      for (const name of policies) names.add(name)
+      if (defaultPolicy) names.add('default')
+      for (const name of names) {
+        try {
+          validateDirective('trusted-types', [name])
+        } catch {
+          names.delete(name)
+        }
+      }
+      if (names.size) {
+        if (allowDuplicates) names.add("'allow-duplicates'")
+        this.sources.set('trusted-types', names)
+      }
+    }
+
+    // Sandbox the page with the configured or inferred tokens
+    if (this.opts.sandbox) {
+      const tokens =
+        this.opts.sandbox === 'infer'
+          ? inferSandbox(this.sandboxEvidence)
+          : this.opts.sandbox
+      for (const warning of sandboxWarnings(tokens)) this.logger.warn(warning)
+      this.sources.set('sandbox', new Set(tokens))
     }
 
     // Enforce mixed-content safety directives
@@ -400,6 +1337,20 @@ export class SecureCSPGenerator {
       }
     }
 
+    // Point violation reports at the configured endpoint
+    if (this.opts.reportUri) {
+      this.sources.set('report-uri', new Set([this.opts.reportUri]))
+      this.sources.set('report-to', new Set([this.opts.reportGroup!]))
+    }
+
+    // Replace many sibling subdomains with wildcards
+    const {collapseWildcards: collapse} = this.opts
+    if (collapse) {
+      this.wildcards.push(
+        ...collapseWildcards(this.sources, collapse === true ? {} : collapse),
+      )
+    }
+
     // Ensure default-src fallback exists
     if (
       !this.sources.get('default-src') ||
@@ -408,16 +1359,60 @@ export class SecureCSPGenerator {
       this.sources.set('default-src', new Set(["'none'"]))
     }
 
-    // Build header
-    const parts: string[] = []
-    for (const [dir, vals] of this.sources) {
-      if (!vals.size) {
-        parts.push(dir)
-      } else {
-        parts.push(`${dir} ${Array.from(vals).join(' ')}`)
+    // Drop what other sources and fallbacks already allow
+    if (this.opts.minimize) this.minimize()
+
+    // Emit the CSP3 split directives explicitly
+    if (this.opts.splitDirectives) {
+      for (const dir of ['script-src', 'style-src'] as const) {
+        const sources =
+          this.sources.get(dir) ?? this.sources.get('default-src')!
+        if (!this.sources.has(`${dir}-elem`)) {
+          this.sources.set(`${dir}-elem`, new Set(sources))
+        }
+        if (!this.sources.has(`${dir}-attr`)) {
+          const inline = allowsUnsafeInline(Array.from(sources))
+          this.sources.set(
+            `${dir}-attr`,
+            new Set([inline ? "'unsafe-inline'" : "'none'"]),
+          )
+        }
       }
     }
 
-    return parts.join('; ')
+    // Build header, shrunk to the size budget if one is set
+    return this.fitHeaderBudget()
+  }
+
+  /**
+   * Replaces the sources with their minimized form.
+   */
+  private minimize(): void {
+    this.minimized.push(...minimizeSources(this.sources, {self: this.url}))
+  }
+
+  /**
+   * Serializes the policy, shrinking it step by step while it exceeds
+   * maxHeaderBytes.
+   * @throws HeaderBudgetError if the last step still leaves it too large
+   */
+  private fitHeaderBudget(): string {
+    const {collapseWildcards: collapse} = this.opts
+    const nonce = this.nonce || this.generateNonce()
+    const result = fitHeaderBudget(this.sources, this.opts.maxHeaderBytes!, {
+      self: this.url,
+      nonce,
+      collapseWildcards: typeof collapse === 'object' ? collapse : {},
+    })
+    this.minimized.push(...result.minimized)
+    this.wildcards.push(...result.wildcards)
+    this.headerBudget.push(...result.steps)
+    if (result.usedNonce) {
+      this.nonce = nonce
+      this.logger.warn(
+        'Inline hashes were replaced by a nonce to fit maxHeaderBytes; serve the page through stampNonces() or the nonce middleware',
+      )
+    }
+    return result.policy
   }
 }
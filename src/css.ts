@@ -0,0 +1,44 @@
+/**
+ * @file css.ts
+ * @description Helpers for extracting resource references from CSS text
+ */
+
+/**
+ * Resource references found in a stylesheet, grouped by the directive
+ * that governs them. URLs are returned as written (possibly relative).
+ */
+export interface CssReferences {
+  /** Targets of `@import` rules (style-src). */
+  imports: string[]
+  /** `url()`s inside `@font-face` rules (font-src). */
+  fonts: string[]
+  /** All other `url()`s: backgrounds, cursors, list markers, ... (img-src). */
+  images: string[]
+}
+
+const commentRe = /\/\*[\s\S]*?\*\//g
+const importRe =
+  /@import\s+(?:url\(\s*(['"]?)([^'")\s]+)\1\s*\)|(['"])([^'"]+)\3)[^;]*;?/gi
+const fontFaceRe = /@font-face\s*\{[^}]*\}/gi
+const urlRe = /url\(\s*(['"]?)([^'")]+)\1\s*\)/gi
+
+/**
+ * Extracts `@import` targets, font URLs and image URLs from CSS text.
+ */
+export function extractCssReferences(css: string): CssReferences {
+  const refs: CssReferences = {imports: [], fonts: [], images: []}
+  let rest = css.replace(commentRe, '')
+
+  // Remove matched rules from `rest` so their URLs are not counted twice
+  rest = rest.replace(importRe, (_, _q1, urlTarget, _q2, stringTarget) => {
+    refs.imports.push((urlTarget ?? stringTarget).trim())
+    return ''
+  })
+  rest = rest.replace(fontFaceRe, (block: string) => {
+    for (const match of block.matchAll(urlRe)) refs.fonts.push(match[2]!.trim())
+    return ''
+  })
+  for (const match of rest.matchAll(urlRe)) refs.images.push(match[2]!.trim())
+
+  return refs
+}
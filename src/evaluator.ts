@@ -0,0 +1,348 @@
+/**
+ * @file evaluator.ts
+ * @description
+ *   Flags weak or bypassable Content-Security-Policy configurations:
+ *   unsafe keywords, wildcard and scheme-only sources, missing
+ *   object-src/base-uri, misused 'strict-dynamic', weak nonces,
+ *   hosts known to serve arbitrary scripts, and deprecated directives.
+ *
+ * @example
+ * import { evaluatePolicy } from './evaluator';
+ *
+ * for (const finding of evaluatePolicy("script-src 'unsafe-inline' https:")) {
+ *   console.log(finding.severity, finding.message);
+ * }
+ */
+
+import {directiveChain} from './constants'
+import {CSPPolicy} from './policy'
+import type {DirectiveName} from './types'
+
+/**
+ * Severity levels, from least to most severe.
+ */
+export const SEVERITIES = ['info', 'low', 'medium', 'high'] as const
+
+export type Severity = (typeof SEVERITIES)[number]
+
+/**
+ * A single weakness found in a policy.
+ */
+export interface EvaluationFinding {
+  /** Stable identifier of the check, e.g. 'script-unsafe-inline'. */
+  id: string
+  severity: Severity
+  /** The directive the finding is about, if any. */
+  directive?: DirectiveName
+  /** The offending source expression, if any. */
+  value?: string
+  message: string
+}
+
+/**
+ * Tests whether `severity` is at least as severe as `threshold`.
+ */
+export function isAtLeast(severity: Severity, threshold: Severity): boolean {
+  return SEVERITIES.indexOf(severity) >= SEVERITIES.indexOf(threshold)
+}
+
+// Directives that are deprecated or were never standardized
+const DEPRECATED_DIRECTIVES: Record<string, string> = {
+  'block-all-mixed-content':
+    'is deprecated; upgrade-insecure-requests and browser mixed-content blocking cover it',
+  'plugin-types': 'was removed from CSP3 and is ignored',
+  'prefetch-src': 'was removed from CSP3 and is ignored',
+  referrer: 'was removed; use the Referrer-Policy header',
+  'reflected-xss': 'was removed and is ignored',
+  'disown-opener': 'was never shipped and is ignored',
+  'report-uri':
+    'is deprecated in favour of report-to; keep it only for older browsers',
+}
+
+// Hosts that serve JSONP endpoints or arbitrary user-published scripts,
+// so allowing them in script-src lets an attacker run code of their choice
+const SCRIPT_BYPASS_HOSTS = [
+  'cdn.jsdelivr.net',
+  'unpkg.com',
+  'cdnjs.cloudflare.com',
+  'raw.githubusercontent.com',
+  'ajax.googleapis.com',
+  'www.google.com',
+  'accounts.google.com',
+  'www.gstatic.com',
+  'storage.googleapis.com',
+  'esm.sh',
+  'cdn.skypack.dev',
+  'gist.githubusercontent.com',
+]
+
+const SCRIPT_DIRECTIVES: DirectiveName[] = [
+  'script-src',
+  'script-src-elem',
+  'script-src-attr',
+]
+const STYLE_DIRECTIVES: DirectiveName[] = [
+  'style-src',
+  'style-src-elem',
+  'style-src-attr',
+]
+
+const SCHEME_ONLY = /^[a-z][a-z0-9+.-]*:$/i
+const NONCE_OR_HASH = /^'(?:nonce-|sha(?:256|384|512)-)/i
+
+/**
+ * Evaluates a policy and returns its findings, most severe first.
+ * @param input - A CSPPolicy or a serialized policy string
+ */
+export function evaluatePolicy(input: CSPPolicy | string): EvaluationFinding[] {
+  const policy = typeof input === 'string' ? CSPPolicy.parse(input) : input
+  const findings: EvaluationFinding[] = []
+  const add = (finding: EvaluationFinding) => findings.push(finding)
+
+  const lower = (values: string[] | undefined) =>
+    (values ?? []).map((v) => v.toLowerCase())
+  // The directive whose values apply to `directive`: itself or the first
+  // fallback the policy sets, e.g. script-src-attr -> script-src
+  const governing = (directive: DirectiveName) =>
+    directiveChain(directive).find((dir) => policy.has(dir))
+
+  // script-src and its -elem/-attr split, each judged by the directive
+  // that governs it, e.g. script-src-elem 'unsafe-inline' on its own
+  const scriptDirs = new Set<DirectiveName>()
+  for (const directive of SCRIPT_DIRECTIVES) {
+    const dir = governing(directive)
+    if (dir) scriptDirs.add(dir)
+  }
+  const ungoverned = SCRIPT_DIRECTIVES.filter((dir) => !governing(dir))
+  if (ungoverned.length === SCRIPT_DIRECTIVES.length) {
+    add({
+      id: 'script-src-missing',
+      severity: 'high',
+      message:
+        'Neither script-src nor default-src is set, so scripts from any origin can run.',
+    })
+  } else if (ungoverned.includes('script-src-attr')) {
+    add({
+      id: 'script-src-missing',
+      severity: 'high',
+      message:
+        'Neither script-src-attr, script-src nor default-src is set, so injected inline event handlers can run.',
+    })
+  } else if (ungoverned.includes('script-src-elem')) {
+    add({
+      id: 'script-src-missing',
+      severity: 'high',
+      message:
+        'Neither script-src-elem, script-src nor default-src is set, so script elements from any origin can run.',
+    })
+  }
+  for (const dir of scriptDirs) {
+    const script = policy.get(dir)!
+    const values = lower(script)
+    const hasNonceOrHash = values.some((v) => NONCE_OR_HASH.test(v))
+    const strictDynamic = values.includes("'strict-dynamic'")
+
+    if (values.includes("'unsafe-inline'")) {
+      add(
+        hasNonceOrHash
+          ? {
+              id: 'script-unsafe-inline-fallback',
+              severity: 'info',
+              directive: dir,
+              value: "'unsafe-inline'",
+              message:
+                "'unsafe-inline' is ignored by browsers that support nonces/hashes and only serves as a fallback for old browsers.",
+            }
+          : {
+              id: 'script-unsafe-inline',
+              severity: 'high',
+              directive: dir,
+              value: "'unsafe-inline'",
+              message:
+                "'unsafe-inline' without a nonce or hash allows injected inline scripts and event handlers to run.",
+            },
+      )
+    }
+    if (values.includes("'unsafe-eval'")) {
+      add({
+        id: 'script-unsafe-eval',
+        severity: 'medium',
+        directive: dir,
+        value: "'unsafe-eval'",
+        message:
+          "'unsafe-eval' allows eval(), new Function() and string timers, which turn injected strings into code.",
+      })
+    }
+    if (values.includes("'unsafe-hashes'")) {
+      add({
+        id: 'script-unsafe-hashes',
+        severity: 'low',
+        directive: dir,
+        value: "'unsafe-hashes'",
+        message:
+          "'unsafe-hashes' lets the hashed event handlers be reused by injected markup.",
+      })
+    }
+    if (strictDynamic && !hasNonceOrHash) {
+      add({
+        id: 'strict-dynamic-without-nonce',
+        severity: 'medium',
+        directive: dir,
+        value: "'strict-dynamic'",
+        message:
+          "'strict-dynamic' without a nonce or hash blocks every script, because host allowlists are ignored.",
+      })
+    }
+
+    // Host and scheme sources are ignored under 'strict-dynamic'
+    if (!strictDynamic) {
+      for (const value of values) {
+        if (value === '*' || SCHEME_ONLY.test(value)) {
+          add({
+            id: 'script-wildcard',
+            severity: 'high',
+            directive: dir,
+            value,
+            message: `'${value}' allows scripts from ${
+              value === '*' ? 'any host' : `any ${value} URL`
+            }, which makes the allowlist trivially bypassable.`,
+          })
+        } else if (value.startsWith('http://')) {
+          add({
+            id: 'script-insecure-host',
+            severity: 'medium',
+            directive: dir,
+            value,
+            message: `${value} is loaded over plain HTTP and can be tampered with in transit.`,
+          })
+        } else if (!value.startsWith("'")) {
+          const host = value.replace(/^[a-z]+:\/\//, '').split(/[/:]/)[0]!
+          const bypass = SCRIPT_BYPASS_HOSTS.find(
+            (h) =>
+              h === host ||
+              (host.startsWith('*.') && h.endsWith(host.slice(1))),
+          )
+          if (bypass) {
+            add({
+              id: 'script-bypass-host',
+              severity: 'medium',
+              directive: dir,
+              value,
+              message: `${bypass} hosts JSONP endpoints or arbitrary published scripts that can be used to bypass the policy.`,
+            })
+          }
+        }
+      }
+    }
+
+    for (const value of script) {
+      const nonce = /^'nonce-(.*)'$/i.exec(value)?.[1]
+      if (nonce !== undefined && nonce.length < 16) {
+        add({
+          id: 'weak-nonce',
+          severity: 'medium',
+          directive: dir,
+          value,
+          message:
+            'Nonces should carry at least 128 bits of randomness and be regenerated for every response.',
+        })
+      }
+    }
+  }
+
+  // object-src should be 'none'
+  const objectDir = governing('object-src')
+  const object = lower(policy.effective('object-src'))
+  if (!object.length) {
+    add({
+      id: 'object-src-missing',
+      severity: 'high',
+      message:
+        "object-src is missing and default-src does not restrict it; set object-src 'none' to block plugin content.",
+    })
+  } else if (object.includes('*') || object.some((v) => SCHEME_ONLY.test(v))) {
+    add({
+      id: 'object-src-wildcard',
+      severity: 'high',
+      directive: objectDir,
+      message:
+        "object-src allows plugin content from any host; set object-src 'none'.",
+    })
+  } else if (!(object.length === 1 && object[0] === "'none'")) {
+    add({
+      id: 'object-src-not-none',
+      severity: 'low',
+      directive: objectDir,
+      message: "object-src should be 'none' unless plugins are required.",
+    })
+  }
+
+  // base-uri does not fall back to default-src
+  if (!policy.has('base-uri')) {
+    add({
+      id: 'base-uri-missing',
+      severity: 'medium',
+      message:
+        "base-uri is missing; an injected <base> tag can redirect relative script URLs. Set base-uri 'self' or 'none'.",
+    })
+  }
+
+  // Wildcards in other fetch directives are weak but not code execution
+  for (const [dir, values] of policy.entries()) {
+    if (scriptDirs.has(dir) || dir === 'object-src') continue
+    if (!dir.endsWith('-src')) continue
+    for (const value of lower(values)) {
+      if (value === '*') {
+        add({
+          id: 'wildcard-source',
+          severity: 'low',
+          directive: dir,
+          value,
+          message: `'*' in ${dir} allows loading from any host.`,
+        })
+      }
+    }
+  }
+
+  const styleDirs = new Set<DirectiveName>()
+  for (const directive of STYLE_DIRECTIVES) {
+    const dir = governing(directive)
+    if (dir) styleDirs.add(dir)
+  }
+  for (const dir of styleDirs) {
+    if (lower(policy.get(dir)).includes("'unsafe-inline'")) {
+      add({
+        id: 'style-unsafe-inline',
+        severity: 'low',
+        directive: dir,
+        value: "'unsafe-inline'",
+        message: `'unsafe-inline' in ${dir} allows injected styles, which enable CSS-based data exfiltration.`,
+      })
+    }
+  }
+
+  if (!policy.has('frame-ancestors')) {
+    add({
+      id: 'frame-ancestors-missing',
+      severity: 'info',
+      message:
+        'frame-ancestors is not set, so the page can be framed (clickjacking) unless X-Frame-Options is sent.',
+    })
+  }
+
+  for (const dir of policy.directiveNames) {
+    const reason = DEPRECATED_DIRECTIVES[dir]
+    if (reason) {
+      add({
+        id: 'deprecated-directive',
+        severity: 'info',
+        directive: dir,
+        message: `${dir} ${reason}.`,
+      })
+    }
+  }
+
+  return findings.sort(
+    (a, b) => SEVERITIES.indexOf(b.severity) - SEVERITIES.indexOf(a.severity),
+  )
+}
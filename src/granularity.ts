@@ -0,0 +1,154 @@
+/**
+ * @file granularity.ts
+ * @description
+ *   Turns resource URLs into source expressions at the configured
+ *   granularity (scheme, origin, directory path or exact URL), and explains
+ *   what each resulting source allows. Shared-host CDNs get special mention:
+ *   anyone can publish to them, so an origin-wide source admits other
+ *   people's code.
+ */
+
+import {isDirectiveName} from './constants'
+import type {
+  DirectiveName,
+  SecureCSPGeneratorOptions,
+  SourceFinding,
+  SourceGranularity,
+} from './types'
+
+/** The supported granularities, from broadest to narrowest. */
+export const SOURCE_GRANULARITIES: readonly SourceGranularity[] = [
+  'scheme',
+  'origin',
+  'path',
+  'url',
+]
+
+// Hosts that serve files anyone can publish: package CDNs, GitHub content
+// and public cloud buckets
+const SHARED_HOSTS = new Set([
+  'cdn.jsdelivr.net',
+  'fastly.jsdelivr.net',
+  'unpkg.com',
+  'cdnjs.cloudflare.com',
+  'esm.sh',
+  'cdn.skypack.dev',
+  'ga.jspm.io',
+  'esm.run',
+  'raw.githubusercontent.com',
+  'gist.githubusercontent.com',
+  'cdn.statically.io',
+  'storage.googleapis.com',
+  's3.amazonaws.com',
+])
+
+/**
+ * Whether a host serves files anyone can publish.
+ */
+export function isSharedHost(host: string): boolean {
+  return SHARED_HOSTS.has(host.toLowerCase())
+}
+
+/**
+ * Checks the sourceGranularity option.
+ * @throws Error on an unknown mode or directive name
+ */
+export function validateSourceGranularity(
+  option: SecureCSPGeneratorOptions['sourceGranularity'],
+): void {
+  const entries =
+    option && typeof option === 'object'
+      ? Object.entries(option)
+      : [['', option]]
+  for (const [directive, mode] of entries) {
+    if (directive && !isDirectiveName(directive)) {
+      throw new Error(`Unknown CSP directive "${directive}"`)
+    }
+    if (
+      mode !== undefined &&
+      !SOURCE_GRANULARITIES.includes(mode as SourceGranularity)
+    ) {
+      throw new Error(
+        `Invalid source granularity "${mode}" – use ${SOURCE_GRANULARITIES.join(', ')}`,
+      )
+    }
+  }
+}
+
+/**
+ * The granularity the option selects for a directive.
+ */
+export function granularityFor(
+  option: SecureCSPGeneratorOptions['sourceGranularity'],
+  directive: DirectiveName,
+): SourceGranularity {
+  if (typeof option === 'string') return option
+  return option?.[directive] ?? 'origin'
+}
+
+// ';' and ',' end a source list or a directive, so they stay encoded
+const escapePath = (path: string) =>
+  path.replace(/[;,]/g, (c) => (c === ';' ? '%3B' : '%2C'))
+
+/**
+ * Builds the source expression for a URL. A path of `/` allows the whole
+ * origin either way, so it yields the origin.
+ */
+export function toSource(url: URL, granularity: SourceGranularity): string {
+  switch (granularity) {
+    case 'scheme':
+      return url.protocol
+    case 'origin':
+      return url.origin
+    case 'path': {
+      const dir = url.pathname.slice(0, url.pathname.lastIndexOf('/') + 1)
+      return dir === '/' ? url.origin : url.origin + escapePath(dir)
+    }
+    case 'url':
+      return url.pathname === '/'
+        ? url.origin
+        : url.origin + escapePath(url.pathname)
+  }
+}
+
+/**
+ * Explains what a source allows for the resource that produced it.
+ */
+export function describeSource(
+  directive: DirectiveName,
+  source: string,
+  url: URL,
+  granularity: SourceGranularity,
+): SourceFinding {
+  const sharedHost = isSharedHost(url.hostname)
+  const redirects =
+    'browsers ignore paths once a request is redirected, so an open redirect on the host widens it to the whole origin'
+  let impact: string
+  // A path or URL source at the root is the whole origin
+  switch (source === url.origin ? 'origin' : granularity) {
+    case 'scheme':
+      impact = `Allows ${directive} loads from any ${url.protocol} host, including one an attacker controls`
+      break
+    case 'origin':
+      impact = sharedHost
+        ? `Allows every file on ${url.host}, a shared host anyone can publish to, so an attacker can load their own code from it; prefer path or url granularity`
+        : `Allows every resource on ${url.origin}`
+      break
+    case 'path':
+      impact = sharedHost
+        ? `Allows only files under ${source} on the shared host ${url.host}, keeping other publishers' files out; ${redirects}`
+        : `Allows resources under ${source}; ${redirects}`
+      break
+    case 'url':
+      impact = `Allows only this file, with any query string; ${redirects}`
+      break
+  }
+  return {
+    directive,
+    source,
+    url: url.href,
+    granularity,
+    sharedHost,
+    impact,
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * @file hash.ts
+ * @description
+ *   Hash source expressions for inline content and Subresource Integrity
+ *   values. Uses Web Crypto only, so the Node and browser builds emit
+ *   identical tokens.
+ */
+
+import type {HashAlgorithm} from './types'
+
+/** The algorithms CSP hash sources and SRI support. */
+export const HASH_ALGORITHMS: readonly HashAlgorithm[] = [
+  'sha256',
+  'sha384',
+  'sha512',
+]
+
+const SUBTLE_NAMES: Record<HashAlgorithm, string> = {
+  sha256: 'SHA-256',
+  sha384: 'SHA-384',
+  sha512: 'SHA-512',
+}
+
+/**
+ * Checks and de-duplicates a list of hash algorithms.
+ * @param algorithms - Algorithm names, or a comma-separated string of them
+ * @throws Error if the list is empty or names an unsupported algorithm
+ */
+export function validateHashAlgorithms(
+  algorithms: readonly string[] | string,
+): HashAlgorithm[] {
+  const names =
+    typeof algorithms === 'string'
+      ? algorithms.split(',').map((a) => a.trim().toLowerCase())
+      : algorithms
+  const valid = new Set<HashAlgorithm>()
+  for (const name of names) {
+    if (!HASH_ALGORITHMS.includes(name as HashAlgorithm)) {
+      throw new Error(
+        `Unsupported hash algorithm "${name}" – use ${HASH_ALGORITHMS.join(', ')}`,
+      )
+    }
+    valid.add(name as HashAlgorithm)
+  }
+  if (!valid.size) {
+    throw new Error('At least one hash algorithm is required')
+  }
+  return Array.from(valid)
+}
+
+/**
+ * Returns the base64 digest of content, e.g. for an integrity attribute
+ * (prefixed with `sha384-`).
+ * @param content - Text (hashed as UTF-8) or bytes
+ */
+export async function digestBase64(
+  content: string | Uint8Array,
+  algorithm: HashAlgorithm,
+): Promise<string> {
+  const data =
+    typeof content === 'string' ? new TextEncoder().encode(content) : content
+  const digest = new Uint8Array(
+    await crypto.subtle.digest(SUBTLE_NAMES[algorithm], data),
+  )
+  let binary = ''
+  for (const byte of digest) binary += String.fromCharCode(byte)
+  return btoa(binary)
+}
+
+/**
+ * Returns a `'shaXXX-...'` source expression for each algorithm.
+ * @param content - The exact text of the inline element
+ */
+export function hashSources(
+  content: string,
+  algorithms: readonly HashAlgorithm[],
+): Promise<string[]> {
+  return Promise.all(
+    algorithms.map(
+      async (algorithm) =>
+        `'${algorithm}-${await digestBase64(content, algorithm)}'`,
+    ),
+  )
+}
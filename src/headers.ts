@@ -0,0 +1,140 @@
+/**
+ * @file headers.ts
+ * @description
+ *   Builds the HTTP response headers that deliver a policy: the enforcing
+ *   or report-only CSP header, plus Reporting-Endpoints and the legacy
+ *   Report-To header when a reporting endpoint is configured, and renders
+ *   them as web server configuration snippets.
+ */
+
+import type {SecureCSPGeneratorOptions} from './types'
+
+/** Reporting group used when reportUri is set without reportGroup. */
+export const DEFAULT_REPORT_GROUP = 'csp-endpoint'
+
+// Lifetime of the legacy Report-To endpoint group: 126 days
+const REPORT_TO_MAX_AGE = 10_886_400
+
+/**
+ * The options that affect which headers are emitted.
+ */
+export type HeaderOptions = Pick<
+  SecureCSPGeneratorOptions,
+  'reportOnly' | 'reportUri' | 'reportGroup'
+>
+
+/**
+ * Checks that a reporting group name is a valid Structured Fields key,
+ * as Reporting-Endpoints requires.
+ * @throws Error if the name is invalid
+ */
+export function validateReportGroup(group: string): string {
+  if (!/^[a-z*][a-z0-9_.*-]*$/.test(group)) {
+    throw new Error(
+      `Invalid report group "${group}" – use lowercase letters, digits, "_", "-", "." and "*"`,
+    )
+  }
+  return group
+}
+
+/**
+ * Name of the header carrying the policy.
+ */
+export function policyHeaderName(reportOnly = false): string {
+  return reportOnly
+    ? 'Content-Security-Policy-Report-Only'
+    : 'Content-Security-Policy'
+}
+
+/**
+ * Returns the headers to send for a policy, keyed by header name.
+ * @param policy - The serialized policy
+ * @param opts - Report-only and reporting endpoint options
+ */
+export function buildHeaders(
+  policy: string,
+  opts: HeaderOptions = {},
+): Record<string, string> {
+  const headers: Record<string, string> = {
+    [policyHeaderName(opts.reportOnly)]: policy,
+  }
+  if (opts.reportUri) {
+    const group = validateReportGroup(opts.reportGroup || DEFAULT_REPORT_GROUP)
+    const url = opts.reportUri.replace(/["\\]/g, (c) => `\\${c}`)
+    headers['Reporting-Endpoints'] = `${group}="${url}"`
+    headers['Report-To'] = JSON.stringify({
+      group,
+      max_age: REPORT_TO_MAX_AGE,
+      endpoints: [{url: opts.reportUri}],
+    })
+  }
+  return headers
+}
+
+/**
+ * Web servers that {@link formatServerConfig} can emit snippets for.
+ */
+export type ServerConfigFormat = 'nginx' | 'apache' | 'caddy' | 'haproxy'
+
+export const SERVER_CONFIG_FORMATS: readonly ServerConfigFormat[] = [
+  'nginx',
+  'apache',
+  'caddy',
+  'haproxy',
+]
+
+// Wraps a value in double quotes, escaping the characters each server
+// treats specially inside them. Single quotes and semicolons in policies
+// need no escaping inside double quotes.
+function quote(value: string, format: ServerConfigFormat): string {
+  let escaped = value.replace(/["\\]/g, (c) => `\\${c}`)
+  switch (format) {
+    case 'nginx':
+      // nginx has no escape for "$", so split it out of the variable syntax
+      escaped = escaped.replace(/\$/g, '${dollar}')
+      break
+    case 'apache':
+    case 'haproxy':
+      // Header values are format strings where "%" starts a specifier
+      escaped = escaped.replace(/%/g, '%%')
+      break
+    case 'caddy':
+      // "{...}" is a placeholder
+      escaped = escaped.replace(/[{}]/g, (c) => `\\${c}`)
+      break
+  }
+  return `"${escaped}"`
+}
+
+/**
+ * Renders headers as a snippet for the given web server:
+ *  - nginx: `add_header Name "value" always;`
+ *  - apache: `Header always set Name "value"`
+ *  - caddy: a `header { ... }` block
+ *  - haproxy: `http-response set-header Name "value"`
+ * @param headers - Headers keyed by name, e.g. from {@link buildHeaders}
+ */
+export function formatServerConfig(
+  headers: Record<string, string>,
+  format: ServerConfigFormat,
+): string {
+  const entries = Object.entries(headers)
+  const lines = entries.map(([name, value]) => {
+    const quoted = quote(value, format)
+    switch (format) {
+      case 'nginx':
+        return `add_header ${name} ${quoted} always;`
+      case 'apache':
+        return `Header always set ${name} ${quoted}`
+      case 'caddy':
+        return `\t${name} ${quoted}`
+      case 'haproxy':
+        return `http-response set-header ${name} ${quoted}`
+    }
+  })
+  if (format === 'caddy') return ['header {', ...lines, '}'].join('\n')
+  if (format === 'nginx' && entries.some(([, value]) => value.includes('$'))) {
+    lines.unshift('# Requires: geo $dollar { default "$"; } in the http block')
+  }
+  return lines.join('\n')
+}
@@ -0,0 +1,93 @@
+/**
+ * @file meta.ts
+ * @description
+ *   Delivery of a policy through `<meta http-equiv="Content-Security-Policy">`.
+ *   Browsers ignore some directives in meta policies (frame-ancestors,
+ *   sandbox and the reporting directives, per the directive registry), and
+ *   cannot apply report-only policies from meta at all, so these are
+ *   dropped with a warning.
+ */
+
+import {CSP_DIRECTIVES, VALID_CSP_DIRECTIVES} from './constants'
+import {CSPPolicy} from './policy'
+import type {DirectiveName, Logger} from './types'
+
+/** Directives that have no effect in a `<meta>` policy. */
+export const META_UNSUPPORTED_DIRECTIVES: readonly DirectiveName[] =
+  VALID_CSP_DIRECTIVES.filter((dir) => !CSP_DIRECTIVES[dir].meta)
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '"': '&quot;',
+  '<': '&lt;',
+  '>': '&gt;',
+}
+
+/**
+ * Removes the directives a `<meta>` policy cannot carry, warning about each.
+ */
+export function toMetaPolicy(
+  policy: CSPPolicy | string,
+  logger: Logger = console,
+): CSPPolicy {
+  const meta =
+    typeof policy === 'string' ? CSPPolicy.parse(policy) : policy.clone()
+  for (const dir of META_UNSUPPORTED_DIRECTIVES) {
+    if (meta.delete(dir)) {
+      logger.warn(`Dropped ${dir}: it is ignored in <meta> policies`)
+    }
+  }
+  return meta
+}
+
+/**
+ * Renders a policy as an HTML-escaped `<meta http-equiv>` element.
+ * @param opts.reportOnly - Report-only policies cannot be delivered in
+ *   `<meta>`; the tag is still rendered, with a warning that it enforces
+ */
+export function formatMetaTag(
+  policy: CSPPolicy | string,
+  opts: {logger?: Logger; reportOnly?: boolean} = {},
+): string {
+  const {logger = console, reportOnly = false} = opts
+  if (reportOnly) {
+    logger.warn(
+      'Report-only policies cannot be delivered in <meta>; the tag will enforce the policy',
+    )
+  }
+  const content = toMetaPolicy(policy, logger)
+    .toString()
+    .replace(/[&"<>]/g, (c) => HTML_ESCAPES[c]!)
+  return `<meta http-equiv="Content-Security-Policy" content="${content}">`
+}
+
+const headRe = /<head\b[^>]*>/i
+const htmlRe = /<html\b[^>]*>/i
+const doctypeRe = /^\s*<!doctype\b[^>]*>/i
+const charsetRe =
+  /^\s*<meta\b[^>]*(?:\bcharset\s*=|http-equiv\s*=\s*["']?content-type)[^>]*>/i
+const existingMetaRe =
+  /<meta\b[^>]*http-equiv\s*=\s*["']?content-security-policy(?=["'\s>])[^>]*>\s*/gi
+
+/**
+ * Inserts a meta tag at the start of `<head>` (after a leading charset
+ * declaration, which must stay first), so the policy covers every element
+ * after it. Existing CSP meta tags are replaced. Documents without a
+ * `<head>` get one.
+ */
+export function injectMetaTag(html: string, tag: string): string {
+  const doc = html.replace(existingMetaRe, '')
+
+  const head = headRe.exec(doc)
+  if (head) {
+    let at = head.index + head[0].length
+    const charset = charsetRe.exec(doc.slice(at))
+    if (charset) at += charset[0].length
+    return `${doc.slice(0, at)}${tag}${doc.slice(at)}`
+  }
+
+  // The doctype must stay first, or the page drops to quirks mode
+  const root = htmlRe.exec(doc) ?? doctypeRe.exec(doc)
+  const at = root ? root.index + root[0].length : 0
+  return `${doc.slice(0, at)}<head>${tag}</head>${doc.slice(at)}`
+}
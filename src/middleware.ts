@@ -0,0 +1,223 @@
+/**
+ * @file middleware.ts
+ * @description
+ *   Per-request nonce delivery for servers. A generated policy is turned
+ *   into a template once, with every `'nonce-...'` source replaced by a
+ *   placeholder; each request then gets a fresh nonce substituted into the
+ *   cached template and the resulting headers set on the response.
+ *
+ *   Adapters are provided for Express, Fastify, Hono and `Bun.serve`. They
+ *   are typed structurally, so none of the frameworks is a dependency.
+ *
+ * @example
+ * import express from 'express'
+ * import {expressNonce} from 'csp-policy-gen/middleware'
+ *
+ * const app = express()
+ * app.use(expressNonce(await generator.generate()))
+ * app.get('/', (req, res) => {
+ *   res.send(`<script nonce="${res.locals.cspNonce}">…</script>`)
+ * })
+ */
+
+import {buildHeaders, policyHeaderName, type HeaderOptions} from './headers'
+import {CSPPolicy} from './policy'
+
+/**
+ * Options for {@link NoncePolicy} and the framework adapters.
+ */
+export interface NonceMiddlewareOptions extends HeaderOptions {
+  /** Random bytes per nonce (default: 16, the minimum worth using) */
+  nonceBytes?: number
+}
+
+// Never a valid base64 character, so it cannot collide with a real nonce
+const PLACEHOLDER = '\0'
+
+const nonceRe = /^'nonce-[^']*'$/
+
+/**
+ * A policy prepared for per-request nonces.
+ */
+export class NoncePolicy {
+  private readonly parts: string[]
+  private readonly headerName: string
+  private readonly extraHeaders: Record<string, string>
+  private readonly nonceBytes: number
+
+  /**
+   * @param policy - The policy to deliver. Existing nonce sources are
+   *   replaced by the per-request nonce; if there are none, one is added to
+   *   script-src
+   * @param opts - Report-only, reporting endpoint and nonce size options
+   * @throws Error if nonceBytes is below 16
+   */
+  constructor(policy: CSPPolicy | string, opts: NonceMiddlewareOptions = {}) {
+    const {nonceBytes = 16, ...headerOpts} = opts
+    if (!Number.isInteger(nonceBytes) || nonceBytes < 16) {
+      throw new Error('nonceBytes must be an integer of at least 16')
+    }
+    this.nonceBytes = nonceBytes
+
+    const template =
+      typeof policy === 'string' ? CSPPolicy.parse(policy) : policy.clone()
+    let hasNonce = false
+    for (const [dir, sources] of template.entries()) {
+      if (!sources.some((s) => nonceRe.test(s))) continue
+      hasNonce = true
+      // set() de-duplicates, so several nonces collapse into one
+      template.set(
+        dir,
+        sources.map((s) => (nonceRe.test(s) ? `'nonce-${PLACEHOLDER}'` : s)),
+      )
+    }
+    if (!hasNonce) {
+      // script-src replaces default-src, so carry its sources over
+      const base = (
+        template.get('script-src') ??
+        template.get('default-src') ?? ["'self'"]
+      ).filter((s) => s !== "'none'")
+      template.set('script-src', [...base, `'nonce-${PLACEHOLDER}'`])
+    }
+
+    this.headerName = policyHeaderName(headerOpts.reportOnly)
+    const {[this.headerName]: serialized, ...extra} = buildHeaders(
+      template.toString(),
+      headerOpts,
+    )
+    this.parts = serialized!.split(PLACEHOLDER)
+    this.extraHeaders = extra
+  }
+
+  /**
+   * Generates a cryptographically secure random nonce.
+   * @returns A base64-encoded random string
+   */
+  createNonce(): string {
+    const buffer = new Uint8Array(this.nonceBytes)
+    crypto.getRandomValues(buffer)
+    return Buffer.from(buffer).toString('base64')
+  }
+
+  /**
+   * Returns the headers to send with a response using the given nonce.
+   */
+  headers(nonce: string): Record<string, string> {
+    return {
+      [this.headerName]: this.parts.join(nonce),
+      ...this.extraHeaders,
+    }
+  }
+}
+
+interface ExpressResponse {
+  locals: Record<string, unknown>
+  setHeader(name: string, value: string): unknown
+}
+
+/**
+ * Express (and Connect-style) middleware. The nonce is available to
+ * templates as `res.locals.cspNonce`.
+ */
+export function expressNonce(
+  policy: CSPPolicy | string,
+  opts: NonceMiddlewareOptions = {},
+): (req: unknown, res: ExpressResponse, next: () => void) => void {
+  const nonces = new NoncePolicy(policy, opts)
+  return (_req, res, next) => {
+    const nonce = nonces.createNonce()
+    res.locals.cspNonce = nonce
+    for (const [name, value] of Object.entries(nonces.headers(nonce))) {
+      res.setHeader(name, value)
+    }
+    next()
+  }
+}
+
+interface FastifyRequest {
+  cspNonce?: string
+}
+
+interface FastifyReply {
+  header(name: string, value: string): unknown
+}
+
+/**
+ * Fastify `onRequest` hook. The nonce is available as `request.cspNonce`.
+ * @example
+ * app.decorateRequest('cspNonce', '')
+ * app.addHook('onRequest', fastifyNonce(policy))
+ */
+export function fastifyNonce(
+  policy: CSPPolicy | string,
+  opts: NonceMiddlewareOptions = {},
+): (request: FastifyRequest, reply: FastifyReply) => Promise<void> {
+  const nonces = new NoncePolicy(policy, opts)
+  return async (request, reply) => {
+    const nonce = nonces.createNonce()
+    request.cspNonce = nonce
+    for (const [name, value] of Object.entries(nonces.headers(nonce))) {
+      reply.header(name, value)
+    }
+  }
+}
+
+interface HonoContext {
+  set(key: 'cspNonce', value: string): void
+  header(name: string, value: string): void
+}
+
+/**
+ * Hono middleware. The nonce is available as `c.get('cspNonce')`; type the
+ * app with `Variables: {cspNonce: string}`.
+ */
+export function honoNonce(
+  policy: CSPPolicy | string,
+  opts: NonceMiddlewareOptions = {},
+): (c: HonoContext, next: () => Promise<void>) => Promise<void> {
+  const nonces = new NoncePolicy(policy, opts)
+  return async (c, next) => {
+    const nonce = nonces.createNonce()
+    c.set('cspNonce', nonce)
+    await next()
+    // After next(), so handlers returning a Response directly are covered
+    for (const [name, value] of Object.entries(nonces.headers(nonce))) {
+      c.header(name, value)
+    }
+  }
+}
+
+/**
+ * Wraps a `Bun.serve` fetch handler. The handler receives the nonce as its
+ * second argument.
+ * @example
+ * Bun.serve({fetch: bunNonce(policy, (req, nonce) => new Response(page(nonce)))})
+ */
+export function bunNonce<S = unknown>(
+  policy: CSPPolicy | string,
+  handler: (
+    req: Request,
+    nonce: string,
+    server: S,
+  ) => Response | Promise<Response>,
+  opts: NonceMiddlewareOptions = {},
+): (req: Request, server: S) => Promise<Response> {
+  const nonces = new NoncePolicy(policy, opts)
+  return async (req, server) => {
+    const nonce = nonces.createNonce()
+    let res = await handler(req, nonce, server)
+    const headers = nonces.headers(nonce)
+    try {
+      for (const [name, value] of Object.entries(headers)) {
+        res.headers.set(name, value)
+      }
+    } catch {
+      // Responses from fetch() have immutable headers
+      res = new Response(res.body, res)
+      for (const [name, value] of Object.entries(headers)) {
+        res.headers.set(name, value)
+      }
+    }
+    return res
+  }
+}
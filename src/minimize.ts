@@ -0,0 +1,171 @@
+/**
+ * @file minimize.ts
+ * @description
+ *   Removes the redundant parts of a policy without changing what it
+ *   allows:
+ *     - duplicate sources, and 'none' next to other sources (browsers
+ *       ignore it there)
+ *     - sources another source of the same list covers: hosts under a
+ *       scheme source, `*` or a host wildcard, same-origin URLs under
+ *       'self', and paths under a broader path
+ *     - directives whose sources equal those of the directive they fall
+ *       back to, unless that changes another directive's fallback
+ *   Keywords, nonces and hashes are only de-duplicated: 'unsafe-inline'
+ *   next to a nonce is ignored by CSP2 browsers but still needed by CSP1
+ *   ones.
+ *
+ * @example
+ * import { minimizePolicy } from './minimize';
+ *
+ * const { policy, changes } = minimizePolicy(
+ *   "default-src 'self'; img-src 'self' https://example.com",
+ *   { self: 'https://example.com' },
+ * ); // default-src 'self'
+ */
+
+import {
+  CSP_DIRECTIVES,
+  directiveChain,
+  isDirectiveName,
+  VALID_CSP_DIRECTIVES,
+  type DirectiveSpec,
+} from './constants'
+import {CSPPolicy, normalizeSource} from './policy'
+import {covers} from './source-matcher'
+import type {DirectiveName, MinimizeChange} from './types'
+
+export interface MinimizeOptions {
+  /**
+   * URL of the page the policy protects. Without it, 'self' and hosts
+   * without a scheme never cover other sources.
+   */
+  self?: string | URL
+}
+
+export interface MinimizeResult {
+  /** The minimized copy; the input policy is left unchanged. */
+  policy: CSPPolicy
+  changes: MinimizeChange[]
+}
+
+const isSourceList = (directive: string): directive is DirectiveName =>
+  isDirectiveName(directive) &&
+  (CSP_DIRECTIVES[directive] as DirectiveSpec).grammar === 'source-list'
+
+const SOURCE_LIST_DIRECTIVES = VALID_CSP_DIRECTIVES.filter(isSourceList)
+
+// Drops duplicates, a redundant 'none' and covered sources from one list
+function minimizeList(
+  directive: DirectiveName,
+  values: string[],
+  self: URL | undefined,
+  changes: MinimizeChange[],
+): string[] {
+  const kept: string[] = []
+  const seen = new Map<string, string>()
+  for (const value of values) {
+    const normalized = normalizeSource(value)
+    const first = seen.get(normalized)
+    if (first !== undefined) {
+      changes.push({directive, source: value, reason: `duplicate of ${first}`})
+      continue
+    }
+    seen.set(normalized, value)
+    kept.push(value)
+  }
+
+  const none = kept.findIndex((v) => v.toLowerCase() === "'none'")
+  if (none !== -1 && kept.length > 1) {
+    const [source] = kept.splice(none, 1)
+    changes.push({
+      directive,
+      source,
+      reason: 'ignored next to other sources',
+    })
+  }
+
+  for (const source of [...kept]) {
+    const cover = kept.find(
+      (other) => other !== source && covers(other, source, self),
+    )
+    if (cover) {
+      kept.splice(kept.indexOf(source), 1)
+      changes.push({directive, source, reason: `covered by ${cover}`})
+    }
+  }
+  return kept
+}
+
+// Order-independent fingerprint of a source list
+const fingerprint = (values: string[] | undefined) =>
+  values
+    ? Array.from(new Set(values.map(normalizeSource)))
+        .sort()
+        .join(' ')
+    : undefined
+
+/**
+ * Removes redundant sources and directives from a policy, keeping every
+ * allow/deny decision the same.
+ * @param policy - A CSPPolicy (not modified) or a policy string
+ */
+export function minimizePolicy(
+  policy: CSPPolicy | string,
+  options: MinimizeOptions = {},
+): MinimizeResult {
+  const minimized =
+    typeof policy === 'string' ? CSPPolicy.parse(policy) : policy.clone()
+  const self = options.self === undefined ? undefined : new URL(options.self)
+  const changes: MinimizeChange[] = []
+
+  for (const [directive, values] of minimized.entries()) {
+    if (!isSourceList(directive)) continue
+    const kept = minimizeList(directive, values, self, changes)
+    if (kept.length !== values.length) minimized.set(directive, kept)
+  }
+
+  // A directive equal to its fallback can go, as long as every other
+  // directive still resolves to the same sources without it
+  const resolve = (candidate: CSPPolicy) =>
+    SOURCE_LIST_DIRECTIVES.map((d) => fingerprint(candidate.effective(d)))
+  const expected = JSON.stringify(resolve(minimized))
+  for (const directive of minimized.directiveNames) {
+    if (!isSourceList(directive)) continue
+    const fallback = directiveChain(directive)
+      .slice(1)
+      .find((d) => minimized.has(d))
+    if (
+      !fallback ||
+      fingerprint(minimized.get(directive)) !==
+        fingerprint(minimized.get(fallback))
+    ) {
+      continue
+    }
+    const candidate = minimized.clone()
+    candidate.delete(directive)
+    if (JSON.stringify(resolve(candidate)) !== expected) continue
+    minimized.delete(directive)
+    changes.push({
+      directive,
+      reason: `same as ${fallback}, which it falls back to`,
+    })
+  }
+
+  return {policy: minimized, changes}
+}
+
+/**
+ * {@link minimizePolicy} for a generator's sources map, in place.
+ * @returns The sources and directives removed
+ */
+export function minimizeSources(
+  sources: Map<DirectiveName, Set<string>>,
+  options: MinimizeOptions = {},
+): MinimizeChange[] {
+  const {policy, changes} = minimizePolicy(new CSPPolicy(sources), options)
+  sources.clear()
+  for (const [directive, values] of policy.entries()) {
+    sources.set(directive, new Set(values))
+  }
+  return changes
+}
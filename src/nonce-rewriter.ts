@@ -0,0 +1,231 @@
+/**
+ * @file nonce-rewriter.ts
+ * @description
+ *   Classification of the elements a policy governs through script-src and
+ *   style-src, shared with the generator's parser, and an HTML rewriter that
+ *   sets attributes on start tags: used to stamp a nonce onto each of those
+ *   elements so markup matches a nonce-based policy, and to add integrity.
+ *
+ *   The rewriter only touches the start tags it changes; everything else is
+ *   passed through byte for byte. It works on strings and, incrementally, on
+ *   streams of text.
+ */
+
+import {Parser} from 'htmlparser2'
+import {isJavaScriptType} from './script-analyzer'
+
+/**
+ * How a policy governs an element.
+ */
+export interface ElementClass {
+  directive: 'script-src' | 'style-src'
+  /** URL the element loads, if it is external */
+  url?: string
+}
+
+// Inline data blocks that script-src still governs
+const GOVERNED_SCRIPT_TYPES = new Set(['importmap', 'speculationrules'])
+
+/**
+ * Classifies an element as a script or style the policy must allow:
+ *  - `<script>` with an executable type (inline, or external via `src`)
+ *  - inline `<script type=importmap>` and `<script type=speculationrules>`
+ *  - `<style>`
+ *  - `<link rel=stylesheet>` and `<link rel=modulepreload>` with an `href`
+ * @param name - Lower-case tag name
+ * @param attribs - Decoded attribute values
+ * @returns undefined for anything else, e.g. JSON or template scripts
+ */
+export function classifyElement(
+  name: string,
+  attribs: Record<string, string>,
+): ElementClass | undefined {
+  switch (name) {
+    case 'script':
+      if (!isJavaScriptType(attribs.type)) {
+        const type = attribs.type?.trim().toLowerCase() ?? ''
+        return GOVERNED_SCRIPT_TYPES.has(type) && attribs.src === undefined
+          ? {directive: 'script-src'}
+          : undefined
+      }
+      return attribs.src
+        ? {directive: 'script-src', url: attribs.src}
+        : {directive: 'script-src'}
+    case 'style':
+      return {directive: 'style-src'}
+    case 'link': {
+      if (!attribs.href) return undefined
+      const rel = (attribs.rel ?? '').toLowerCase().split(/\s+/)
+      if (rel.includes('stylesheet')) {
+        return {directive: 'style-src', url: attribs.href}
+      }
+      if (rel.includes('modulepreload')) {
+        return {directive: 'script-src', url: attribs.href}
+      }
+      return undefined
+    }
+  }
+  return undefined
+}
+
+// One attribute of a start tag, with its leading whitespace or slashes
+const attrRe =
+  /[\s/]*([^\s/>][^\s/>=]*)(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]*))?/y
+
+const escapeAttr = (value: string) =>
+  value.replace(/[&"]/g, (c) => (c === '&' ? '&amp;' : '&quot;'))
+
+// Sets attributes on a complete start tag, replacing any existing ones of
+// the same name (so a stale nonce cannot survive).
+function setAttributes(tag: string, attrs: Record<string, string>): string {
+  const nameEnd = tag.search(/[\s/>]/)
+  let out = ''
+  let pos = nameEnd
+  let match: RegExpExecArray | null
+  attrRe.lastIndex = pos
+  while ((match = attrRe.exec(tag))) {
+    if (!Object.hasOwn(attrs, match[1]!.toLowerCase())) out += match[0]
+    pos = attrRe.lastIndex
+  }
+  const added = Object.entries(attrs)
+    .map(([name, value]) => ` ${name}="${escapeAttr(value)}"`)
+    .join('')
+  return `${tag.slice(0, nameEnd)}${added}${out}${tag.slice(pos)}`
+}
+
+/**
+ * Decides which attributes to set on a start tag.
+ * @param name - Lower-case tag name
+ * @param attribs - Decoded attribute values
+ * @returns Attributes to set, or undefined to leave the tag unchanged
+ */
+export type TagStamp = (
+  name: string,
+  attribs: Record<string, string>,
+) => Record<string, string> | undefined
+
+/**
+ * Incremental start-tag rewriter. Feed it chunks of a document with
+ * {@link TagRewriter.write} and finish with {@link TagRewriter.end};
+ * each call returns the output that is ready. Input that may still be part
+ * of an unfinished tag is held back until the next call.
+ */
+export class TagRewriter {
+  private readonly parser: Parser
+  // Input not yet returned, starting at absolute offset `offset`
+  private pending = ''
+  private offset = 0
+  private output = ''
+  // Absolute offset up to which the parser has consumed the input
+  private safe = 0
+
+  constructor(stamp: TagStamp) {
+    const consumed = () => {
+      this.safe = Math.max(this.safe, this.parser.endIndex + 1)
+    }
+    this.parser = new Parser(
+      {
+        onopentag: (name, attribs) => {
+          const {startIndex, endIndex} = this.parser
+          const attrs = stamp(name, attribs)
+          if (attrs) {
+            const start = startIndex - this.offset
+            const end = endIndex + 1 - this.offset
+            this.output +=
+              this.pending.slice(0, start) +
+              setAttributes(this.pending.slice(start, end), attrs)
+            this.pending = this.pending.slice(end)
+            this.offset = endIndex + 1
+          }
+          consumed()
+        },
+        onclosetag: consumed,
+        ontext: consumed,
+        oncomment: consumed,
+        onprocessinginstruction: consumed,
+      },
+      {decodeEntities: true},
+    )
+  }
+
+  /**
+   * Rewrites the next chunk of the document.
+   * @returns The output that is ready so far
+   */
+  write(chunk: string): string {
+    this.pending += chunk
+    this.parser.write(chunk)
+    return this.flush(this.safe)
+  }
+
+  /**
+   * Signals the end of the document.
+   * @returns The remaining output
+   */
+  end(): string {
+    this.parser.end()
+    return this.flush(this.offset + this.pending.length)
+  }
+
+  private flush(upTo: number): string {
+    const ready = Math.max(0, upTo - this.offset)
+    const out = this.output + this.pending.slice(0, ready)
+    this.pending = this.pending.slice(ready)
+    this.offset += ready
+    this.output = ''
+    return out
+  }
+}
+
+/**
+ * Rewrites a whole document with a {@link TagStamp}.
+ */
+export function rewriteTags(html: string, stamp: TagStamp): string {
+  const rewriter = new TagRewriter(stamp)
+  return rewriter.write(html) + rewriter.end()
+}
+
+/**
+ * A {@link TagRewriter} that stamps a nonce onto every script and style
+ * element that a nonce-based policy governs.
+ */
+export class NonceRewriter extends TagRewriter {
+  constructor(nonce: string) {
+    super((name, attribs) =>
+      classifyElement(name, attribs) ? {nonce} : undefined,
+    )
+  }
+}
+
+/**
+ * Adds `nonce` to every script and style element that a nonce-based policy
+ * governs (see {@link classifyElement}), replacing existing nonces.
+ * @param html - The document or fragment
+ * @param nonce - The nonce from the policy, without the `'nonce-'` prefix
+ */
+export function stampNonces(html: string, nonce: string): string {
+  const rewriter = new NonceRewriter(nonce)
+  return rewriter.write(html) + rewriter.end()
+}
+
+/**
+ * Streaming form of {@link stampNonces}.
+ * @example
+ * response.body
+ *   .pipeThrough(new TextDecoderStream())
+ *   .pipeThrough(nonceStream(nonce))
+ *   .pipeThrough(new TextEncoderStream())
+ */
+export function nonceStream(nonce: string): TransformStream<string, string> {
+  const rewriter = new NonceRewriter(nonce)
+  return new TransformStream({
+    transform(chunk, controller) {
+      const out = rewriter.write(chunk)
+      if (out) controller.enqueue(out)
+    },
+    flush(controller) {
+      const out = rewriter.end()
+      if (out) controller.enqueue(out)
+    },
+  })
+}
@@ -0,0 +1,68 @@
+/**
+ * @file origin-filter.ts
+ * @description
+ *   The HTTPS-only and SSRF rules that decide whether a URL may be added to
+ *   a policy or fetched, shared by the generator and policy refinement.
+ */
+
+import {isIP} from 'net'
+import dns from 'dns/promises'
+import type {Logger, SecureCSPGeneratorOptions} from './types'
+
+export type OriginFilterOptions = Pick<
+  SecureCSPGeneratorOptions,
+  'allowHttp' | 'allowPrivateOrigins'
+>
+
+/**
+ * Tests if an IPv4/v6 address is private or loopback.
+ */
+export function isPrivateIp(ip: string): boolean {
+  return (
+    /^10\./.test(ip) ||
+    /^192\.168\./.test(ip) ||
+    /^172\.(1[6-9]|2\d|3[0-1])\./.test(ip) ||
+    /^127\./.test(ip) ||
+    ip === '::1' ||
+    ip.startsWith('fe80:')
+  )
+}
+
+/**
+ * Applies the HTTPS-only and SSRF rules to a URL. Hosts that do not
+ * resolve are rejected with a debug log rather than an error.
+ */
+export async function isAllowedUrl(
+  absolute: URL,
+  opts: OriginFilterOptions,
+  logger: Logger,
+): Promise<boolean> {
+  // Enforce HTTPS (or secure WebSockets)
+  if (
+    !opts.allowHttp &&
+    absolute.protocol !== 'https:' &&
+    absolute.protocol !== 'wss:'
+  ) {
+    return false
+  }
+
+  // SSRF mitigation: block private IPs/domains unless allowed
+  if (!opts.allowPrivateOrigins) {
+    const host = absolute.hostname
+    if (host === 'localhost' || host.endsWith('.local')) return false
+    let addresses: string[]
+    try {
+      addresses = isIP(host)
+        ? [host]
+        : (await dns.lookup(host, {all: true})).map((r) => r.address)
+    } catch {
+      logger.debug(`Unresolvable host skipped: ${host}`)
+      return false
+    }
+    if (addresses.some((address) => isPrivateIp(address))) {
+      return false
+    }
+  }
+
+  return true
+}
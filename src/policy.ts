@@ -0,0 +1,372 @@
+/**
+ * @file policy.ts
+ * @description
+ *   CSPPolicy: a structured, mutable model of a single Content-Security-Policy.
+ *   It parses header strings following the CSP3 parsing rules, serializes
+ *   either as built or canonically, merges policies directive by directive
+ *   and computes directive-level diffs.
+ *
+ * @example
+ * import { CSPPolicy } from './policy';
+ *
+ * const live = CSPPolicy.parse("default-src 'self'; img-src https://img.example.com");
+ * const next = live.merge(CSPPolicy.parse('img-src https://cdn.example.com'));
+ * console.log(next.serialize());
+ * console.log(live.diff(next));
+ */
+
+import {directiveChain, VALID_CSP_DIRECTIVES} from './constants'
+import {covers} from './source-matcher'
+import type {DirectiveName} from './types'
+
+/**
+ * How {@link CSPPolicy.merge} combines directives present in both policies.
+ *  - union: allow what either policy allows
+ *  - intersection: allow only what both policies allow, comparing each
+ *    directive with the other policy's effective (fallback) sources
+ */
+export type PolicyMergeMode = 'union' | 'intersection'
+
+/**
+ * How a directive differs between two policies.
+ */
+export interface DirectiveDiff {
+  directive: DirectiveName
+  /**
+   * 'added' / 'removed' when the directive exists in only one policy,
+   * 'changed' when both have it with different values.
+   */
+  status: 'added' | 'removed' | 'changed'
+  /** Values only in the other policy. */
+  added: string[]
+  /** Values only in this policy. */
+  removed: string[]
+}
+
+/**
+ * Normalizes the case-insensitive parts of a source expression:
+ * keywords, schemes and hosts. Nonce/hash values and paths keep their case.
+ */
+export function normalizeSource(source: string): string {
+  if (/^'(?:nonce|sha256|sha384|sha512)-/i.test(source)) {
+    const dash = source.indexOf('-')
+    return source.slice(0, dash).toLowerCase() + source.slice(dash)
+  }
+  if (source.startsWith("'")) return source.toLowerCase()
+  const match = /^([a-z][a-z0-9+.-]*:(?:\/\/)?)?([^/]*)(.*)$/i.exec(source)
+  if (!match) return source
+  const [, scheme = '', host = '', path = ''] = match
+  return scheme.toLowerCase() + host.toLowerCase() + path
+}
+
+/**
+ * True if a source list allows all inline content through 'unsafe-inline',
+ * i.e. no nonce, hash or 'strict-dynamic' makes browsers ignore it.
+ */
+export function allowsUnsafeInline(sources: readonly string[]): boolean {
+  return (
+    sources.includes("'unsafe-inline'") &&
+    !sources.some((s) =>
+      /^'(?:nonce-|sha(?:256|384|512)-|strict-dynamic')/i.test(s),
+    )
+  )
+}
+
+// Sources either list allows; undefined stands for a policy that does not
+// mention the directive, which adds nothing. A nonce or hash from one side
+// would make browsers ignore the other side's 'unsafe-inline', so they are
+// dropped while either side relies on it.
+function unionSources(
+  ours: readonly string[] | undefined,
+  theirs: readonly string[] | undefined,
+): string[] | undefined {
+  if (!ours || !theirs) return ours ? [...ours] : theirs && [...theirs]
+  const seen = new Set<string>()
+  let all = [...ours, ...theirs].filter((v) => {
+    const key = normalizeSource(v)
+    return !seen.has(key) && !!seen.add(key)
+  })
+  if (allowsUnsafeInline(ours) || allowsUnsafeInline(theirs)) {
+    all = all.filter(
+      (v) => !/^'(?:nonce-|sha(?:256|384|512)-|strict-dynamic')/i.test(v),
+    )
+  }
+  return all.length > 1 ? all.filter((v) => v !== "'none'") : all
+}
+
+// Sources both lists allow, keeping the narrower of two sources where one
+// covers the other (https: and https://a.com give https://a.com);
+// undefined stands for an unrestricted directive
+function intersectSources(
+  ours: readonly string[] | undefined,
+  theirs: readonly string[] | undefined,
+): string[] | undefined {
+  if (!ours || !theirs) return ours ? [...ours] : theirs && [...theirs]
+  const both = new Map<string, string>()
+  for (const a of ours) {
+    for (const b of theirs) {
+      const narrower =
+        normalizeSource(a) === normalizeSource(b) || covers(b, a)
+          ? a
+          : covers(a, b)
+            ? b
+            : undefined
+      if (narrower) both.set(normalizeSource(narrower), narrower)
+    }
+  }
+  return ours.length && theirs.length && !both.size
+    ? ["'none'"]
+    : Array.from(both.values())
+}
+
+// Keywords, then nonces/hashes, then schemes, then hosts
+function sourceRank(source: string): number {
+  if (/^'(?:nonce|sha\d+)-/.test(source)) return 1
+  if (source.startsWith("'")) return 0
+  if (/^[a-z][a-z0-9+.-]*:$/.test(source)) return 2
+  return 3
+}
+
+/**
+ * CSPPolicy:
+ * An ordered map of directive names to source lists.
+ */
+export class CSPPolicy {
+  private readonly directives = new Map<DirectiveName, Set<string>>()
+
+  /**
+   * @param init - Directive/value pairs, e.g. a generator sources map or
+   *   a presets-style record
+   */
+  constructor(
+    init:
+      | Iterable<readonly [DirectiveName, Iterable<string>]>
+      | Partial<Record<DirectiveName, Iterable<string>>> = [],
+  ) {
+    const entries =
+      Symbol.iterator in init
+        ? (init as Iterable<readonly [DirectiveName, Iterable<string>]>)
+        : (Object.entries(init) as [DirectiveName, Iterable<string>][])
+    for (const [dir, values] of entries) {
+      this.directives.set(dir, new Set(values))
+    }
+  }
+
+  /**
+   * Parses a single serialized policy. Directive names are lowercased;
+   * as in browsers, repeated directives after the first are ignored.
+   */
+  static parse(policy: string): CSPPolicy {
+    const parsed = new CSPPolicy()
+    for (const part of policy.split(';')) {
+      const [name, ...values] = part.trim().split(/\s+/)
+      if (!name) continue
+      const dir = name.toLowerCase() as DirectiveName
+      if (parsed.directives.has(dir)) continue
+      parsed.directives.set(dir, new Set(values))
+    }
+    return parsed
+  }
+
+  /**
+   * Parses a header value, which may hold several comma-separated policies.
+   */
+  static parseHeader(value: string): CSPPolicy[] {
+    return value
+      .split(',')
+      .filter((policy) => policy.trim())
+      .map((policy) => CSPPolicy.parse(policy))
+  }
+
+  /** Directive names in insertion order. */
+  get directiveNames(): DirectiveName[] {
+    return Array.from(this.directives.keys())
+  }
+
+  has(directive: DirectiveName): boolean {
+    return this.directives.has(directive)
+  }
+
+  /**
+   * Returns a copy of a directive's values, or undefined if it is absent.
+   */
+  get(directive: DirectiveName): string[] | undefined {
+    const values = this.directives.get(directive)
+    return values && Array.from(values)
+  }
+
+  /**
+   * Returns the values that govern a directive: its own, or those of the
+   * first directive in its fallback chain that is present (e.g. worker-src
+   * falls back to child-src, script-src, then default-src). Undefined if
+   * the policy does not restrict it at all.
+   */
+  effective(directive: DirectiveName): string[] | undefined {
+    for (const dir of directiveChain(directive)) {
+      const values = this.get(dir)
+      if (values) return values
+    }
+    return undefined
+  }
+
+  /**
+   * Replaces a directive's values (an empty list for value-less directives).
+   */
+  set(directive: DirectiveName, values: Iterable<string> = []): this {
+    this.directives.set(directive, new Set(values))
+    return this
+  }
+
+  /**
+   * Adds values to a directive, creating it if needed.
+   */
+  add(directive: DirectiveName, ...values: string[]): this {
+    const set = this.directives.get(directive) ?? new Set()
+    for (const value of values) set.add(value)
+    this.directives.set(directive, set)
+    return this
+  }
+
+  delete(directive: DirectiveName): boolean {
+    return this.directives.delete(directive)
+  }
+
+  /** [directive, values] pairs in insertion order. */
+  entries(): Array<[DirectiveName, string[]]> {
+    return Array.from(this.directives, ([dir, vals]) => [dir, Array.from(vals)])
+  }
+
+  clone(): CSPPolicy {
+    return new CSPPolicy(this.directives)
+  }
+
+  /**
+   * Combines two policies directive by directive, comparing each directive
+   * with the other policy's effective (fallback) sources. In union mode
+   * the result allows what either policy allows; a policy that does not
+   * restrict a directive at all adds nothing to it, so a fragment such as
+   * `img-src https://cdn.example.com` extends a full policy. 'none' is
+   * dropped once other sources exist. In intersection mode the result is
+   * never looser than either input; an empty intersection becomes 'none'.
+   */
+  merge(other: CSPPolicy, mode: PolicyMergeMode = 'union'): CSPPolicy {
+    return this.combine(
+      other,
+      mode === 'intersection' ? intersectSources : unionSources,
+    )
+  }
+
+  /**
+   * Lists the directives that differ from `other`, comparing normalized
+   * sources. `added`/`removed` are relative to this policy.
+   */
+  diff(other: CSPPolicy): DirectiveDiff[] {
+    const diffs: DirectiveDiff[] = []
+    const names = new Set([
+      ...this.directives.keys(),
+      ...other.directives.keys(),
+    ])
+    for (const directive of names) {
+      const ours = this.normalizedValues(directive)
+      const theirs = other.normalizedValues(directive)
+      if (!ours || !theirs) {
+        diffs.push({
+          directive,
+          status: ours ? 'removed' : 'added',
+          added: theirs ? Array.from(theirs) : [],
+          removed: ours ? Array.from(ours) : [],
+        })
+        continue
+      }
+      const added = Array.from(theirs).filter((v) => !ours.has(v))
+      const removed = Array.from(ours).filter((v) => !theirs.has(v))
+      if (added.length || removed.length) {
+        diffs.push({directive, status: 'changed', added, removed})
+      }
+    }
+    return diffs
+  }
+
+  /**
+   * True if both policies serialize to the same canonical form.
+   */
+  equals(other: CSPPolicy): boolean {
+    return this.serialize() === other.serialize()
+  }
+
+  /**
+   * Serializes canonically: directives sorted by name, sources normalized,
+   * de-duplicated and sorted (keywords, nonces/hashes, schemes, hosts).
+   */
+  serialize(): string {
+    return Array.from(this.directives.keys())
+      .sort()
+      .map((dir) => {
+        const values = Array.from(this.normalizedValues(dir)!).sort(
+          (a, b) =>
+            sourceRank(a) - sourceRank(b) || (a < b ? -1 : a > b ? 1 : 0),
+        )
+        return values.length ? `${dir} ${values.join(' ')}` : dir
+      })
+      .join('; ')
+  }
+
+  /**
+   * Serializes in insertion order, the way the generator emits headers.
+   */
+  toString(): string {
+    const parts: string[] = []
+    for (const [dir, vals] of this.directives) {
+      if (!vals.size) {
+        parts.push(dir)
+      } else {
+        parts.push(`${dir} ${Array.from(vals).join(' ')}`)
+      }
+    }
+    return parts.join('; ')
+  }
+
+  toJSON(): Partial<Record<DirectiveName, string[]>> {
+    return Object.fromEntries(this.entries())
+  }
+
+  // Combines the effective sources of every directive either policy sets,
+  // then spells out directives whose fallback would now resolve to
+  // something else than the combined sources (e.g. worker-src via
+  // child-src in one policy and script-src in the other)
+  private combine(
+    other: CSPPolicy,
+    combineSources: typeof unionSources,
+  ): CSPPolicy {
+    const merged = new CSPPolicy()
+    const expected = (dir: DirectiveName) =>
+      combineSources(this.effective(dir), other.effective(dir))
+    for (const dir of new Set([
+      ...this.directives.keys(),
+      ...other.directives.keys(),
+    ])) {
+      merged.set(dir, expected(dir))
+    }
+    const fingerprint = (values: string[] | undefined) =>
+      values &&
+      Array.from(new Set(values.map(normalizeSource)))
+        .sort()
+        .join(' ')
+    for (const dir of VALID_CSP_DIRECTIVES) {
+      if (merged.has(dir)) continue
+      const values = expected(dir)
+      if (
+        values &&
+        fingerprint(merged.effective(dir)) !== fingerprint(values)
+      ) {
+        merged.set(dir, values)
+      }
+    }
+    return merged
+  }
+
+  private normalizedValues(directive: DirectiveName): Set<string> | undefined {
+    const values = this.directives.get(directive)
+    return values && new Set(Array.from(values, normalizeSource))
+  }
+}
@@ -0,0 +1,250 @@
+/**
+ * @file refine.ts
+ * @description
+ *   Learning mode: proposes additions to a base policy from collected
+ *   violation reports. Blocked URLs pass through the same HTTPS-only and
+ *   private-origin rules as generated sources, are grouped per directive
+ *   and origin with occurrence counts, and proposals whose confidence
+ *   reaches a threshold are applied automatically.
+ *
+ * @example
+ * import { refinePolicy } from './refine';
+ *
+ * const { policy, proposals } = await refinePolicy(
+ *   generator.getPolicy(),
+ *   collector.getViolations(),
+ *   { confidenceThreshold: 0.9 },
+ * );
+ */
+
+import type {CollectedViolation, ViolationReport} from './collector'
+import {isDirectiveName} from './constants'
+import {isAllowedUrl, type OriginFilterOptions} from './origin-filter'
+import {CSPPolicy, normalizeSource} from './policy'
+import {sourceListCovers} from './source-matcher'
+import type {DirectiveName, Logger} from './types'
+
+export interface RefineOptions extends OriginFilterOptions {
+  /**
+   * Proposals at or above this confidence (0-1) are added to the returned
+   * policy (default: 0.9, i.e. at least four reports).
+   */
+  confidenceThreshold?: number
+
+  /** A logger implementing error, warn, info, debug (default: console). */
+  logger?: Logger
+}
+
+/**
+ * A source the reports suggest adding to a directive.
+ */
+export interface PolicyProposal {
+  directive: DirectiveName
+  /** Origin, scheme or keyword to add. */
+  source: string
+  /** Reports that were blocked for want of this source. */
+  count: number
+  /** Distinct documents that reported it. */
+  pages: number
+  /** 1 - 0.5^count: each independent report halves the chance of noise. */
+  confidence: number
+  /** True if confidence reached the threshold and the source was added. */
+  accepted: boolean
+}
+
+/**
+ * Reported blocks that cannot be fixed by allowing a source.
+ */
+export interface RejectedViolation {
+  directive: string
+  blockedUri: string
+  count: number
+  reason: string
+}
+
+export interface RefineResult {
+  /** The base policy plus every accepted proposal. */
+  policy: CSPPolicy
+  /** Proposals, most reported first. */
+  proposals: PolicyProposal[]
+  rejected: RejectedViolation[]
+}
+
+// Directives where data:/blob: URLs cannot execute script
+const SCHEME_SAFE_DIRECTIVES = new Set<DirectiveName>([
+  'img-src',
+  'font-src',
+  'media-src',
+])
+
+/**
+ * Maps a reported directive to the one to extend: CSP3 -elem/-attr
+ * directives the policy does not use map to script-src / style-src.
+ */
+function toDirective(
+  reported: string,
+  policy: CSPPolicy,
+): DirectiveName | undefined {
+  const name = reported.toLowerCase()
+  if (!isDirectiveName(name)) return undefined
+  if (policy.has(name)) return name
+  return name.replace(/-(?:elem|attr)$/, '') as DirectiveName
+}
+
+/**
+ * Proposes additions to `base` from violation reports.
+ * @param base - The deployed policy, as a CSPPolicy or a policy string
+ * @param reports - Normalized reports, optionally with occurrence counts
+ * @param opts - Origin rules and confidence threshold
+ */
+export async function refinePolicy(
+  base: CSPPolicy | string,
+  reports: Array<ViolationReport | CollectedViolation>,
+  opts: RefineOptions = {},
+): Promise<RefineResult> {
+  const {confidenceThreshold = 0.9, logger = console} = opts
+  const policy = typeof base === 'string' ? CSPPolicy.parse(base) : base.clone()
+
+  const candidates = new Map<
+    string,
+    {
+      directive: DirectiveName
+      source: string
+      count: number
+      pages: Set<string>
+    }
+  >()
+  const rejected = new Map<string, RejectedViolation>()
+  const reject = (report: ViolationReport, count: number, reason: string) => {
+    const {directive, blockedUri} = report
+    const key = `${directive} ${blockedUri}`
+    const entry = rejected.get(key)
+    if (entry) {
+      entry.count += count
+    } else {
+      rejected.set(key, {directive, blockedUri, count, reason})
+    }
+  }
+
+  for (const report of reports) {
+    const count = 'count' in report ? report.count : 1
+    const directive = toDirective(report.directive, policy)
+    if (!directive) {
+      reject(report, count, 'Unsupported directive')
+      continue
+    }
+
+    const source = await resolveSource(directive, report, opts, logger)
+    if ('reason' in source) {
+      reject(report, count, source.reason)
+      continue
+    }
+
+    const key = `${directive} ${source.value}`
+    const candidate = candidates.get(key) ?? {
+      directive,
+      source: source.value,
+      count: 0,
+      pages: new Set(),
+    }
+    candidate.count += count
+    if (report.documentUri) candidate.pages.add(report.documentUri)
+    candidates.set(key, candidate)
+  }
+
+  const proposals: PolicyProposal[] = []
+  for (const {directive, source, count, pages} of candidates.values()) {
+    // Stale reports for sources the policy already allows need no change,
+    // e.g. an origin that https: or *.example.com covers
+    const allowed = (policy.effective(directive) ?? []).map(normalizeSource)
+    const selves = Array.from(pages, toUrl)
+    if (
+      (selves.length ? selves : [undefined]).every((self) =>
+        sourceListCovers(allowed, normalizeSource(source), self),
+      )
+    ) {
+      continue
+    }
+
+    const confidence = Math.round((1 - 0.5 ** count) * 100) / 100
+    const accepted = confidence >= confidenceThreshold
+    proposals.push({
+      directive,
+      source,
+      count,
+      pages: pages.size,
+      confidence,
+      accepted,
+    })
+  }
+  proposals.sort((a, b) => b.count - a.count)
+
+  for (const {directive, source, accepted} of proposals) {
+    if (!accepted) continue
+    // A new directive keeps what it inherited through its fallback chain
+    const values = (policy.effective(directive) ?? []).filter(
+      (v) => v !== "'none'",
+    )
+    policy.set(directive, [...values, source])
+  }
+
+  return {policy, proposals, rejected: Array.from(rejected.values())}
+}
+
+const toUrl = (href: string): URL | undefined => {
+  try {
+    return new URL(href)
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Turns a blocked URI into the source that would allow it, or explains
+ * why no source should be added.
+ */
+async function resolveSource(
+  directive: DirectiveName,
+  {blockedUri, documentUri}: ViolationReport,
+  opts: OriginFilterOptions,
+  logger: Logger,
+): Promise<{value: string} | {reason: string}> {
+  const keyword = blockedUri.toLowerCase()
+  if (keyword === 'inline') {
+    return {reason: 'Inline content needs a nonce or hash, not a source'}
+  }
+  if (keyword === 'eval' || keyword === 'wasm-eval') {
+    return {reason: "Dynamic code evaluation requires 'unsafe-eval'"}
+  }
+  // Browsers report 'data'/'blob', older ones the full URL
+  const scheme = /^(data|blob)(?::|$)/.exec(keyword)?.[1]
+  if (scheme) {
+    return SCHEME_SAFE_DIRECTIVES.has(directive)
+      ? {value: `${scheme}:`}
+      : {reason: `${scheme}: URLs are unsafe in ${directive}`}
+  }
+
+  let url: URL
+  try {
+    url = new URL(blockedUri)
+  } catch {
+    return {reason: 'Unrecognized blocked URI'}
+  }
+  if (!/^(?:https?|wss?):$/.test(url.protocol)) {
+    // e.g. chrome-extension: reports caused by the user's browser
+    return {reason: `Non-web scheme ${url.protocol}`}
+  }
+
+  try {
+    if (documentUri && new URL(documentUri).origin === url.origin) {
+      return {value: "'self'"}
+    }
+  } catch {
+    // Unparseable document URI; treat the blocked URL as cross-origin
+  }
+
+  if (!(await isAllowedUrl(url, opts, logger))) {
+    return {reason: 'Rejected by the HTTPS-only / private-origin rules'}
+  }
+  return {value: url.origin}
+}
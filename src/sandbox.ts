@@ -0,0 +1,158 @@
+/**
+ * @file sandbox.ts
+ * @description
+ *   The sandbox directive: validation of explicit token lists, and inference
+ *   of the fewest tokens a page needs from its markup and scripts:
+ *     - allow-scripts          executable scripts, event handlers, javascript: URLs
+ *     - allow-forms            <form> elements
+ *     - allow-popups           target=_blank (or any named target), window.open
+ *     - allow-modals           alert, confirm, prompt, print
+ *     - allow-downloads        <a download>
+ *     - allow-same-origin      cookies, Web Storage, IndexedDB, Cache Storage
+ *     - allow-top-navigation-by-user-activation
+ *                              target=_top / _parent
+ *     - allow-top-navigation   scripted top.location / parent.location
+ *     - allow-pointer-lock, allow-orientation-lock, allow-presentation and
+ *       allow-storage-access-by-user-activation from the matching APIs
+ *   Escaping tokens (allow-popups-to-escape-sandbox,
+ *   allow-top-navigation-to-custom-protocols) are never inferred.
+ */
+
+import {SANDBOX_TOKENS} from './constants'
+import {isJavaScriptType} from './script-analyzer'
+import type {SandboxToken, SecureCSPGeneratorOptions} from './types'
+
+/**
+ * An element, with its lower-case name and decoded attributes.
+ */
+export interface SandboxElement {
+  name: string
+  attribs: Record<string, string>
+}
+
+/**
+ * What a page contains, as far as sandboxing is concerned.
+ */
+export interface SandboxEvidence {
+  /** Every element of the page. */
+  elements: Iterable<SandboxElement>
+  /** Inline and (if available) external script sources. */
+  scripts: Iterable<string>
+}
+
+/**
+ * Checks and de-duplicates sandbox tokens, keeping the spec's order.
+ * @throws Error on a token the spec does not define
+ */
+export function validateSandbox(tokens: readonly string[]): SandboxToken[] {
+  const valid = new Set<SandboxToken>()
+  for (const token of tokens) {
+    const name = token.trim().toLowerCase() as SandboxToken
+    if (!SANDBOX_TOKENS.includes(name)) {
+      throw new Error(
+        `Unknown sandbox token "${token}" – use ${SANDBOX_TOKENS.join(', ')}`,
+      )
+    }
+    valid.add(name)
+  }
+  return SANDBOX_TOKENS.filter((token) => valid.has(token))
+}
+
+/**
+ * Resolves the sandbox option, and the deprecated useSandbox flag that
+ * stands for 'infer'.
+ * @throws Error on an unknown token or mode
+ */
+export function resolveSandbox(
+  sandbox: SecureCSPGeneratorOptions['sandbox'],
+  useSandbox = false,
+): readonly SandboxToken[] | 'infer' | undefined {
+  if (sandbox === undefined) return useSandbox ? 'infer' : undefined
+  if (sandbox === 'infer') return sandbox
+  if (Array.isArray(sandbox)) return validateSandbox(sandbox)
+  throw new Error(
+    `Invalid sandbox ${JSON.stringify(sandbox)} – use a list of tokens or 'infer'`,
+  )
+}
+
+// Script APIs that only work with a token, tested against script sources
+const SCRIPT_APIS: Array<[RegExp, SandboxToken]> = [
+  [
+    /(?:^|[^.\w$]|\bwindow\.)(?:alert|confirm|prompt|print)\s*\(/,
+    'allow-modals',
+  ],
+  [/\bwindow\.open\s*\(/, 'allow-popups'],
+  [
+    /\b(?:localStorage|sessionStorage|indexedDB|document\.cookie|caches)\b/,
+    'allow-same-origin',
+  ],
+  [/\b(?:top|parent)\.location\b/, 'allow-top-navigation'],
+  [/\brequestPointerLock\s*\(/, 'allow-pointer-lock'],
+  [/\borientation\.lock\s*\(/, 'allow-orientation-lock'],
+  [/\bPresentationRequest\b/, 'allow-presentation'],
+  [/\brequestStorageAccess\s*\(/, 'allow-storage-access-by-user-activation'],
+]
+
+const NAVIGATING_ELEMENTS = new Set(['a', 'area', 'form', 'base'])
+
+/**
+ * Infers the sandbox tokens a page needs.
+ * @returns Tokens in the spec's order; empty for a page that works fully
+ *   sandboxed
+ */
+export function inferSandbox(evidence: SandboxEvidence): SandboxToken[] {
+  const needed = new Set<SandboxToken>()
+  const scripts = Array.from(evidence.scripts)
+
+  for (const {name, attribs} of evidence.elements) {
+    if (name === 'script' && isJavaScriptType(attribs.type)) {
+      needed.add('allow-scripts')
+    }
+    if (name === 'form') needed.add('allow-forms')
+    if ((name === 'a' || name === 'area') && 'download' in attribs) {
+      needed.add('allow-downloads')
+    }
+    for (const [attr, value] of Object.entries(attribs)) {
+      if (/^on./.test(attr) || /^\s*javascript:/i.test(value)) {
+        needed.add('allow-scripts')
+        scripts.push(value)
+      }
+    }
+    const target = attribs.target?.trim().toLowerCase()
+    if (NAVIGATING_ELEMENTS.has(name) && target) {
+      if (target === '_top' || target === '_parent') {
+        needed.add('allow-top-navigation-by-user-activation')
+      } else if (target !== '_self') {
+        needed.add('allow-popups')
+      }
+    }
+  }
+
+  for (const code of scripts) {
+    for (const [re, token] of SCRIPT_APIS) {
+      if (re.test(code)) needed.add(token)
+    }
+  }
+  return SANDBOX_TOKENS.filter((token) => needed.has(token))
+}
+
+/**
+ * Explains the risks of a token set, one message per problem.
+ */
+export function sandboxWarnings(tokens: readonly SandboxToken[]): string[] {
+  const warnings: string[] = []
+  if (
+    tokens.includes('allow-scripts') &&
+    tokens.includes('allow-same-origin')
+  ) {
+    warnings.push(
+      'sandbox combines allow-scripts with allow-same-origin: scripts keep full access to the origin (storage, cookies, same-origin frames), so the sandbox protects little',
+    )
+  }
+  if (tokens.includes('allow-top-navigation')) {
+    warnings.push(
+      'sandbox allows allow-top-navigation: scripts can navigate the top-level page without user action; prefer allow-top-navigation-by-user-activation',
+    )
+  }
+  return warnings
+}
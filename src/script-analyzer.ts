@@ -0,0 +1,411 @@
+/**
+ * @file script-analyzer.ts
+ * @description
+ *   Static analysis of JavaScript source for network and worker endpoints.
+ *   A small tokenizer skips comments, regex literals and template
+ *   expressions, then URL string literals passed to known APIs are mapped
+ *   to the directive that governs them:
+ *     - fetch, XMLHttpRequest.open, WebSocket, EventSource,
+ *       navigator.sendBeacon                  -> connect-src
+ *     - import()                              -> script-src
+ *     - Worker, SharedWorker,
+ *       serviceWorker.register                -> worker-src
+ *   The same tokens also yield Trusted Types policy names and the DOM XSS
+ *   sinks that Trusted Types enforcement guards.
+ */
+
+import type {DirectiveName, ScriptFinding, TrustedTypesFinding} from './types'
+
+/**
+ * A lexical token with its 1-based position in the source.
+ */
+export interface Token {
+  type: 'identifier' | 'string' | 'template' | 'number' | 'punct' | 'regex'
+  /** Identifier name, punctuator, or cooked string contents. */
+  value: string
+  line: number
+  column: number
+}
+
+/**
+ * An endpoint literal found in a script, before it is attributed to a script.
+ */
+export type ScriptCall = Omit<ScriptFinding, 'script' | 'inline'>
+
+/**
+ * A Trusted Types policy or sink, before it is attributed to a script.
+ */
+export type TrustedTypesCall = Omit<TrustedTypesFinding, 'script' | 'inline'>
+
+// MIME types (besides an empty/missing type) that browsers execute as script
+const JAVASCRIPT_TYPES = new Set([
+  'module',
+  'text/javascript',
+  'application/javascript',
+  'application/ecmascript',
+  'application/x-javascript',
+  'text/ecmascript',
+  'text/jscript',
+  'text/livescript',
+])
+
+/**
+ * Tests whether a `<script type>` value denotes executable JavaScript
+ * (as opposed to JSON, templates, importmaps and other data blocks).
+ */
+export function isJavaScriptType(type: string | undefined): boolean {
+  if (type === undefined) return true
+  const normalized = type.split(';')[0]!.trim().toLowerCase()
+  return !normalized || JAVASCRIPT_TYPES.has(normalized)
+}
+
+// After these tokens a '/' starts a regex literal rather than a division
+const REGEX_PRECEDING_KEYWORDS = new Set([
+  'return',
+  'typeof',
+  'instanceof',
+  'in',
+  'of',
+  'new',
+  'delete',
+  'void',
+  'throw',
+  'case',
+  'do',
+  'else',
+  'yield',
+  'await',
+])
+
+const PUNCTUATORS = [
+  '>>>=',
+  '...',
+  '===',
+  '!==',
+  '**=',
+  '<<=',
+  '>>=',
+  '>>>',
+  '&&=',
+  '||=',
+  '??=',
+  '=>',
+  '==',
+  '!=',
+  '<=',
+  '>=',
+  '&&',
+  '||',
+  '??',
+  '?.',
+  '++',
+  '--',
+  '+=',
+  '-=',
+  '*=',
+  '/=',
+  '%=',
+  '&=',
+  '|=',
+  '^=',
+  '**',
+  '<<',
+  '>>',
+]
+
+/**
+ * Splits JavaScript source into tokens. Comments and whitespace are
+ * dropped; template literals with substitutions become a single
+ * 'template' token holding only the text before the first `${`.
+ */
+export function tokenize(code: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+  let line = 1
+  let lineStart = 0
+
+  const advance = (to: number) => {
+    for (; i < to; i++) {
+      if (code[i] === '\n') {
+        line++
+        lineStart = i + 1
+      }
+    }
+  }
+
+  const regexAllowed = () => {
+    const prev = tokens[tokens.length - 1]
+    if (!prev) return true
+    if (prev.type === 'identifier') {
+      return REGEX_PRECEDING_KEYWORDS.has(prev.value)
+    }
+    if (prev.type === 'punct') return !/^[)\]}]$/.test(prev.value)
+    return false
+  }
+
+  // Returns the index just past a quoted string starting at `from`
+  const skipString = (from: number, quote: string) => {
+    let j = from + 1
+    while (j < code.length && code[j] !== quote && code[j] !== '\n') {
+      j += code[j] === '\\' ? 2 : 1
+    }
+    return j + 1
+  }
+
+  // Returns the index just past a template literal starting at `from`
+  const skipTemplate = (from: number): number => {
+    let j = from + 1
+    while (j < code.length && code[j] !== '`') {
+      if (code[j] === '\\') {
+        j += 2
+      } else if (code[j] === '$' && code[j + 1] === '{') {
+        // Skip the substitution, honouring nested braces and literals
+        let depth = 1
+        j += 2
+        while (j < code.length && depth) {
+          const c = code[j]!
+          if (c === '{') depth++
+          else if (c === '}') depth--
+          if (c === '"' || c === "'") j = skipString(j, c)
+          else if (c === '`') j = skipTemplate(j)
+          else j++
+        }
+      } else {
+        j++
+      }
+    }
+    return j + 1
+  }
+
+  while (i < code.length) {
+    const c = code[i]!
+    const next = code[i + 1]
+
+    if (/\s/.test(c)) {
+      advance(i + 1)
+      continue
+    }
+    if (c === '/' && next === '/') {
+      const end = code.indexOf('\n', i)
+      advance(end === -1 ? code.length : end)
+      continue
+    }
+    if (c === '/' && next === '*') {
+      const end = code.indexOf('*/', i + 2)
+      advance(end === -1 ? code.length : end + 2)
+      continue
+    }
+
+    const token = {line, column: i - lineStart + 1}
+
+    if (c === '"' || c === "'") {
+      const end = skipString(i, c)
+      tokens.push({
+        ...token,
+        type: 'string',
+        value: unescape(code.slice(i + 1, end - 1)),
+      })
+      advance(end)
+    } else if (c === '`') {
+      const end = skipTemplate(i)
+      const raw = code.slice(i + 1, end - 1)
+      const sub = raw.indexOf('${')
+      tokens.push({
+        ...token,
+        type: sub === -1 ? 'string' : 'template',
+        value: unescape(sub === -1 ? raw : raw.slice(0, sub)),
+      })
+      advance(end)
+    } else if (/[A-Za-z_$\u0080-\uffff]/.test(c)) {
+      const match = /^[\w$\u0080-\uffff]+/.exec(code.slice(i))!
+      tokens.push({...token, type: 'identifier', value: match[0]})
+      advance(i + match[0].length)
+    } else if (/\d/.test(c) || (c === '.' && next && /\d/.test(next))) {
+      const match = /^[\d.]+(?:[eE][+-]?\d+)?[\w]*/.exec(code.slice(i))!
+      tokens.push({...token, type: 'number', value: match[0]})
+      advance(i + match[0].length)
+    } else if (c === '/' && regexAllowed()) {
+      // Scan to the closing slash, skipping escapes and character classes
+      let j = i + 1
+      let inClass = false
+      while (j < code.length && code[j] !== '\n') {
+        if (code[j] === '\\') j++
+        else if (code[j] === '[') inClass = true
+        else if (code[j] === ']') inClass = false
+        else if (code[j] === '/' && !inClass) break
+        j++
+      }
+      const flags = /^[a-z]*/.exec(code.slice(j + 1))![0]
+      const end = j + 1 + flags.length
+      tokens.push({...token, type: 'regex', value: code.slice(i, end)})
+      advance(end)
+    } else {
+      const punct = PUNCTUATORS.find((p) => code.startsWith(p, i)) ?? c
+      tokens.push({...token, type: 'punct', value: punct})
+      advance(i + punct.length)
+    }
+  }
+
+  return tokens
+}
+
+const ESCAPES: Record<string, string> = {n: '\n', t: '\t', r: '\r', '\n': ''}
+
+/**
+ * Resolves the common escape sequences inside a string literal.
+ */
+function unescape(raw: string): string {
+  return raw.replace(
+    /\\(u\{[\da-fA-F]+\}|u[\da-fA-F]{4}|x[\da-fA-F]{2}|[\s\S])/g,
+    (_, esc: string) => {
+      if (esc[0] === 'u' || esc[0] === 'x') {
+        return String.fromCodePoint(parseInt(esc.replace(/[ux{}]/g, ''), 16))
+      }
+      return ESCAPES[esc] ?? esc
+    },
+  )
+}
+
+const HTTP_METHODS = /^(?:GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS)$/i
+
+// Constructor / function name -> [reported API, directive]
+const CALLS: Record<string, [string, DirectiveName]> = {
+  fetch: ['fetch', 'connect-src'],
+  WebSocket: ['new WebSocket', 'connect-src'],
+  EventSource: ['new EventSource', 'connect-src'],
+  sendBeacon: ['navigator.sendBeacon', 'connect-src'],
+  import: ['import()', 'script-src'],
+  Worker: ['new Worker', 'worker-src'],
+  SharedWorker: ['new SharedWorker', 'worker-src'],
+}
+
+/**
+ * Finds URL literals passed to network, module and worker APIs.
+ * Template literals contribute their static prefix when it is an
+ * absolute URL, e.g. `https://api.example.com/${id}`.
+ */
+export function analyzeScript(code: string): ScriptCall[] {
+  const tokens = tokenize(code)
+  const calls: ScriptCall[] = []
+
+  const literalAt = (index: number): Token | undefined => {
+    const token = tokens[index]
+    if (token?.type === 'string' && token.value) return token
+    if (token?.type === 'template' && /^[a-z]+:\/\/[^/]+\//i.test(token.value))
+      return token
+    return undefined
+  }
+
+  const push = (api: string, directive: DirectiveName, token: Token) => {
+    calls.push({
+      api,
+      directive,
+      url: token.value,
+      line: token.line,
+      column: token.column,
+    })
+  }
+
+  tokens.forEach((token, i) => {
+    if (token.type !== 'identifier' || tokens[i + 1]?.value !== '(') return
+    const prev = tokens[i - 1]?.value
+
+    // XMLHttpRequest#open(method, url)
+    if (token.value === 'open' && prev === '.') {
+      const method = tokens[i + 2]
+      if (method?.type !== 'string' || !HTTP_METHODS.test(method.value)) return
+      const url = tokens[i + 3]?.value === ',' ? literalAt(i + 4) : undefined
+      if (url) push('XMLHttpRequest.open', 'connect-src', url)
+      return
+    }
+
+    // navigator.serviceWorker.register(url)
+    if (token.value === 'register') {
+      if (prev === '.' && tokens[i - 2]?.value === 'serviceWorker') {
+        const url = literalAt(i + 2)
+        if (url) push('serviceWorker.register', 'worker-src', url)
+      }
+      return
+    }
+
+    const known = CALLS[token.value]
+    // Skip method calls such as `client.fetch(...)`, but keep `window.fetch`
+    if (!known || (prev === '.' && !isGlobalReceiver(tokens[i - 2]))) return
+    if (token.value === 'sendBeacon' && prev !== '.') return
+    const url = literalAt(i + 2)
+    if (url) push(known[0], known[1], url)
+  })
+
+  return calls
+}
+
+function isGlobalReceiver(token: Token | undefined): boolean {
+  return (
+    !!token &&
+    /^(?:window|self|globalThis|navigator|this)$/.test(token.value) &&
+    token.type === 'identifier'
+  )
+}
+
+// Properties whose assignment parses HTML
+const HTML_PROPERTIES = new Set(['innerHTML', 'outerHTML', 'srcdoc'])
+
+/**
+ * Finds `trustedTypes.createPolicy('name', ...)` calls and the DOM XSS
+ * sinks Trusted Types guard: innerHTML, outerHTML and srcdoc assignments,
+ * insertAdjacentHTML, document.write/writeln, eval, Function, and
+ * setTimeout/setInterval with a string.
+ */
+export function analyzeTrustedTypes(code: string): TrustedTypesCall[] {
+  const tokens = tokenize(code)
+  const calls: TrustedTypesCall[] = []
+
+  const push = (kind: TrustedTypesCall['kind'], name: string, token: Token) => {
+    calls.push({kind, name, line: token.line, column: token.column})
+  }
+
+  tokens.forEach((token, i) => {
+    if (token.type !== 'identifier') return
+    const prev = tokens[i - 1]?.value
+    const next = tokens[i + 1]?.value
+
+    if (HTML_PROPERTIES.has(token.value)) {
+      if (prev === '.' && (next === '=' || next === '+=')) {
+        push('sink', token.value, token)
+      }
+      return
+    }
+    if (next !== '(' || prev === 'function') return
+
+    const arg = tokens[i + 2]
+    switch (token.value) {
+      case 'createPolicy':
+        if (prev === '.' && arg?.type === 'string')
+          push('policy', arg.value, arg)
+        break
+      case 'insertAdjacentHTML':
+        if (prev === '.') push('sink', token.value, token)
+        break
+      case 'write':
+      case 'writeln':
+        if (prev === '.' && tokens[i - 2]?.value === 'document') {
+          push('sink', `document.${token.value}`, token)
+        }
+        break
+      case 'eval':
+      case 'Function':
+        if (prev !== '.' || isGlobalReceiver(tokens[i - 2])) {
+          push('sink', token.value, token)
+        }
+        break
+      case 'setTimeout':
+      case 'setInterval':
+        if (arg?.type === 'string' || arg?.type === 'template') {
+          push('sink', token.value, token)
+        }
+        break
+    }
+  })
+
+  return calls
+}
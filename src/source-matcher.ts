@@ -0,0 +1,244 @@
+/**
+ * @file source-matcher.ts
+ * @description
+ *   URL matching as browsers do it (CSP3 "does url match expression in
+ *   origin"): whether a source expression, a source list or a whole policy
+ *   allows a request for a URL from a given page, and whether one source
+ *   expression allows everything another does. Nonces and hashes only
+ *   apply to inline content and never match a URL.
+ *
+ * @example
+ * import { policyAllows } from './source-matcher';
+ *
+ * policyAllows(policy, 'img-src', 'https://img.example.com/a.png', 'https://example.com');
+ */
+
+import {CSPPolicy} from './policy'
+import type {DirectiveName} from './types'
+
+const DEFAULT_PORTS: Record<string, number> = {
+  http: 80,
+  https: 443,
+  ws: 80,
+  wss: 443,
+  ftp: 21,
+}
+
+// [scheme "://"] host [":" port] [path]
+const hostSourceRe =
+  /^(?:([a-z][a-z0-9+.-]*):\/\/)?(\*|(?:\*\.)?[a-z0-9-]+(?:\.[a-z0-9-]+)*)(?::(\d+|\*))?(\/[^\s;,]*)?$/i
+
+/**
+ * A host source split into its parts; undefined for anything else.
+ */
+export interface HostSource {
+  scheme?: string
+  host: string
+  port?: string
+  path?: string
+}
+
+export function parseHostSource(expression: string): HostSource | undefined {
+  const match = hostSourceRe.exec(expression)
+  if (!match) return undefined
+  const [, scheme, host = '', port, path] = match
+  return {
+    scheme: scheme?.toLowerCase(),
+    host: host.toLowerCase(),
+    port,
+    path,
+  }
+}
+
+/**
+ * CSP3 scheme-part matching: a scheme also matches its secure upgrade.
+ */
+export function schemeMatches(expression: string, url: string): boolean {
+  return (
+    expression === url ||
+    (expression === 'http' && url === 'https') ||
+    (expression === 'ws' && ['wss', 'http', 'https'].includes(url)) ||
+    (expression === 'wss' && url === 'https')
+  )
+}
+
+const schemeOf = (url: URL) => url.protocol.slice(0, -1)
+
+const portOf = (url: URL) =>
+  url.port ? Number(url.port) : DEFAULT_PORTS[schemeOf(url)]
+
+const decode = (path: string) => {
+  try {
+    return decodeURIComponent(path)
+  } catch {
+    return path
+  }
+}
+
+function hostSourceMatches(source: HostSource, url: URL, self: URL): boolean {
+  const scheme = schemeOf(url)
+  if (!schemeMatches(source.scheme ?? schemeOf(self), scheme)) return false
+
+  const host = url.hostname.toLowerCase()
+  if (source.host.startsWith('*.')) {
+    if (!host.endsWith(source.host.slice(1))) return false
+  } else if (source.host !== '*' && source.host !== host) {
+    return false
+  }
+
+  if (source.port !== '*') {
+    const port = source.port ? Number(source.port) : DEFAULT_PORTS[scheme]
+    if (port === undefined || port !== portOf(url)) return false
+  }
+
+  if (!source.path || source.path === '/') return true
+  const path = decode(source.path)
+  const target = decode(url.pathname)
+  return path.endsWith('/') ? target.startsWith(path) : target === path
+}
+
+function selfMatches(url: URL, self: URL): boolean {
+  if (url.origin === self.origin) return true
+  // 'self' also matches the secure upgrade of the page's scheme
+  const upgrade =
+    (self.protocol === 'http:' && ['https:', 'wss:'].includes(url.protocol)) ||
+    (self.protocol === 'https:' && url.protocol === 'wss:') ||
+    (self.protocol === 'ws:' && url.protocol === 'wss:')
+  return (
+    upgrade &&
+    url.hostname === self.hostname &&
+    (portOf(url) === portOf(self) ||
+      (!url.port && !self.port && DEFAULT_PORTS[schemeOf(url)] !== undefined))
+  )
+}
+
+const schemeSourceRe = /^([a-z][a-z0-9+.-]*):$/i
+
+// Every scheme a source matches, given the scheme it names (or the page's)
+function schemesMatched(scheme: string | undefined, self?: URL) {
+  const base = scheme ?? self?.protocol.slice(0, -1)
+  if (!base) return undefined
+  return [
+    base,
+    ...['http', 'https', 'ws', 'wss'].filter(
+      (s) => s !== base && schemeMatches(base, s),
+    ),
+  ]
+}
+
+/**
+ * Whether source `a` allows every URL that source `b` allows. Errs on the
+ * side of false.
+ */
+export function covers(a: string, b: string, self?: URL): boolean {
+  const bScheme = schemeSourceRe.exec(b)?.[1]?.toLowerCase()
+  const bHost = bScheme ? undefined : parseHostSource(b)
+  if (!bScheme && (!bHost || b === '*')) return false
+  const bSchemes = schemesMatched(bScheme ?? bHost!.scheme, self)
+  if (!bSchemes) return false
+
+  const value = a.toLowerCase()
+  if (value === '*') {
+    return bSchemes.every(
+      (s) => s === 'http' || s === 'https' || s === self?.protocol.slice(0, -1),
+    )
+  }
+  if (value === "'self'") {
+    if (!self || !bHost || bHost.host !== self.hostname.toLowerCase()) {
+      return false
+    }
+    const scheme = self.protocol.slice(0, -1)
+    if (!bSchemes.every((s) => s === scheme) || bHost.port === '*') {
+      return false
+    }
+    const port = bHost.port ? Number(bHost.port) : DEFAULT_PORTS[scheme]
+    const selfPort = self.port ? Number(self.port) : DEFAULT_PORTS[scheme]
+    return port !== undefined && port === selfPort
+  }
+  const aScheme = schemeSourceRe.exec(value)?.[1]
+  if (aScheme) return bSchemes.every((s) => schemeMatches(aScheme, s))
+
+  const aHost = parseHostSource(a)
+  if (!aHost || !bHost) return false
+  const aSchemes = schemesMatched(aHost.scheme, self)
+  if (!aSchemes || !bSchemes.every((s) => aSchemes.includes(s))) return false
+  if (aHost.host.startsWith('*.')) {
+    if (!bHost.host.endsWith(aHost.host.slice(1))) return false
+  } else if (aHost.host !== '*' && aHost.host !== bHost.host) {
+    return false
+  }
+  if (aHost.port !== '*' && aHost.port !== bHost.port) return false
+
+  if (!aHost.path || aHost.path === '/') return true
+  if (!bHost.path || bHost.path === '/') return false
+  const [aPath, bPath] = [decode(aHost.path), decode(bHost.path)]
+  return aPath.endsWith('/') ? bPath.startsWith(aPath) : aPath === bPath
+}
+
+/**
+ * Whether a source list allows everything source `source` does. With
+ * `self` given, 'self' stands for the page's own origin.
+ */
+export function sourceListCovers(
+  sources: readonly string[],
+  source: string,
+  self?: URL,
+): boolean {
+  if (sources.includes(source)) return true
+  // What a page needs 'self' for is its own origin
+  const target = source === "'self'" && self ? self.origin : source
+  return sources.some((s) => covers(s, target, self))
+}
+
+/**
+ * Whether one source expression allows a request for `url`.
+ * @param self - URL of the page the policy protects
+ */
+export function sourceMatches(
+  expression: string,
+  url: URL,
+  self: URL,
+): boolean {
+  const value = expression.toLowerCase()
+  if (value === '*') {
+    return (
+      ['http:', 'https:'].includes(url.protocol) ||
+      url.protocol === self.protocol
+    )
+  }
+  if (value === "'self'") return selfMatches(url, self)
+  if (value.startsWith("'")) return false
+  if (/^[a-z][a-z0-9+.-]*:$/.test(value)) {
+    return schemeMatches(value.slice(0, -1), schemeOf(url))
+  }
+  const source = parseHostSource(expression)
+  return source ? hostSourceMatches(source, url, self) : false
+}
+
+/**
+ * Whether a source list allows a request for `url`. An empty list, or one
+ * that is just 'none', allows nothing.
+ */
+export function sourceListMatches(
+  sources: readonly string[],
+  url: URL,
+  self: URL,
+): boolean {
+  return sources.some((source) => sourceMatches(source, url, self))
+}
+
+/**
+ * Whether a policy lets the page at `self` load `url` as the kind of
+ * resource `directive` governs, following the directive's fallback chain.
+ */
+export function policyAllows(
+  policy: CSPPolicy | string,
+  directive: DirectiveName,
+  url: URL | string,
+  self: URL | string,
+): boolean {
+  const parsed = typeof policy === 'string' ? CSPPolicy.parse(policy) : policy
+  const sources = parsed.effective(directive)
+  if (!sources) return true
+  return sourceListMatches(sources, new URL(url), new URL(self))
+}
@@ -3,30 +3,13 @@
  * @description Shared types for both CLI and browser versions of the CSP generator
  */
 
+import type {CSPDirective} from './constants'
+
 /**
- * Supported CSP directive names for configuration and output.
- */
-export type DirectiveName =
-  | 'default-src'
-  | 'script-src'
-  | 'style-src'
-  | 'img-src'
-  | 'font-src'
-  | 'connect-src'
-  | 'frame-src'
-  | 'object-src'
-  | 'base-uri'
-  | 'form-action'
-  | 'frame-ancestors'
-  | 'media-src'
-  | 'worker-src'
-  | 'manifest-src'
-  | 'report-uri'
-  | 'report-to'
-  | 'upgrade-insecure-requests'
-  | 'block-all-mixed-content'
-  | 'require-trusted-types-for'
-  | 'sandbox'
+ * Supported CSP directive names for configuration and output, from the
+ * directive registry in constants.ts.
+ */
+export type DirectiveName = CSPDirective
 
 /**
  * Shared logger interface that can be used by both CLI and SecureCSPGenerator.
@@ -34,6 +17,233 @@ export type DirectiveName =
 export interface Logger
   extends Pick<Console, 'error' | 'warn' | 'info' | 'debug'> {}
 
+/**
+ * A URL literal passed to a network, module or worker API in a script.
+ */
+export interface ScriptFinding {
+  /** The API the literal was passed to, e.g. 'fetch' or 'new Worker'. */
+  api: string
+  /** The directive that governs the request. */
+  directive: DirectiveName
+  /** The URL literal as written (possibly relative). */
+  url: string
+  /** URL of the external script, or of the page for inline scripts. */
+  script: string
+  /** True if the literal was found in an inline `<script>`. */
+  inline: boolean
+  /** 1-based line of the literal within the script. */
+  line: number
+  /** 1-based column of the literal within the script. */
+  column: number
+}
+
+/**
+ * A Trusted Types policy a script creates, or a DOM XSS sink it uses that
+ * throws once Trusted Types are enforced unless a policy handles it.
+ */
+export interface TrustedTypesFinding {
+  kind: 'policy' | 'sink'
+  /**
+   * The policy name passed to `trustedTypes.createPolicy`, or the sink,
+   * e.g. 'innerHTML', 'document.write' or 'eval'.
+   */
+  name: string
+  /** URL of the external script, or of the page for inline scripts. */
+  script: string
+  /** True if found in an inline `<script>`. */
+  inline: boolean
+  /** 1-based line within the script. */
+  line: number
+  /** 1-based column within the script. */
+  column: number
+}
+
+/**
+ * Inline content that a policy without 'unsafe-inline' blocks unless it is
+ * allowed by hash, i.e. what needs refactoring into external files otherwise.
+ */
+export interface InlineFinding {
+  /**
+   * A `<style>` element, a `style` attribute, an `on*` event handler
+   * attribute, or a `javascript:` URL in href, src, action or formaction.
+   */
+  kind: 'style-element' | 'style-attribute' | 'event-handler' | 'javascript-url'
+  /** The directive that governs it, e.g. 'style-src-attr'. */
+  directive: DirectiveName
+  /** Start tag of the element as written in the document. */
+  element: string
+  /** The attribute holding the content, for all but style elements. */
+  attribute?: string
+  /** 1-based line of the element in the document. */
+  line: number
+  /**
+   * The exact element text or attribute value; for `javascript:` URLs, the
+   * URL as the browser parses it (trimmed, without tabs or newlines).
+   */
+  content: string
+  /** Hash sources for the content, one per configured algorithm. */
+  hashes: string[]
+}
+
+/**
+ * How precisely a resource URL becomes a source expression:
+ *  - scheme: `https:`, any host
+ *  - origin: `https://cdn.example.com`, the whole host
+ *  - path: `https://cdn.example.com/libs/`, the resource's directory
+ *  - url: `https://cdn.example.com/libs/app.js`, the file itself
+ */
+export type SourceGranularity = 'scheme' | 'origin' | 'path' | 'url'
+
+/**
+ * A source added to the policy for a resource URL, and what it allows.
+ */
+export interface SourceFinding {
+  directive: DirectiveName
+  /** The source expression in the policy. */
+  source: string
+  /** The first resource URL that produced the source. */
+  url: string
+  granularity: SourceGranularity
+  /**
+   * Whether the host serves files anyone can publish (npm and GitHub CDNs,
+   * public buckets), so a broad source admits other people's code.
+   */
+  sharedHost: boolean
+  /** What the source lets a page load, and how it can be abused. */
+  impact: string
+}
+
+/**
+ * Options for replacing sibling subdomains with a wildcard source.
+ */
+export interface WildcardOptions {
+  /**
+   * Distinct subdomains of one registrable domain, in one directive, that
+   * trigger a collapse (default: 5).
+   */
+  threshold?: number
+  /**
+   * Directives never collapsed, together with the fallback that governs
+   * them when they are unset (default: script-src, script-src-elem and
+   * worker-src, where a wildcard lets in scripts from hosts nobody
+   * reviewed).
+   */
+  exclude?: readonly DirectiveName[]
+}
+
+/**
+ * Sibling host sources that were replaced by one wildcard source.
+ */
+export interface WildcardCollapse {
+  directive: DirectiveName
+  /** The wildcard source added, e.g. `https://*.cdn.example.com`. */
+  wildcard: string
+  /** The registrable domain the hosts share, per the Public Suffix List. */
+  domain: string
+  /** The sources it replaced. */
+  replaced: string[]
+}
+
+/**
+ * A source or directive removed because it allowed nothing more.
+ */
+export interface MinimizeChange {
+  directive: DirectiveName
+  /** The source removed; undefined when the whole directive was. */
+  source?: string
+  /** Why it was redundant. */
+  reason: string
+}
+
+/**
+ * A step taken to fit the policy into maxHeaderBytes.
+ */
+export interface HeaderBudgetStep {
+  step: 'minimize' | 'collapse-wildcards' | 'hashes-to-nonce'
+  /** Size of the policy before the step, in bytes. */
+  before: number
+  /** Size of the policy after the step, in bytes. */
+  after: number
+  /** What the step changed, one line per source, wildcard or directive. */
+  changes: string[]
+}
+
+/**
+ * Details gathered while analyzing a page, beyond the policy itself.
+ */
+export interface GeneratorReport {
+  /** Endpoints found by script analysis (empty unless analyzeScripts is set). */
+  scriptFindings: ScriptFinding[]
+  /** Inline `<style>` blocks and `style` attributes, in document order. */
+  inlineStyles: InlineFinding[]
+  /** Inline event handlers and `javascript:` URLs, in document order. */
+  inlineHandlers: InlineFinding[]
+  /**
+   * Trusted Types policies and DOM XSS sinks in inline scripts, and in
+   * external scripts when analyzeScripts is set.
+   */
+  trustedTypes: TrustedTypesFinding[]
+  /** Policies the page already delivers, in header-then-document order. */
+  existingPolicies: ExistingPolicy[]
+  /** Sources added for resource URLs, one per directive and source. */
+  sources: SourceFinding[]
+  /** Wildcards that replaced sibling subdomains (see collapseWildcards). */
+  wildcards: WildcardCollapse[]
+  /** Sources and directives dropped as redundant (see minimize). */
+  minimized: MinimizeChange[]
+  /** Steps taken to fit the policy into maxHeaderBytes, in order. */
+  headerBudget: HeaderBudgetStep[]
+}
+
+/**
+ * A policy already delivered with the analyzed page.
+ */
+export interface ExistingPolicy {
+  /**
+   * Where the policy came from: the Content-Security-Policy header, the
+   * Content-Security-Policy-Report-Only header, or a `<meta http-equiv>` tag.
+   */
+  source: 'header' | 'report-only-header' | 'meta'
+  /** The serialized policy. */
+  policy: string
+}
+
+/**
+ * Options for the trusted-types directive.
+ */
+export interface TrustedTypesOptions {
+  /** Policy names to allow beyond those found in scripts. */
+  policies?: string[]
+  /** Allow the 'default' policy, which browsers apply to every sink. */
+  defaultPolicy?: boolean
+  /** Add 'allow-duplicates', so a name may be registered more than once. */
+  allowDuplicates?: boolean
+}
+
+/**
+ * A sandbox token, relaxing one restriction of the sandbox directive.
+ */
+export type SandboxToken =
+  | 'allow-downloads'
+  | 'allow-forms'
+  | 'allow-modals'
+  | 'allow-orientation-lock'
+  | 'allow-pointer-lock'
+  | 'allow-popups'
+  | 'allow-popups-to-escape-sandbox'
+  | 'allow-presentation'
+  | 'allow-same-origin'
+  | 'allow-scripts'
+  | 'allow-storage-access-by-user-activation'
+  | 'allow-top-navigation'
+  | 'allow-top-navigation-by-user-activation'
+  | 'allow-top-navigation-to-custom-protocols'
+
+/**
+ * Digest algorithms for hash sources and Subresource Integrity.
+ */
+export type HashAlgorithm = 'sha256' | 'sha384' | 'sha512'
+
 /**
  * Shared presets type that can be used by both CLI and SecureCSPGenerator.
  */
@@ -53,6 +263,41 @@ export interface SecureCSPGeneratorOptions {
    */
   presets?: CSPPresets
 
+  /**
+   * How precisely resource URLs become sources (default: 'origin'): one
+   * mode for every directive, or a mode per directive, e.g.
+   * `{'script-src': 'path'}`, with unlisted directives at 'origin'.
+   * getReport().sources explains what each resulting source allows.
+   */
+  sourceGranularity?:
+    | SourceGranularity
+    | {readonly [D in DirectiveName]?: SourceGranularity}
+
+  /**
+   * If set, replaces many sibling subdomains in a directive with one
+   * wildcard, e.g. `https://*.cdn.example.com`, never above the
+   * registrable domain. Every collapse is listed in
+   * getReport().wildcards (default: false).
+   */
+  collapseWildcards?: boolean | WildcardOptions
+
+  /**
+   * If true, drops sources another source of the same directive already
+   * allows, and directives identical to the one they fall back to, without
+   * changing what the policy allows. Every removal is listed in
+   * getReport().minimized (default: false).
+   */
+  minimize?: boolean
+
+  /**
+   * Largest policy, in UTF-8 bytes, that generate() may return (default:
+   * 0 => unlimited). A larger policy is minimized, then has sibling
+   * subdomains collapsed, then has inline hashes replaced by the nonce,
+   * until it fits; each step is listed in getReport().headerBudget.
+   * If it still does not fit, generate() throws a HeaderBudgetError.
+   */
+  maxHeaderBytes?: number
+
   /**
    * Allow HTTP URLs in addition to HTTPS (default: false => HTTPS-only).
    */
@@ -73,6 +318,39 @@ export interface SecureCSPGeneratorOptions {
    */
   allowUnsafeInlineStyle?: boolean
 
+  /**
+   * If true, hashes each inline `<style>` block into style-src and each
+   * `style` attribute as set by attributeHashes, so the style policy needs
+   * no 'unsafe-inline' (which browsers ignore once hashes are present).
+   */
+  hashInlineStyles?: boolean
+
+  /**
+   * If true, hashes each `on*` event handler as set by attributeHashes and
+   * each `javascript:` URL into script-src, both with 'unsafe-hashes'.
+   * Otherwise they run only under an 'unsafe-inline' that no nonce or hash
+   * cancels, and are just reported.
+   */
+  hashInlineHandlers?: boolean
+
+  /**
+   * Where hashes of attribute values go: 'attr-directive' puts them in the
+   * -attr directive (style-src-attr, script-src-attr), 'unsafe-hashes' in
+   * the main one (style-src, script-src). Both add 'unsafe-hashes', without which browsers never
+   * match attribute values against hashes (default: 'attr-directive').
+   */
+  attributeHashes?: 'attr-directive' | 'unsafe-hashes'
+
+  /**
+   * If true, also emits the CSP3 split directives: script-src-elem and
+   * style-src-elem copy the element sources, while script-src-attr and
+   * style-src-attr allow only attribute hashes ('none' when there are
+   * none, 'unsafe-inline' if the main directive allows it). The main
+   * directives stay as the fallback for CSP2 browsers. Attribute hashes
+   * always go to the -attr directives in this mode.
+   */
+  splitDirectives?: boolean
+
   /**
    * If true, adds 'unsafe-eval' to 'script-src' (overrides hash-based safety)
    */
@@ -80,9 +358,38 @@ export interface SecureCSPGeneratorOptions {
 
   /**
    * Maximum allowed bytes for HTML download. 0 = unlimited (default: 0).
+   * Also caps scripts and stylesheets downloaded for analysis, following
+   * or integrity, which stay limited to 5 MiB when this is 0.
    */
   maxBodySize?: number
 
+  /**
+   * If true, downloads linked stylesheets (and their @imports) to discover
+   * font-src and img-src sources, using the same fetch limits as the page.
+   */
+  followStylesheets?: boolean
+
+  /**
+   * Maximum stylesheet nesting followed when followStylesheets is set;
+   * 1 = only stylesheets referenced by the page (default: 3).
+   */
+  maxStylesheetDepth?: number
+
+  /**
+   * If true, tokenizes inline and external scripts (downloaded with the same
+   * fetch limits as the page) to find fetch/XHR/WebSocket/EventSource/beacon
+   * endpoints, dynamic imports and worker scripts.
+   */
+  analyzeScripts?: boolean
+
+  /**
+   * If true, downloads external scripts, stylesheets and module preloads
+   * (with the same fetch limits as the page) and computes sha384 Subresource
+   * Integrity values for them. Third-party resources served without CORS
+   * headers are skipped with a warning, as SRI would block them.
+   */
+  integrity?: boolean
+
   /**
    * Options to forward to fetch (headers, credentials, etc.).
    */
@@ -104,9 +411,27 @@ export interface SecureCSPGeneratorOptions {
   requireTrustedTypes?: boolean
 
   /**
-   * the format of the output
+   * Emits a trusted-types directive listing the policy names scripts create
+   * (see {@link GeneratorReport.trustedTypes}) plus these. Also emitted,
+   * with discovered names only, when requireTrustedTypes is set. Without
+   * any name the directive is left out, so policy creation is unrestricted.
+   */
+  trustedTypes?: TrustedTypesOptions
+
+  /**
+   * the format of the output; nginx, apache, caddy and haproxy emit
+   * web server configuration snippets, meta an HTML `<meta>` element
    */
-  outputFormat?: 'header' | 'raw' | 'json' | 'csp-only'
+  outputFormat?:
+    | 'header'
+    | 'raw'
+    | 'json'
+    | 'csp-only'
+    | 'nginx'
+    | 'apache'
+    | 'caddy'
+    | 'haproxy'
+    | 'meta'
 
   /**
    * If true, adds 'strict-dynamic' to 'script-src'
@@ -128,6 +453,12 @@ export interface SecureCSPGeneratorOptions {
    */
   useHashes?: boolean
 
+  /**
+   * Algorithms used for inline content hashes; one `'shaXXX-...'` source is
+   * emitted per algorithm (default: ['sha256']).
+   */
+  hashAlgorithms?: readonly HashAlgorithm[]
+
   /**
    * If true, adds 'upgrade-insecure-requests' directive
    */
@@ -144,7 +475,103 @@ export interface SecureCSPGeneratorOptions {
   restrictFraming?: boolean
 
   /**
-   * If true, adds sandbox directive with common permissions
+   * If true, the policy is delivered in a Content-Security-Policy-Report-Only
+   * header, so violations are reported but not blocked (default: false).
+   */
+  reportOnly?: boolean
+
+  /**
+   * Absolute URL that receives violation reports. Adds report-uri and
+   * report-to directives and a matching Reporting-Endpoints header.
+   */
+  reportUri?: string
+
+  /**
+   * Reporting group name used by report-to and Reporting-Endpoints
+   * (default: 'csp-endpoint').
+   */
+  reportGroup?: string
+
+  /**
+   * Adds a sandbox directive: an explicit list of tokens (an empty list
+   * sandboxes the page fully), or 'infer' for the minimal set the page's
+   * markup and scripts need. Combining allow-scripts with allow-same-origin
+   * is allowed, with a warning.
+   */
+  sandbox?: readonly SandboxToken[] | 'infer'
+
+  /**
+   * If true, adds a sandbox directive inferred from the page.
+   * @deprecated Use `sandbox: 'infer'`
    */
   useSandbox?: boolean
 }
+
+/**
+ * Options for crawling a site and merging the policies of its pages.
+ */
+export interface SiteCrawlerOptions extends SecureCSPGeneratorOptions {
+  /**
+   * How many links deep to follow from the start page (default: 2).
+   */
+  maxDepth?: number
+
+  /**
+   * Maximum number of pages to analyze (default: 50).
+   */
+  maxPages?: number
+
+  /**
+   * Number of pages fetched in parallel (default: 4).
+   */
+  concurrency?: number
+
+  /**
+   * Upper bound on page requests started per second. 0 = unlimited (default: 5).
+   */
+  requestsPerSecond?: number
+
+  /**
+   * If true, skips paths disallowed by the site's robots.txt (default: true).
+   */
+  respectRobotsTxt?: boolean
+
+  /**
+   * User agent token matched against robots.txt groups (default: 'csp-generator').
+   */
+  userAgent?: string
+}
+
+/**
+ * Options understood by the command-line interface on top of the generator options.
+ */
+export interface CLIOptions extends SiteCrawlerOptions {
+  /**
+   * Path of a local HTML file to analyze instead of fetching `url`.
+   * The special value '-' reads the document from stdin.
+   */
+  file?: string
+
+  /**
+   * If true, crawls same-origin links from `url` and merges their policies.
+   */
+  crawl?: boolean
+
+  /**
+   * If true, compares the generated policy with the policies the page
+   * already delivers.
+   */
+  compare?: boolean
+
+  /**
+   * If true, prints the analyzed document with the policy inserted as a
+   * `<meta>` tag at the start of `<head>`.
+   */
+  injectMeta?: boolean
+
+  /**
+   * If true, prints the analyzed document with integrity and crossorigin
+   * attributes on the resources that have a Subresource Integrity value.
+   */
+  injectIntegrity?: boolean
+}
@@ -0,0 +1,145 @@
+/**
+ * @file wildcards.ts
+ * @description
+ *   An optional pass over a sources map that replaces many sibling
+ *   subdomains, e.g. `https://a1.cdn.example.com` … `https://a9.cdn.example.com`,
+ *   with one wildcard source such as `https://*.cdn.example.com`.
+ *   Registrable domains come from the Public Suffix List bundled with tldts
+ *   (private suffixes included), so hosts are never collapsed into
+ *   `*.co.uk` or `*.github.io`.
+ */
+
+import {getDomain} from 'tldts'
+import {
+  CSP_DIRECTIVES,
+  directiveChain,
+  isDirectiveName,
+  type DirectiveSpec,
+} from './constants'
+import type {DirectiveName, WildcardCollapse, WildcardOptions} from './types'
+
+/** Distinct subdomains of one registrable domain that trigger a collapse. */
+export const DEFAULT_WILDCARD_THRESHOLD = 5
+
+/** Directives left alone unless configured otherwise. */
+export const DEFAULT_WILDCARD_EXCLUDE: readonly DirectiveName[] = [
+  'script-src',
+  'script-src-elem',
+  'worker-src',
+]
+
+/**
+ * Checks the collapseWildcards option.
+ * @throws Error on a threshold below 2 or an unknown directive
+ */
+export function validateWildcardOptions(
+  option: boolean | WildcardOptions | undefined,
+): void {
+  if (typeof option !== 'object') return
+  const {threshold, exclude = []} = option
+  if (
+    threshold !== undefined &&
+    !(Number.isInteger(threshold) && threshold >= 2)
+  ) {
+    throw new Error(
+      'collapseWildcards.threshold must be an integer of at least 2',
+    )
+  }
+  for (const dir of exclude) {
+    if (!isDirectiveName(dir)) {
+      throw new Error(`Unknown CSP directive "${dir}"`)
+    }
+  }
+}
+
+// A host source without a path: optional scheme, host, optional port
+const hostSourceRe =
+  /^((?:[a-z][a-z0-9+.-]*:\/\/)?)([a-z0-9-]+(?:\.[a-z0-9-]+)+)(:(?:\d+|\*))?$/i
+
+// The closest domain that all hosts are strict subdomains of, never above
+// their registrable domain
+function commonParent(hosts: string[], domain: string): string {
+  const labels = hosts.map((host) => host.split('.').reverse())
+  const first = labels[0]!
+  let depth = domain.split('.').length
+  while (
+    labels.every((l) => l.length > depth + 1 && l[depth] === first[depth])
+  ) {
+    depth++
+  }
+  return first.slice(0, depth).reverse().join('.')
+}
+
+/**
+ * Replaces sibling subdomain sources with wildcards, in place. Only
+ * source-list directives and sources without a path are considered; hosts
+ * are grouped by scheme, port and registrable domain. Excluded directives
+ * keep the directive they fall back to in `sources` unchanged as well.
+ * @returns One entry per wildcard added, for review
+ */
+export function collapseWildcards(
+  sources: Map<DirectiveName, Set<string>>,
+  options: WildcardOptions = {},
+): WildcardCollapse[] {
+  const {
+    threshold = DEFAULT_WILDCARD_THRESHOLD,
+    exclude = DEFAULT_WILDCARD_EXCLUDE,
+  } = options
+  const collapses: WildcardCollapse[] = []
+  // An excluded directive the map leaves out is governed by its fallback,
+  // e.g. default-src when there is no script-src, so that stays too
+  const excluded = new Set(
+    exclude.flatMap((dir) => {
+      const governing = directiveChain(dir).find((d) => sources.has(d))
+      return governing ? [dir, governing] : [dir]
+    }),
+  )
+
+  for (const [directive, values] of sources) {
+    const {grammar}: DirectiveSpec = CSP_DIRECTIVES[directive]
+    if (grammar !== 'source-list' || excluded.has(directive)) continue
+
+    const groups = new Map<
+      string,
+      {prefix: string; port: string; domain: string; hosts: Set<string>}
+    >()
+    const members = new Map<string, string>()
+    for (const source of values) {
+      const match = hostSourceRe.exec(source)
+      if (!match) continue
+      const [, prefix = '', name = '', port = ''] = match
+      const host = name.toLowerCase()
+      const domain = getDomain(host, {allowPrivateDomains: true})
+      if (!domain || domain === host) continue
+      const key = `${prefix.toLowerCase()}${domain}${port}`
+      let group = groups.get(key)
+      if (!group) {
+        group = {prefix: prefix.toLowerCase(), port, domain, hosts: new Set()}
+        groups.set(key, group)
+      }
+      group.hosts.add(host)
+      members.set(source, key)
+    }
+
+    const replacements = new Map<string, string>()
+    for (const [key, {prefix, port, domain, hosts}] of groups) {
+      if (hosts.size < threshold) continue
+      const wildcard = `${prefix}*.${commonParent([...hosts], domain)}${port}`
+      const replaced = [...members].filter(([, k]) => k === key)
+      for (const [source] of replaced) replacements.set(source, wildcard)
+      collapses.push({
+        directive,
+        wildcard,
+        domain,
+        replaced: replaced.map(([source]) => source),
+      })
+    }
+    if (replacements.size) {
+      sources.set(
+        directive,
+        new Set(Array.from(values, (v) => replacements.get(v) ?? v)),
+      )
+    }
+  }
+  return collapses
+}
@@ -0,0 +1,99 @@
+import {describe, expect, test} from 'bun:test'
+import {
+  fitHeaderBudget,
+  hashesToNonce,
+  HeaderBudgetError,
+  headerBytes,
+  largestDirectives,
+} from '../src/budget'
+import type {DirectiveName} from '../src/types'
+
+describe('headerBytes', () => {
+  test('should count UTF-8 bytes', () => {
+    expect(headerBytes("default-src 'self'")).toBe(18)
+    expect(headerBytes('é')).toBe(2)
+  })
+})
+
+describe('largestDirectives', () => {
+  test('should sort directives by size', () => {
+    const policy =
+      "default-src 'self'; img-src https://a.example.com https://b.example.com; upgrade-insecure-requests"
+    expect(largestDirectives(policy, 2)).toEqual([
+      {directive: 'img-src', bytes: 51},
+      {directive: 'upgrade-insecure-requests', bytes: 25},
+    ])
+  })
+})
+
+describe('hashesToNonce', () => {
+  test('should replace element hashes but not attribute hashes', () => {
+    const sources = new Map<DirectiveName, Set<string>>([
+      ['script-src', new Set(["'self'", "'sha256-a='", "'sha384-b='"])],
+      ['script-src-attr', new Set(["'unsafe-hashes'", "'sha256-c='"])],
+      ['style-src', new Set(["'unsafe-hashes'", "'sha256-d='"])],
+    ])
+    expect(hashesToNonce(sources, 'abc')).toEqual([
+      'script-src: 2 hash(es) replaced by the nonce',
+    ])
+    expect(Array.from(sources.get('script-src')!)).toEqual([
+      "'self'",
+      "'nonce-abc'",
+    ])
+    expect(sources.get('script-src-attr')!.size).toBe(2)
+    expect(sources.get('style-src')!.size).toBe(2)
+  })
+})
+
+describe('fitHeaderBudget', () => {
+  const self = new URL('https://example.com')
+  const make = () =>
+    new Map<DirectiveName, Set<string>>([
+      ['default-src', new Set(["'self'"])],
+      ['img-src', new Set(["'self'"])],
+      ['script-src', new Set(["'sha256-a='", "'sha256-b='"])],
+    ])
+
+  test('should stop at the first step that fits', () => {
+    const sources = make()
+    const result = fitHeaderBudget(sources, 60, {self, nonce: 'n'})
+    expect(result.policy).toBe(
+      "default-src 'self'; script-src 'sha256-a=' 'sha256-b='",
+    )
+    expect(result.steps).toEqual([
+      {
+        step: 'minimize',
+        before: 70,
+        after: 54,
+        changes: ['img-src: same as default-src, which it falls back to'],
+      },
+    ])
+    expect(result.usedNonce).toBe(false)
+    expect(sources.has('img-src')).toBe(false)
+  })
+
+  test('should leave sources alone without a budget', () => {
+    const sources = make()
+    expect(fitHeaderBudget(sources, 0, {self, nonce: 'n'}).steps).toEqual([])
+    expect(sources.size).toBe(3)
+  })
+
+  test('should throw when the last step is not enough', () => {
+    expect(() => fitHeaderBudget(make(), 10, {self, nonce: 'n'})).toThrow(
+      HeaderBudgetError,
+    )
+  })
+})
+
+describe('HeaderBudgetError', () => {
+  test('should list the largest directives', () => {
+    const error = new HeaderBudgetError(120, 100, [
+      {directive: 'script-src', bytes: 80},
+    ])
+    expect(error).toBeInstanceOf(Error)
+    expect(error.name).toBe('HeaderBudgetError')
+    expect(error.message).toBe(
+      'Policy is 120 bytes, over the 100-byte budget; largest directives: script-src (80 bytes)',
+    )
+  })
+})
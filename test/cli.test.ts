@@ -6,7 +6,14 @@ import {
   main,
   parseFetchOptions,
   parsePresets,
+  parseSandbox,
+  parseSourceGranularity,
+  parseTrustedTypes,
+  readHtmlInput,
 } from '../src/cli'
+import {mkdtemp, rm, writeFile} from 'node:fs/promises'
+import {tmpdir} from 'node:os'
+import {join} from 'node:path'
 
 // Mock console.error and console.log
 const originalConsoleError = console.error
@@ -141,6 +148,49 @@ describe('CLI', () => {
     })
   })
 
+  describe('parseTrustedTypes', () => {
+    test('should build trusted-types options', () => {
+      expect(parseTrustedTypes(undefined, false)).toBeUndefined()
+      expect(parseTrustedTypes('app, default,', false)).toEqual({
+        policies: ['app', 'default'],
+        allowDuplicates: false,
+      })
+      expect(parseTrustedTypes(undefined, true)).toEqual({
+        policies: [],
+        allowDuplicates: true,
+      })
+    })
+  })
+
+  describe('parseSandbox', () => {
+    test('should parse modes and token lists', () => {
+      expect(parseSandbox(undefined)).toBeUndefined()
+      expect(parseSandbox('infer')).toBe('infer')
+      expect(parseSandbox('none')).toEqual([])
+      expect(parseSandbox('allow-scripts, allow-forms')).toEqual([
+        'allow-forms',
+        'allow-scripts',
+      ])
+      expect(() => parseSandbox('allow-all')).toThrow(
+        'Unknown sandbox token "allow-all"',
+      )
+    })
+  })
+
+  describe('parseSourceGranularity', () => {
+    test('should parse one mode or modes per directive', () => {
+      expect(parseSourceGranularity(undefined)).toBeUndefined()
+      expect(parseSourceGranularity('path')).toBe('path')
+      expect(parseSourceGranularity('script-src:url, img-src:origin')).toEqual({
+        'script-src': 'url',
+        'img-src': 'origin',
+      })
+      expect(() => parseSourceGranularity('script-src:host')).toThrow(
+        'Invalid source granularity "host"',
+      )
+    })
+  })
+
   describe('parsePresets', () => {
     test('should parse presets string correctly', () => {
       const presets = 'script-src:example.com,cdn.com;style-src:styles.com'
@@ -180,6 +230,20 @@ describe('CLI', () => {
       })
     })
 
+    test('should keep URLs and value-less directives', () => {
+      expect(
+        parsePresets(
+          'connect-src:https://api.example.com,wss://ws.example.com;upgrade-insecure-requests;script-src',
+        ),
+      ).toEqual({
+        'connect-src': Object.freeze([
+          'https://api.example.com',
+          'wss://ws.example.com',
+        ]),
+        'upgrade-insecure-requests': Object.freeze([]),
+      })
+    })
+
     test('should handle empty values in presets', () => {
       const presets = 'script-src:;style-src:value'
       const result = parsePresets(presets)
@@ -264,6 +328,628 @@ describe('CLI', () => {
       const result = formatOutput('', {outputFormat: 'header'} as any)
       expect(result).toBe('Content-Security-Policy: ')
     })
+
+    test('should emit a report-only header', () => {
+      const result = formatOutput(csp, {
+        outputFormat: 'header',
+        reportOnly: true,
+      })
+      expect(result).toBe(
+        "Content-Security-Policy-Report-Only: default-src 'self'; object-src 'none'",
+      )
+    })
+
+    test('should emit reporting endpoint headers', () => {
+      const result = formatOutput(csp, {
+        outputFormat: 'header',
+        reportUri: 'https://example.com/csp',
+      })
+      expect(result.split('\n')).toEqual([
+        "Content-Security-Policy: default-src 'self'; object-src 'none'",
+        'Reporting-Endpoints: csp-endpoint="https://example.com/csp"',
+        'Report-To: {"group":"csp-endpoint","max_age":10886400,"endpoints":[{"url":"https://example.com/csp"}]}',
+      ])
+    })
+
+    test('should format as an nginx snippet', () => {
+      const result = formatOutput(csp, {outputFormat: 'nginx'})
+      expect(result).toBe(
+        `add_header Content-Security-Policy "default-src 'self'; object-src 'none'" always;`,
+      )
+    })
+
+    test('should format the report-only variant for Apache', () => {
+      const result = formatOutput(csp, {
+        outputFormat: 'apache',
+        reportOnly: true,
+      })
+      expect(result).toBe(
+        `Header always set Content-Security-Policy-Report-Only "default-src 'self'; object-src 'none'"`,
+      )
+    })
+
+    test('should format as a meta tag', () => {
+      const result = formatOutput(`${csp}; frame-ancestors 'none'`, {
+        outputFormat: 'meta',
+        logger: {warn: mock(() => {})} as any,
+      })
+      expect(result).toBe(
+        `<meta http-equiv="Content-Security-Policy" content="default-src 'self'; object-src 'none'">`,
+      )
+    })
+
+    test('should include reporting headers in JSON', () => {
+      const result = JSON.parse(
+        formatOutput(csp, {
+          outputFormat: 'json',
+          reportOnly: true,
+          reportUri: 'https://example.com/csp',
+          reportGroup: 'default',
+        }),
+      )
+      expect(Object.keys(result)).toEqual([
+        'Content-Security-Policy-Report-Only',
+        'Reporting-Endpoints',
+        'Report-To',
+      ])
+      expect(result['Reporting-Endpoints']).toBe(
+        'default="https://example.com/csp"',
+      )
+    })
+  })
+
+  describe('reporting options', () => {
+    test('should accept server config formats', () => {
+      process.argv = ['node', 'cli.ts', 'https://example.com', '-f', 'caddy']
+      process.env = {}
+      expect(getOptions().outputFormat).toBe('caddy')
+    })
+
+    test('should parse reporting flags', () => {
+      process.argv = [
+        'node',
+        'cli.ts',
+        'https://example.com',
+        '--report-only',
+        'true',
+        '--report-uri',
+        'https://example.com/csp',
+        '--report-group',
+        'csp',
+      ]
+      process.env = {}
+      const options = getOptions()
+      expect(options.reportOnly).toBe(true)
+      expect(options.reportUri).toBe('https://example.com/csp')
+      expect(options.reportGroup).toBe('csp')
+    })
+
+    test('should read reporting options from the environment', () => {
+      process.argv = ['node', 'cli.ts', 'https://example.com']
+      process.env = {
+        CSP_REPORT_ONLY: 'true',
+        CSP_REPORT_URI: 'https://example.com/csp',
+      }
+      const options = getOptions()
+      expect(options.reportOnly).toBe(true)
+      expect(options.reportUri).toBe('https://example.com/csp')
+    })
+  })
+
+  describe('local HTML input', () => {
+    let dir: string
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'csp-cli-'))
+    })
+
+    afterEach(async () => {
+      await rm(dir, {recursive: true, force: true})
+    })
+
+    test('should parse --file and use the URL as base', () => {
+      process.argv = [
+        'node',
+        'cli.ts',
+        'https://example.com',
+        '--file',
+        'dist/index.html',
+      ]
+      const options = getOptions()
+      expect(options.file).toBe('dist/index.html')
+      expect(options.url).toBe('https://example.com')
+    })
+
+    test('should treat a lone dash as stdin', () => {
+      process.argv = [
+        'node',
+        'cli.ts',
+        '-',
+        '--base-url',
+        'https://example.com',
+      ]
+      const options = getOptions()
+      expect(options.file).toBe('-')
+      expect(options.url).toBe('https://example.com')
+    })
+
+    test('should read HTML from a file', async () => {
+      const path = join(dir, 'index.html')
+      await writeFile(path, '<html><body>hello</body></html>')
+      expect(await readHtmlInput(path)).toBe('<html><body>hello</body></html>')
+    })
+
+    test('should generate a policy from a file without a URL', async () => {
+      const path = join(dir, 'index.html')
+      await writeFile(
+        path,
+        '<html><body><script src="https://cdn.example.com/a.js"></script></body></html>',
+      )
+      process.argv = [
+        'node',
+        'cli.ts',
+        '--file',
+        path,
+        '--allow-private-origins',
+        'true',
+        '-f',
+        'raw',
+      ]
+      process.env = {}
+      mockConsoleLog.mockClear()
+
+      await main()
+
+      expect(processExitCalls).toEqual([])
+      expect(mockConsoleLog.mock.calls[0]?.[0]).toContain(
+        'https://cdn.example.com',
+      )
+    })
+  })
+
+  describe('evaluate command', () => {
+    test('should print findings and fail at the default severity', async () => {
+      process.argv = [
+        'node',
+        'cli.ts',
+        'evaluate',
+        "script-src 'unsafe-inline'; object-src 'none'",
+      ]
+      process.env = {}
+      mockConsoleLog.mockClear()
+
+      await main()
+
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        expect.stringContaining('[HIGH] script-src:'),
+      )
+      expect(processExitCalls).toEqual([1])
+    })
+
+    test('should pass when findings are below --fail-on', async () => {
+      process.argv = [
+        'node',
+        'cli.ts',
+        'evaluate',
+        "Content-Security-Policy: default-src 'none'; script-src 'self'",
+        '--fail-on',
+        'high',
+      ]
+      process.env = {}
+
+      await main()
+
+      expect(processExitCalls).toEqual([])
+    })
+
+    test('should fail at a lower --fail-on threshold', async () => {
+      process.argv = [
+        'node',
+        'cli.ts',
+        'evaluate',
+        "default-src 'none'; script-src 'self'",
+        '--fail-on',
+        'medium',
+      ]
+      process.env = {}
+
+      await main()
+
+      expect(processExitCalls).toEqual([1])
+    })
+
+    test('should output JSON findings', async () => {
+      process.argv = [
+        'node',
+        'cli.ts',
+        'evaluate',
+        "script-src 'unsafe-eval'",
+        '--format',
+        'json',
+        '--fail-on',
+        'info',
+      ]
+      process.env = {}
+      mockConsoleLog.mockClear()
+
+      await main()
+
+      const findings = JSON.parse(mockConsoleLog.mock.calls[0]?.[0])
+      expect(findings.map((f: any) => f.id)).toContain('script-unsafe-eval')
+      expect(processExitCalls).toEqual([1])
+    })
+
+    test('should reject an unknown severity', async () => {
+      process.argv = [
+        'node',
+        'cli.ts',
+        'evaluate',
+        "script-src 'self'",
+        '--fail-on',
+        'critical',
+      ]
+      process.env = {}
+
+      await main()
+
+      expect(processExitCalls).toEqual([1])
+      expect(mockConsoleError).toHaveBeenCalledWith(
+        'Error:',
+        expect.stringContaining('Invalid severity'),
+      )
+    })
+  })
+
+  describe('compare mode', () => {
+    let dir: string
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'csp-cli-'))
+    })
+
+    afterEach(async () => {
+      await rm(dir, {recursive: true, force: true})
+    })
+
+    test('should print the differences with the live policy', async () => {
+      const path = join(dir, 'index.html')
+      await writeFile(
+        path,
+        `<html><head>
+          <meta http-equiv="Content-Security-Policy" content="script-src https://old.example.com">
+        </head><body><script src="https://cdn.example.com/a.js"></script></body></html>`,
+      )
+      process.argv = [
+        'node',
+        'cli.ts',
+        '--file',
+        path,
+        '--allow-private-origins',
+        'true',
+        '--compare',
+        'true',
+      ]
+      process.env = {}
+      mockConsoleLog.mockClear()
+
+      await main()
+
+      expect(processExitCalls).toEqual([])
+      const output = mockConsoleLog.mock.calls.map((c) => c[0]).join('\n')
+      expect(output).toContain('Live policy (<meta http-equiv> tag)')
+      expect(output).toMatch(
+        /not needed:\n {2}script-src: https:\/\/old\.example\.com/,
+      )
+      expect(output).toMatch(
+        /missing from the live policy:\n {2}script-src: https:\/\/cdn\.example\.com/,
+      )
+      expect(output).toContain('~ script-src')
+    })
+
+    test('should include comparisons in JSON output', async () => {
+      const path = join(dir, 'index.html')
+      await writeFile(
+        path,
+        `<meta http-equiv="Content-Security-Policy" content="default-src 'self'">`,
+      )
+      process.argv = [
+        'node',
+        'cli.ts',
+        '--file',
+        path,
+        '--compare',
+        'true',
+        '-f',
+        'json',
+      ]
+      process.env = {}
+      mockConsoleLog.mockClear()
+
+      await main()
+
+      const output = JSON.parse(mockConsoleLog.mock.calls[0]?.[0])
+      expect(output.comparisons).toHaveLength(1)
+      expect(output.comparisons[0]).toMatchObject({
+        source: 'meta',
+        policy: "default-src 'self'",
+        unneeded: [],
+      })
+    })
+  })
+
+  describe('integrity', () => {
+    const originalFetch = global.fetch
+    let dir: string
+    let path: string
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'csp-cli-'))
+      path = join(dir, 'index.html')
+      await writeFile(path, '<script src="/app.js"></script>')
+      global.fetch = mock(
+        async () => new Response('app', {status: 200}),
+      ) as unknown as typeof fetch
+      process.env = {}
+      mockConsoleLog.mockClear()
+    })
+
+    afterEach(async () => {
+      global.fetch = originalFetch
+      await rm(dir, {recursive: true, force: true})
+    })
+
+    const sri =
+      'sha384-eHhHA5yRWyrA39S98cz2A2QMX97dgcouvSCGeivEhVGH4n/L3CzYW4PPvcsd5jL3'
+
+    test('should print the manifest after the policy', async () => {
+      process.argv = [
+        'node',
+        'cli.ts',
+        '--file',
+        path,
+        '--allow-private-origins',
+        'true',
+        '--integrity',
+        'true',
+      ]
+      await main()
+
+      expect(processExitCalls).toEqual([])
+      expect(mockConsoleLog.mock.calls[1]?.[0]).toBe(
+        `\nSubresource Integrity:\n  https://localhost/app.js ${sri}`,
+      )
+    })
+
+    test('should include the manifest in JSON output', async () => {
+      process.argv = [
+        'node',
+        'cli.ts',
+        '--file',
+        path,
+        '--allow-private-origins',
+        'true',
+        '--integrity',
+        'true',
+        '-f',
+        'json',
+      ]
+      await main()
+
+      const output = JSON.parse(mockConsoleLog.mock.calls[0]?.[0])
+      expect(output.integrity).toEqual({'https://localhost/app.js': sri})
+    })
+
+    test('should print the document with integrity attributes', async () => {
+      process.argv = [
+        'node',
+        'cli.ts',
+        '--file',
+        path,
+        '--allow-private-origins',
+        'true',
+        '--inject-integrity',
+        'true',
+      ]
+      await main()
+
+      expect(mockConsoleLog.mock.calls[0]?.[0]).toBe(
+        `<script integrity="${sri}" crossorigin="anonymous" src="/app.js"></script>`,
+      )
+    })
+  })
+
+  describe('inline styles', () => {
+    let dir: string
+    let path: string
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'csp-cli-'))
+      path = join(dir, 'index.html')
+      await writeFile(path, '<p>\n<b style="color:red">x</b>')
+      process.env = {}
+      mockConsoleError.mockClear()
+      mockConsoleLog.mockClear()
+    })
+
+    afterEach(async () => {
+      await rm(dir, {recursive: true, force: true})
+    })
+
+    test('should list inline styles the policy blocks', async () => {
+      process.argv = ['node', 'cli.ts', '--file', path]
+      await main()
+
+      expect(processExitCalls).toEqual([])
+      expect(mockConsoleError).toHaveBeenCalledWith(
+        'Inline styles blocked by this policy (refactor them or pass --hash-inline-styles true):\n' +
+          '  line 2: <b style="color:red"> (style attribute)',
+      )
+    })
+
+    test('should list event handlers unless a hash allows them', async () => {
+      await writeFile(path, '<a href="#" onclick="go()">x</a>')
+      process.argv = ['node', 'cli.ts', '--file', path]
+      await main()
+
+      expect(mockConsoleError).toHaveBeenCalledWith(
+        'Event handlers and javascript: URLs blocked by this policy (refactor them or pass --hash-inline-handlers true):\n' +
+          '  line 1: <a href="#" onclick="go()"> (event handler)',
+      )
+
+      mockConsoleError.mockClear()
+      process.argv.push('--hash-inline-handlers', 'true')
+      await main()
+
+      expect(mockConsoleError).not.toHaveBeenCalled()
+    })
+
+    test('should hash them instead when asked', async () => {
+      process.argv = [
+        'node',
+        'cli.ts',
+        '--file',
+        path,
+        '--hash-inline-styles',
+        'true',
+        '--attribute-hashes',
+        'unsafe-hashes',
+      ]
+      await main()
+
+      expect(mockConsoleError).not.toHaveBeenCalled()
+      expect(mockConsoleLog.mock.calls[0]?.[0]).toContain(
+        "'unsafe-hashes' 'sha256-8f935d27GvUutRyY9yWScUMiFUk4WTdZURISiYfPOeQ='",
+      )
+    })
+  })
+
+  describe('collect command', () => {
+    let dir: string
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'csp-cli-'))
+    })
+
+    afterEach(async () => {
+      await rm(dir, {recursive: true, force: true})
+    })
+
+    test('should print the summary of a saved reports file', async () => {
+      const path = join(dir, 'reports.json')
+      const violation = {
+        documentUri: 'https://example.com/',
+        disposition: 'report',
+        firstSeen: '',
+        lastSeen: '',
+      }
+      await writeFile(
+        path,
+        JSON.stringify([
+          {
+            ...violation,
+            directive: 'img-src',
+            blockedUri: 'https://img.example.net/a.png',
+            count: 3,
+          },
+          {
+            ...violation,
+            directive: 'script-src-elem',
+            blockedUri: 'inline',
+            count: 1,
+          },
+        ]),
+      )
+      process.argv = [
+        'node',
+        'cli.ts',
+        'collect',
+        '--file',
+        path,
+        '--summary',
+        'true',
+      ]
+      process.env = {}
+      mockConsoleLog.mockClear()
+
+      await main()
+
+      expect(processExitCalls).toEqual([])
+      const output = mockConsoleLog.mock.calls[0]?.[0]
+      expect(output).toContain('4 report(s), 2 unique violation(s)')
+      expect(output).toMatch(
+        /directives:\n\s+3 {2}img-src\n\s+1 {2}script-src-elem/,
+      )
+      expect(output).toContain('https://img.example.net')
+    })
+  })
+
+  describe('refine command', () => {
+    let dir: string
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'csp-cli-'))
+    })
+
+    afterEach(async () => {
+      await rm(dir, {recursive: true, force: true})
+    })
+
+    test('should refine a policy from raw report payloads', async () => {
+      const path = join(dir, 'reports.json')
+      const payload = {
+        'csp-report': {
+          'document-uri': 'https://example.com/',
+          'effective-directive': 'img-src',
+          'blocked-uri': 'https://example.com/a.png',
+        },
+      }
+      await writeFile(path, JSON.stringify(payload))
+      process.argv = [
+        'node',
+        'cli.ts',
+        'refine',
+        "default-src 'none'",
+        '--reports',
+        path,
+        '--confidence',
+        '0.5',
+        '-f',
+        'raw',
+      ]
+      process.env = {}
+      mockConsoleLog.mockClear()
+      mockConsoleError.mockClear()
+
+      await main()
+
+      expect(processExitCalls).toEqual([])
+      expect(mockConsoleError).toHaveBeenCalledWith(
+        "+ img-src 'self' (1 report(s), 1 page(s), confidence 0.50)",
+      )
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        "default-src 'none'; img-src 'self'",
+      )
+    })
+
+    test('should reject an out-of-range confidence', async () => {
+      process.argv = [
+        'node',
+        'cli.ts',
+        'refine',
+        "default-src 'self'",
+        '--confidence',
+        '2',
+      ]
+      process.env = {}
+
+      await main()
+
+      expect(processExitCalls).toEqual([1])
+      expect(mockConsoleError).toHaveBeenCalledWith(
+        'Error:',
+        'Confidence must be a number between 0 and 1',
+      )
+    })
   })
 
   describe('environment variables', () => {
@@ -287,6 +973,7 @@ describe('CLI', () => {
         allowUnsafeEval: false,
         requireTrustedTypes: true,
         maxBodySize: 1024,
+        maxHeaderBytes: 0,
         timeoutMs: 5000,
         presets: {
           'script-src': Object.freeze(['example.com', 'cdn.com']),
@@ -294,9 +981,38 @@ describe('CLI', () => {
         },
         fetchOptions: {},
         outputFormat: 'json',
+        followStylesheets: false,
+        analyzeScripts: false,
+        crawl: false,
+        respectRobotsTxt: true,
+        compare: false,
+        reportOnly: false,
+        injectMeta: false,
+        integrity: false,
+        injectIntegrity: false,
+        hashInlineStyles: false,
+        hashInlineHandlers: false,
+        splitDirectives: false,
+        collapseWildcards: false,
+        minimize: false,
       })
     })
 
+    test('should read wildcard collapsing from environment variables', () => {
+      process.env.CSP_URL = 'https://example.com'
+      process.env.CSP_COLLAPSE_WILDCARDS = 'true'
+      process.env.CSP_WILDCARD_THRESHOLD = '3'
+
+      expect(getOptions().collapseWildcards).toEqual({threshold: 3})
+    })
+
+    test('should read the header budget from environment variables', () => {
+      process.env.CSP_URL = 'https://example.com'
+      process.env.CSP_MAX_HEADER_BYTES = '8192'
+
+      expect(getOptions().maxHeaderBytes).toBe(8192)
+    })
+
     test('should prioritize CLI options over environment variables', () => {
       process.env.CSP_URL = 'https://env-example.com'
       process.env.CSP_ALLOW_HTTP = 'true'
@@ -329,6 +1045,15 @@ describe('CLI', () => {
       expect(options.timeoutMs).toBe(8000) // Default value
     })
 
+    test('should parse hash algorithms', () => {
+      process.env.CSP_URL = 'https://example.com'
+      process.env.CSP_HASH_ALGORITHMS = 'sha384, sha512'
+      expect(getOptions().hashAlgorithms).toEqual(['sha384', 'sha512'])
+
+      process.argv = ['node', 'cli.ts', '--hash-algorithms', 'sha1']
+      expect(() => getOptions()).toThrow('Unsupported hash algorithm "sha1"')
+    })
+
     test('should handle empty environment variables', () => {
       process.env.CSP_URL = ''
       process.env.CSP_ALLOW_HTTP = ''
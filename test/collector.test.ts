@@ -0,0 +1,228 @@
+import {afterEach, beforeEach, describe, expect, mock, test} from 'bun:test'
+import {mkdtemp, readFile, rm, writeFile} from 'node:fs/promises'
+import {tmpdir} from 'node:os'
+import {join} from 'node:path'
+import {
+  blockedOrigin,
+  normalizeReports,
+  ReportCollector,
+  summarizeViolations,
+} from '../src/collector'
+
+const legacyReport = {
+  'csp-report': {
+    'document-uri': 'https://example.com/page',
+    'violated-directive': "script-src-elem 'self'",
+    'effective-directive': 'script-src-elem',
+    'blocked-uri': 'https://cdn.example.net/lib.js',
+    disposition: 'report',
+    'line-number': 12,
+    'source-file': 'https://example.com/page',
+  },
+}
+
+const reportingApiReport = [
+  {
+    type: 'csp-violation',
+    age: 10,
+    url: 'https://example.com/page',
+    user_agent: 'Mozilla/5.0',
+    body: {
+      documentURL: 'https://example.com/page',
+      blockedURL: 'https://fonts.example.net/a.woff2',
+      effectiveDirective: 'font-src',
+      disposition: 'enforce',
+      originalPolicy: "default-src 'self'",
+    },
+  },
+  {type: 'deprecation', body: {id: 'x'}},
+]
+
+describe('normalizeReports', () => {
+  test('should normalize legacy csp-report payloads', () => {
+    expect(normalizeReports(legacyReport)).toEqual([
+      {
+        documentUri: 'https://example.com/page',
+        directive: 'script-src-elem',
+        blockedUri: 'https://cdn.example.net/lib.js',
+        disposition: 'report',
+        sourceFile: 'https://example.com/page',
+        lineNumber: 12,
+        columnNumber: undefined,
+        sample: undefined,
+      },
+    ])
+  })
+
+  test('should fall back to the violated directive name', () => {
+    const [report] = normalizeReports({
+      'csp-report': {
+        'violated-directive': "img-src 'self'",
+        'blocked-uri': 'data',
+      },
+    })
+    expect(report).toMatchObject({directive: 'img-src', blockedUri: 'data'})
+  })
+
+  test('should normalize Reporting API payloads and skip other types', () => {
+    const reports = normalizeReports(reportingApiReport)
+    expect(reports).toHaveLength(1)
+    expect(reports[0]).toMatchObject({
+      documentUri: 'https://example.com/page',
+      directive: 'font-src',
+      blockedUri: 'https://fonts.example.net/a.woff2',
+      disposition: 'enforce',
+    })
+  })
+
+  test('should ignore malformed entries', () => {
+    expect(normalizeReports(null)).toEqual([])
+    expect(normalizeReports([1, 'x', {'csp-report': {}}])).toEqual([])
+    expect(
+      normalizeReports([
+        {'csp-report': ['script-src']},
+        {type: 'csp-violation', body: 'font-src'},
+        {type: 'csp-violation', body: [{effectiveDirective: 'font-src'}]},
+        {type: 'csp-violation', body: {effectiveDirective: 42}},
+      ]),
+    ).toEqual([])
+  })
+})
+
+describe('summarizeViolations', () => {
+  test('should count by directive and blocked origin', () => {
+    const base = {
+      documentUri: 'https://example.com/',
+      disposition: 'enforce' as const,
+      firstSeen: '',
+      lastSeen: '',
+    }
+    const summary = summarizeViolations([
+      {...base, directive: 'img-src', blockedUri: 'https://a.com/1', count: 2},
+      {...base, directive: 'img-src', blockedUri: 'https://a.com/2', count: 1},
+      {...base, directive: 'script-src-elem', blockedUri: 'inline', count: 5},
+    ])
+    expect(summary).toEqual({
+      total: 8,
+      unique: 3,
+      directives: [
+        {directive: 'script-src-elem', count: 5},
+        {directive: 'img-src', count: 3},
+      ],
+      origins: [
+        {origin: 'inline', count: 5},
+        {origin: 'https://a.com', count: 3},
+      ],
+    })
+  })
+
+  test('should map opaque URLs to their scheme', () => {
+    expect(blockedOrigin('data:image/png;base64,AAA')).toBe('data:')
+    expect(blockedOrigin('eval')).toBe('eval')
+  })
+})
+
+describe('ReportCollector', () => {
+  let dir: string
+  let file: string
+  let collector: ReportCollector
+  let url: string
+  const logger = {
+    error: mock(() => {}),
+    warn: mock(() => {}),
+    info: mock(() => {}),
+    debug: mock(() => {}),
+  }
+
+  const post = (body: unknown, type: string, path = 'csp') =>
+    fetch(url + path, {
+      method: 'POST',
+      headers: {'content-type': type},
+      body: typeof body === 'string' ? body : JSON.stringify(body),
+    })
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'csp-collector-'))
+    file = join(dir, 'reports.json')
+    collector = new ReportCollector({port: 0, file, logger})
+    ;({url} = await collector.start())
+  })
+
+  afterEach(async () => {
+    await collector.stop()
+    await rm(dir, {recursive: true, force: true})
+  })
+
+  test('should accept both report formats and de-duplicate', async () => {
+    expect((await post(legacyReport, 'application/csp-report')).status).toBe(
+      204,
+    )
+    await post(legacyReport, 'application/csp-report')
+    const res = await post(reportingApiReport, 'application/reports+json')
+    expect(res.status).toBe(204)
+    expect(res.headers.get('access-control-allow-origin')).toBe('*')
+
+    const violations = collector.getViolations()
+    expect(violations.map((v) => [v.directive, v.count])).toEqual([
+      ['script-src-elem', 2],
+      ['font-src', 1],
+    ])
+  })
+
+  test('should serve a summary', async () => {
+    await post(reportingApiReport, 'application/reports+json')
+    const res = await fetch(url + 'summary')
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual({
+      total: 1,
+      unique: 1,
+      directives: [{directive: 'font-src', count: 1}],
+      origins: [{origin: 'https://fonts.example.net', count: 1}],
+    })
+  })
+
+  test('should reject unsupported and invalid requests', async () => {
+    expect((await post(legacyReport, 'text/plain')).status).toBe(415)
+    expect((await post('{oops', 'application/csp-report')).status).toBe(400)
+    expect((await post('x'.repeat(70_000), 'application/json')).status).toBe(
+      413,
+    )
+    expect((await fetch(url + 'other')).status).toBe(404)
+    expect((await fetch(url, {method: 'OPTIONS'})).status).toBe(204)
+  })
+
+  test('should persist violations and reload them on start', async () => {
+    await post(legacyReport, 'application/csp-report')
+    await collector.stop()
+
+    const saved = JSON.parse(await readFile(file, 'utf8'))
+    expect(saved).toHaveLength(1)
+    expect(saved[0]).toMatchObject({directive: 'script-src-elem', count: 1})
+
+    collector = new ReportCollector({port: 0, file, logger})
+    ;({url} = await collector.start())
+    await post(legacyReport, 'application/csp-report')
+    expect(collector.getViolations()[0]?.count).toBe(2)
+  })
+
+  test('should fail on a corrupt reports file', async () => {
+    const corrupt = join(dir, 'corrupt.json')
+    await writeFile(corrupt, 'not json')
+    const other = new ReportCollector({port: 0, file: corrupt, logger})
+    await expect(other.start()).rejects.toThrow('Cannot read reports from')
+  })
+
+  test('should fail on a reports file that is not a violation list', async () => {
+    for (const [name, content] of [
+      ['object.json', '{"directive": "img-src"}'],
+      ['entries.json', '[{"directive": "img-src", "blockedUri": 1}]'],
+    ]) {
+      const invalid = join(dir, name!)
+      await writeFile(invalid, content!)
+      const other = new ReportCollector({port: 0, file: invalid, logger})
+      await expect(other.start()).rejects.toThrow(
+        `Cannot read reports from ${invalid}: expected an array of collected violations`,
+      )
+    }
+  })
+})
@@ -0,0 +1,127 @@
+import {describe, expect, test} from 'bun:test'
+import {comparePolicies} from '../src/compare'
+import {CSPPolicy} from '../src/policy'
+
+describe('comparePolicies', () => {
+  test('should report unneeded and missing sources per directive', () => {
+    const result = comparePolicies(
+      "script-src 'self' https://old.example.com; img-src https://img.example.com",
+      "script-src 'self' https://cdn.example.com; img-src https://img.example.com",
+    )
+    expect(result.unneeded).toEqual([
+      {directive: 'script-src', sources: ['https://old.example.com']},
+    ])
+    expect(result.missing).toEqual([
+      {directive: 'script-src', sources: ['https://cdn.example.com']},
+    ])
+    expect(result.directives).toEqual([
+      {
+        directive: 'script-src',
+        status: 'changed',
+        added: ['https://cdn.example.com'],
+        removed: ['https://old.example.com'],
+      },
+    ])
+  })
+
+  test('should honour the default-src fallback', () => {
+    const result = comparePolicies(
+      "default-src 'self' https://img.example.com",
+      "default-src 'self'; img-src https://img.example.com",
+    )
+    expect(result.missing).toEqual([])
+    expect(result.unneeded).toEqual([
+      {directive: 'default-src', sources: ['https://img.example.com']},
+    ])
+    expect(result.directives.map((d) => [d.directive, d.status])).toEqual([
+      ['default-src', 'changed'],
+      ['img-src', 'added'],
+    ])
+  })
+
+  test('should treat any two nonces as equal', () => {
+    const result = comparePolicies(
+      "script-src 'nonce-abc' 'strict-dynamic'",
+      "script-src 'nonce-xyz' 'strict-dynamic'",
+    )
+    expect(result).toEqual({unneeded: [], missing: [], directives: []})
+  })
+
+  test('should compare case-insensitively and accept CSPPolicy instances', () => {
+    const result = comparePolicies(
+      CSPPolicy.parse("SCRIPT-SRC 'SELF' HTTPS://CDN.EXAMPLE.COM"),
+      CSPPolicy.parse("script-src 'self' https://cdn.example.com"),
+    )
+    expect(result).toEqual({unneeded: [], missing: [], directives: []})
+  })
+
+  test('should not report sources for directives the other policy leaves unrestricted', () => {
+    const result = comparePolicies(
+      'script-src https://cdn.example.com',
+      "script-src https://cdn.example.com; base-uri 'self'",
+    )
+    expect(result.missing).toEqual([])
+    expect(result.directives.map((d) => d.directive)).toEqual(['base-uri'])
+  })
+
+  test('should list value-less directives only as directive differences', () => {
+    const result = comparePolicies(
+      "default-src 'self'",
+      "default-src 'self'; upgrade-insecure-requests",
+    )
+    expect(result.missing).toEqual([])
+    expect(result.directives).toEqual([
+      {
+        directive: 'upgrade-insecure-requests',
+        status: 'added',
+        added: [],
+        removed: [],
+      },
+    ])
+  })
+
+  test('should accept sources a live scheme or wildcard source covers', () => {
+    const result = comparePolicies(
+      "script-src 'self' https:; img-src *; style-src *.example.com",
+      "script-src 'self' https://cdn.example.com; img-src https://img.example.net data:; style-src cdn.example.com https://fonts.example.com/css/",
+      {self: 'https://example.com'},
+    )
+    expect(result.missing).toEqual([{directive: 'img-src', sources: ['data:']}])
+    expect(result.unneeded).toEqual([
+      {directive: 'script-src', sources: ['https:']},
+      {directive: 'img-src', sources: ['*']},
+      {directive: 'style-src', sources: ['*.example.com']},
+    ])
+  })
+
+  test('should resolve self against the page URL', () => {
+    const live = "default-src 'self'"
+    const generated =
+      "default-src 'self'; img-src https://example.com/img/; connect-src https://api.example.com"
+    expect(
+      comparePolicies(live, generated, {self: 'https://example.com/page'})
+        .missing,
+    ).toEqual([
+      {directive: 'connect-src', sources: ['https://api.example.com']},
+    ])
+    // Without the page URL, 'self' only matches itself
+    expect(comparePolicies(live, generated).missing).toEqual([
+      {directive: 'img-src', sources: ['https://example.com/img/']},
+      {directive: 'connect-src', sources: ['https://api.example.com']},
+    ])
+    expect(
+      comparePolicies('default-src https:', "default-src 'self'", {
+        self: 'https://example.com',
+      }).missing,
+    ).toEqual([])
+  })
+
+  test('should resolve fallbacks on both sides', () => {
+    const result = comparePolicies(
+      'default-src https:; script-src https://cdn.example.com',
+      'frame-src https://frames.example.com; script-src-elem https://cdn.example.com/lib/',
+    )
+    expect(result.missing).toEqual([])
+    expect(result.unneeded).toEqual([])
+  })
+})
@@ -0,0 +1,90 @@
+import {describe, expect, test} from 'bun:test'
+import {
+  CSP_DIRECTIVES,
+  directiveChain,
+  isDirectiveName,
+  VALID_CSP_DIRECTIVES,
+  validateDirective,
+} from '../src/constants'
+
+describe('directive registry', () => {
+  test('should cover the CSP3 directives', () => {
+    for (const name of [
+      'script-src-elem',
+      'style-src-attr',
+      'child-src',
+      'fenced-frame-src',
+      'trusted-types',
+      'webrtc',
+      'sandbox',
+    ]) {
+      expect(VALID_CSP_DIRECTIVES).toContain(name as any)
+    }
+    expect(isDirectiveName('navigate-to')).toBe(false)
+    expect(isDirectiveName('constructor')).toBe(false)
+  })
+
+  test('should only list directives that exist as fallbacks', () => {
+    for (const spec of Object.values(CSP_DIRECTIVES)) {
+      for (const dir of spec.fallback) expect(isDirectiveName(dir)).toBe(true)
+    }
+  })
+
+  test('should resolve fallback chains', () => {
+    expect(directiveChain('script-src-attr')).toEqual([
+      'script-src-attr',
+      'script-src',
+      'default-src',
+    ])
+    expect(directiveChain('worker-src')).toEqual([
+      'worker-src',
+      'child-src',
+      'script-src',
+      'default-src',
+    ])
+    expect(directiveChain('base-uri')).toEqual(['base-uri'])
+  })
+})
+
+describe('validateDirective', () => {
+  test('should accept values matching the grammar', () => {
+    expect(() =>
+      validateDirective('script-src', [
+        "'self'",
+        "'nonce-abc+/='",
+        "'sha256-abc='",
+        'https:',
+        'https://*.example.com:443/js/',
+      ]),
+    ).not.toThrow()
+    expect(() => validateDirective('sandbox', [])).not.toThrow()
+    expect(() =>
+      validateDirective('trusted-types', ['default', "'allow-duplicates'"]),
+    ).not.toThrow()
+    expect(() => validateDirective('webrtc', ["'block'"])).not.toThrow()
+  })
+
+  test('should reject unknown directives and malformed values', () => {
+    expect(() => validateDirective('navigate-to', [])).toThrow(
+      'Unknown CSP directive "navigate-to"',
+    )
+    expect(() => validateDirective('script-src', ["'unsafe'"])).toThrow(
+      `Invalid value "'unsafe'" for script-src`,
+    )
+    expect(() =>
+      validateDirective('frame-ancestors', ["'unsafe-inline'"]),
+    ).toThrow('Invalid value')
+    expect(() => validateDirective('sandbox', ['allow-everything'])).toThrow(
+      'Invalid value',
+    )
+    expect(() => validateDirective('upgrade-insecure-requests', ['x'])).toThrow(
+      'upgrade-insecure-requests takes no values',
+    )
+    expect(() => validateDirective('report-to', ['a', 'b'])).toThrow(
+      'report-to takes exactly one value',
+    )
+    expect(() => validateDirective('img-src', ["'none'", "'self'"])).toThrow(
+      "'none' must be the only value of img-src",
+    )
+  })
+})
@@ -0,0 +1,312 @@
+import {afterEach, beforeEach, describe, expect, mock, test} from 'bun:test'
+import {HeaderBudgetError} from '../src/budget'
+import {isAllowedByRobots, parseRobotsTxt, SiteCrawler} from '../src/crawler'
+import {allowsUnsafeInline} from '../src/policy'
+import {policyAllows} from '../src/source-matcher'
+import dns from 'dns/promises'
+
+// Mock fetch with a tiny in-memory site
+const originalFetch = global.fetch
+let site: Record<string, string> = {}
+let requested: string[] = []
+
+const fetchMock = mock(async (input: string | URL) => {
+  const url = String(input)
+  requested.push(url)
+  const body = site[url]
+  if (body === undefined) {
+    return new Response('Not Found', {status: 404, statusText: 'Not Found'})
+  }
+  const type = url.endsWith('robots.txt') ? 'text/plain' : 'text/html'
+  return new Response(body, {status: 200, headers: {'content-type': type}})
+}) as unknown as typeof fetch
+
+const originalLookup = dns.lookup
+const mockDnsLookup = async () => [{address: '8.8.8.8', family: 4}] as any
+
+const quietLogger = {
+  error: () => {},
+  warn: () => {},
+  info: () => {},
+  debug: () => {},
+}
+
+describe('SiteCrawler', () => {
+  beforeEach(() => {
+    site = {
+      'https://example.com/': `
+        <html><body>
+          <script src="https://cdn.example.com/app.js"></script>
+          <a href="/about">About</a>
+          <a href="/blog#top">Blog</a>
+          <a href="https://other.example.org/">Elsewhere</a>
+          <a href="/brochure.pdf">PDF</a>
+        </body></html>`,
+      'https://example.com/about': `
+        <html><body>
+          <iframe src="https://www.youtube.com/embed/x"></iframe>
+          <a href="/">Home</a>
+          <a href="/team">Team</a>
+        </body></html>`,
+      'https://example.com/blog': `
+        <html><body><img src="https://images.example.net/a.png"></body></html>`,
+      'https://example.com/team': `
+        <html><body><img src="https://team.example.net/b.png"></body></html>`,
+    }
+    requested = []
+    global.fetch = fetchMock
+    dns.lookup = mockDnsLookup
+  })
+
+  afterEach(() => {
+    mock.restore()
+    global.fetch = originalFetch
+    dns.lookup = originalLookup
+  })
+
+  test('should reject insecure start URLs', () => {
+    expect(() => new SiteCrawler('http://example.com')).toThrow(
+      'Insecure scheme rejected',
+    )
+  })
+
+  test('should merge sources from same-origin pages', async () => {
+    const crawler = new SiteCrawler('https://example.com/', {
+      requestsPerSecond: 0,
+      logger: quietLogger,
+    })
+    const {policy, pages} = await crawler.crawl()
+
+    expect(pages.map((p) => p.url)).toEqual([
+      'https://example.com/',
+      'https://example.com/about',
+      'https://example.com/blog',
+      'https://example.com/team',
+    ])
+    expect(policy).toContain('script-src https://cdn.example.com')
+    // The other pages allow frames through default-src 'self'
+    expect(policy).toContain("frame-src 'self' https://www.youtube.com")
+    expect(policy).toContain('https://images.example.net')
+    expect(policy).toContain('https://team.example.net')
+    expect(requested).not.toContain('https://other.example.org/')
+    expect(requested).not.toContain('https://example.com/brochure.pdf')
+  })
+
+  test('should keep what each page allows through fallbacks', async () => {
+    site = {
+      'https://example.com/': `
+        <button onclick="go()">Go</button>
+        <a href="/gallery">Gallery</a>`,
+      'https://example.com/gallery': `
+        <img src="https://images.example.net/a.png">
+        <script>console.log('gallery')</script>`,
+    }
+    const crawler = new SiteCrawler('https://example.com/', {
+      requestsPerSecond: 0,
+      logger: quietLogger,
+      useNonce: false,
+      allowUnsafeInlineScript: true,
+    })
+    const {policy, sources, pages} = await crawler.crawl()
+
+    expect(pages[1]!.sources['script-src']).toContainEqual(
+      expect.stringMatching(/^'sha256-/),
+    )
+    // A hash from the gallery would switch off the handler's 'unsafe-inline'
+    expect(allowsUnsafeInline(Array.from(sources.get('script-src')!))).toBe(
+      true,
+    )
+    const self = 'https://example.com/'
+    expect(policyAllows(policy, 'img-src', `${self}logo.png`, self)).toBe(true)
+    expect(
+      policyAllows(policy, 'img-src', 'https://images.example.net/a.png', self),
+    ).toBe(true)
+  })
+
+  test('should use a single nonce across pages', async () => {
+    const crawler = new SiteCrawler('https://example.com/', {
+      requestsPerSecond: 0,
+      logger: quietLogger,
+    })
+    const {policy} = await crawler.crawl()
+
+    expect(policy.match(/'nonce-/g)).toHaveLength(1)
+  })
+
+  test('should expose the sources of each page', async () => {
+    const crawler = new SiteCrawler('https://example.com/', {
+      requestsPerSecond: 0,
+      logger: quietLogger,
+    })
+    const {pages} = await crawler.crawl()
+
+    const about = pages.find((p) => p.url === 'https://example.com/about')!
+    expect(about.depth).toBe(1)
+    expect(about.sources['frame-src']).toEqual(['https://www.youtube.com'])
+    expect(about.sources['script-src']).not.toContain('https://cdn.example.com')
+  })
+
+  test('should respect maxDepth and maxPages', async () => {
+    const shallow = new SiteCrawler('https://example.com/', {
+      maxDepth: 0,
+      requestsPerSecond: 0,
+      logger: quietLogger,
+    })
+    expect((await shallow.crawl()).pages).toHaveLength(1)
+
+    const capped = new SiteCrawler('https://example.com/', {
+      maxPages: 2,
+      requestsPerSecond: 0,
+      logger: quietLogger,
+    })
+    expect((await capped.crawl()).pages).toHaveLength(2)
+  })
+
+  test('should skip paths disallowed by robots.txt', async () => {
+    site['https://example.com/robots.txt'] = 'User-agent: *\nDisallow: /blog'
+    const crawler = new SiteCrawler('https://example.com/', {
+      requestsPerSecond: 0,
+      logger: quietLogger,
+    })
+    const {pages, skipped, policy} = await crawler.crawl()
+
+    expect(pages.map((p) => p.url)).not.toContain('https://example.com/blog')
+    expect(skipped).toEqual([
+      {url: 'https://example.com/blog', reason: 'Disallowed by robots.txt'},
+    ])
+    expect(policy).not.toContain('https://images.example.net')
+  })
+
+  test('should record failing pages without aborting', async () => {
+    delete site['https://example.com/team']
+    const warn = mock(() => {})
+    const crawler = new SiteCrawler('https://example.com/', {
+      requestsPerSecond: 0,
+      logger: {...quietLogger, warn},
+    })
+    const {pages} = await crawler.crawl()
+
+    const team = pages.find((p) => p.url === 'https://example.com/team')!
+    expect(team.error).toBe('HTTP 404 Not Found')
+    expect(warn).toHaveBeenCalled()
+  })
+
+  test('should limit the request rate', async () => {
+    const crawler = new SiteCrawler('https://example.com/', {
+      maxDepth: 1,
+      requestsPerSecond: 20,
+      logger: quietLogger,
+    })
+    const started = Date.now()
+    await crawler.crawl()
+
+    // Three pages at 20 req/s need at least two 50ms gaps
+    expect(Date.now() - started).toBeGreaterThanOrEqual(90)
+  })
+
+  describe('header budget', () => {
+    // Twenty pages, each with its own image host and inline script
+    const pageNumbers = Array.from({length: 20}, (_, i) => i + 1)
+    beforeEach(() => {
+      site = {
+        'https://example.com/': pageNumbers
+          .map((i) => `<a href="/p${i}">${i}</a>`)
+          .join(''),
+      }
+      for (const i of pageNumbers) {
+        site[`https://example.com/p${i}`] =
+          `<img src="https://img${i}.example.net/a.png">` +
+          `<script>console.log(${i})</script>`
+      }
+    })
+
+    test('should fit the merged policy, not each page', async () => {
+      const unlimited = await new SiteCrawler('https://example.com/', {
+        requestsPerSecond: 0,
+        logger: quietLogger,
+      }).crawl()
+      expect(unlimited.policy.length).toBeGreaterThan(1500)
+      expect(unlimited.headerBudget).toEqual([])
+
+      const crawler = new SiteCrawler('https://example.com/', {
+        requestsPerSecond: 0,
+        logger: quietLogger,
+        maxHeaderBytes: 600,
+      })
+      const {policy, pages, nonce, headerBudget, wildcards} =
+        await crawler.crawl()
+
+      expect(policy.length).toBeLessThanOrEqual(600)
+      expect(headerBudget.map((s) => s.step)).toEqual([
+        'collapse-wildcards',
+        'hashes-to-nonce',
+      ])
+      expect(headerBudget[0]!.before).toBe(unlimited.policy.length)
+      expect(wildcards[0]!.wildcard).toBe('https://*.example.net')
+      expect(policy).toContain("img-src 'self' https://*.example.net")
+      expect(policy).not.toContain("'sha256-")
+      expect(policy.match(/'nonce-/g)).toHaveLength(1)
+      expect(policy).toContain(`'nonce-${nonce}'`)
+      // Pages keep the sources they need
+      const page = pages.find((p) => p.url === 'https://example.com/p1')!
+      expect(page.sources['img-src']).toEqual(['https://img1.example.net'])
+      expect(page.sources['script-src']).toContainEqual(
+        expect.stringMatching(/^'sha256-/),
+      )
+    })
+
+    test('should fail when the merged policy cannot fit', async () => {
+      const crawler = new SiteCrawler('https://example.com/', {
+        requestsPerSecond: 0,
+        logger: quietLogger,
+        maxHeaderBytes: 100,
+      })
+
+      const error = await crawler.crawl().catch((e) => e)
+      expect(error).toBeInstanceOf(HeaderBudgetError)
+      expect(error.maxHeaderBytes).toBe(100)
+      expect(error.largest[0].directive).toBe('script-src')
+    })
+
+    test('should validate the budget', () => {
+      expect(
+        () => new SiteCrawler('https://example.com/', {maxHeaderBytes: 1.5}),
+      ).toThrow('maxHeaderBytes must be a non-negative integer')
+    })
+  })
+})
+
+describe('robots.txt', () => {
+  const text = `
+    # Comments are ignored
+    User-agent: *
+    Disallow: /private
+    Allow: /private/public
+
+    User-agent: csp-generator
+    Disallow: /admin
+    Disallow: /*.json$
+    Crawl-delay: 2
+  `
+
+  test('should prefer the group for our user agent', () => {
+    const robots = parseRobotsTxt(text, 'csp-generator')
+    expect(robots.crawlDelay).toBe(2)
+    expect(isAllowedByRobots(robots, '/admin/users')).toBe(false)
+    expect(isAllowedByRobots(robots, '/private')).toBe(true)
+    expect(isAllowedByRobots(robots, '/data.json')).toBe(false)
+    expect(isAllowedByRobots(robots, '/data.json?x=1')).toBe(true)
+  })
+
+  test('should fall back to the wildcard group', () => {
+    const robots = parseRobotsTxt(text, 'other-bot')
+    expect(isAllowedByRobots(robots, '/private/x')).toBe(false)
+    expect(isAllowedByRobots(robots, '/private/public/x')).toBe(true)
+    expect(isAllowedByRobots(robots, '/admin')).toBe(true)
+  })
+
+  test('should allow everything when no rules apply', () => {
+    const robots = parseRobotsTxt('User-agent: *\nDisallow:', 'any')
+    expect(isAllowedByRobots(robots, '/anything')).toBe(true)
+  })
+})
@@ -2,6 +2,8 @@
 
 import {describe, test, expect, beforeEach, mock, afterEach} from 'bun:test'
 import {SecureCSPGenerator} from '../src/csp-generator.browser'
+import {SecureCSPGenerator as NodeCSPGenerator} from '../src/csp-generator'
+import {CSPPolicy} from '../src/policy'
 
 // Mock fetch
 const originalFetch = global.fetch
@@ -218,7 +220,73 @@ describe('SecureCSPGenerator (browser)', () => {
         useHashes: true,
       })
       const cspHeader = await generator.generate()
-      expect(cspHeader).toMatch(/'sha256-[a-f0-9]{64}'/)
+      expect(cspHeader).toMatch(/'sha256-[A-Za-z0-9+/]{43}='/)
+    })
+
+    test('should hash the exact inline script text, whitespace included', async () => {
+      mockFetchResponse = new Response('<script>\n  alert(1)\n</script>', {
+        status: 200,
+        headers: {'content-type': 'text/html'},
+      })
+
+      const generator = new SecureCSPGenerator('https://example.com', {
+        useHashes: true,
+      })
+      const cspHeader = await generator.generate()
+      expect(cspHeader).toContain(
+        "'sha256-BjA0ROBfupHLCiW2gRrYiELX3ecfNFbiR7URMIXYaeU='",
+      )
+    })
+
+    test('should emit the same hashes as the Node build', async () => {
+      const html = "<script>\n  console.log('é')\n</script>"
+      mockFetchResponse = new Response(html, {
+        status: 200,
+        headers: {'content-type': 'text/html'},
+      })
+      const hashAlgorithms = ['sha384', 'sha512'] as const
+
+      const browser = await new SecureCSPGenerator('https://example.com', {
+        useHashes: true,
+        hashAlgorithms,
+      }).generate()
+      const node = await new NodeCSPGenerator('https://example.com', {
+        useNonce: false,
+        hashAlgorithms,
+      }).generateFromHtml(html)
+
+      const hashes = (csp: string) => csp.match(/'sha\d+-[^']+'/g)
+      expect(hashes(browser)).toHaveLength(2)
+      expect(hashes(browser)).toEqual(hashes(node))
+    })
+
+    test('should skip whitespace-only inline content like the Node build', async () => {
+      const html =
+        '<script>  \n</script><style>\n</style><script>\n  alert(1)\n</script>'
+      mockFetchResponse = new Response(html, {
+        status: 200,
+        headers: {'content-type': 'text/html'},
+      })
+
+      const browser = await new SecureCSPGenerator('https://example.com', {
+        useHashes: true,
+        allowUnsafeInlineScript: true,
+        allowUnsafeInlineStyle: true,
+      }).generate()
+      const node = await new NodeCSPGenerator('https://example.com', {
+        useNonce: false,
+        allowUnsafeInlineScript: true,
+        allowUnsafeInlineStyle: true,
+      }).generateFromHtml(html)
+
+      const [ours, theirs] = [browser, node].map((csp) => CSPPolicy.parse(csp))
+      expect(ours.get('script-src')).toEqual([
+        "'sha256-BjA0ROBfupHLCiW2gRrYiELX3ecfNFbiR7URMIXYaeU='",
+        "'unsafe-inline'",
+      ])
+      for (const dir of ['script-src', 'style-src'] as const) {
+        expect(ours.get(dir)).toEqual(theirs.get(dir))
+      }
     })
 
     test('should handle upgrade-insecure-requests', async () => {
@@ -253,6 +321,18 @@ describe('SecureCSPGenerator (browser)', () => {
       expect(cspHeader).toContain('sandbox')
     })
 
+    test('should infer sandbox tokens from the page', async () => {
+      mockFetchResponse = new Response(
+        '<form action="/s"></form><a href="/f.pdf" download>f</a>',
+        {status: 200, headers: {'content-type': 'text/html'}},
+      )
+      const generator = new SecureCSPGenerator('https://example.com', {
+        sandbox: 'infer',
+      })
+      const cspHeader = await generator.generate()
+      expect(cspHeader).toContain('sandbox allow-downloads allow-forms')
+    })
+
     test('should extract CSS URLs with different formats', async () => {
       const html = `
         <html>
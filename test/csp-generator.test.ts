@@ -1,7 +1,7 @@
 // noinspection JSUnresolvedLibraryURL,CssOverwrittenProperties,HtmlRequiredAltAttribute
 
 import {afterEach, beforeEach, describe, expect, mock, test} from 'bun:test'
-import {SecureCSPGenerator} from '../src/csp-generator'
+import {HeaderBudgetError, SecureCSPGenerator} from '../src/csp-generator'
 import dns from 'dns/promises'
 
 // Mock fetch
@@ -355,6 +355,46 @@ describe('SecureCSPGenerator', () => {
       expect(cspHeader).toContain("'sha256-")
     })
 
+    test('should hash inline scripts with the configured algorithms', async () => {
+      const generator = new SecureCSPGenerator('https://example.com', {
+        useNonce: false,
+        hashAlgorithms: ['sha384', 'sha512'],
+      })
+      const cspHeader = await generator.generateFromHtml(
+        "<script>alert('Hello, world.');</script>",
+      )
+
+      expect(generator.getPolicy().get('script-src')).toEqual([
+        "'sha384-H8BRh8j48O9oYatfu5AZzq6A9RINhZO5H16dQZngK7T62em8MUt1FLm52t+eX6xO'",
+        expect.stringMatching(/^'sha512-/),
+      ])
+      expect(cspHeader).not.toContain("'sha256-")
+    })
+
+    test('should hash the exact inline script text, whitespace included', async () => {
+      const generator = new SecureCSPGenerator('https://example.com', {
+        useNonce: false,
+      })
+      await generator.generateFromHtml(
+        '<script>\n  alert(1)\n</script><script>  \n</script>',
+      )
+
+      // sha256 of "\n  alert(1)\n"; the trimmed "alert(1)" hashes to
+      // 'sha256-bhHHL3z2vDgxUt0W3dWQOrprscmda2Y5pLsLg4GF+pI='
+      expect(generator.getPolicy().get('script-src')).toEqual([
+        "'sha256-BjA0ROBfupHLCiW2gRrYiELX3ecfNFbiR7URMIXYaeU='",
+      ])
+    })
+
+    test('should reject unsupported hash algorithms', () => {
+      expect(
+        () =>
+          new SecureCSPGenerator('https://example.com', {
+            hashAlgorithms: ['md5' as any],
+          }),
+      ).toThrow('Unsupported hash algorithm "md5"')
+    })
+
     test('should handle inline scripts with nonce', async () => {
       const html = `
         <html>
@@ -765,6 +805,1215 @@ describe('SecureCSPGenerator', () => {
     })
   })
 
+  describe('followStylesheets', () => {
+    const routes: Record<string, string> = {
+      'https://example.com/': `
+        <html><head>
+          <link rel="stylesheet" href="https://cdn.example.com/css/main.css">
+        </head></html>`,
+      'https://cdn.example.com/css/main.css': `
+        @import "fonts/fonts.css";
+        body { background: url(../img/bg.png); }`,
+      'https://cdn.example.com/css/fonts/fonts.css': `
+        @import url("https://deep.example.com/level3.css");
+        @font-face { font-family: X; src: url(https://fonts.example.net/x.woff2); }`,
+      'https://deep.example.com/level3.css': `
+        @import url("https://deeper.example.com/level4.css");`,
+      'https://deeper.example.com/level4.css': `
+        body { background: url(https://too-deep.example.com/a.png); }`,
+    }
+    let requested: string[]
+
+    beforeEach(() => {
+      requested = []
+      global.fetch = mock(async (input: string | URL) => {
+        const url = String(input)
+        requested.push(url)
+        if (!(url in routes)) return new Response('', {status: 404})
+        return new Response(routes[url], {status: 200})
+      }) as unknown as typeof fetch
+    })
+
+    test('should not fetch stylesheets by default', async () => {
+      const generator = new SecureCSPGenerator('https://example.com')
+      const cspHeader = await generator.generate()
+
+      expect(requested).toEqual(['https://example.com/'])
+      expect(cspHeader).not.toContain('font-src')
+    })
+
+    test('should add fonts, images and imports from linked CSS', async () => {
+      const generator = new SecureCSPGenerator('https://example.com', {
+        followStylesheets: true,
+      })
+      const cspHeader = await generator.generate()
+
+      expect(cspHeader).toContain('font-src https://fonts.example.net')
+      expect(cspHeader).toContain('img-src https://cdn.example.com')
+      expect(cspHeader).toContain('https://deep.example.com')
+      expect(requested).toContain('https://cdn.example.com/css/fonts/fonts.css')
+    })
+
+    test('should stop at maxStylesheetDepth', async () => {
+      const generator = new SecureCSPGenerator('https://example.com', {
+        followStylesheets: true,
+        maxStylesheetDepth: 2,
+      })
+      await generator.generate()
+
+      expect(requested).not.toContain('https://deep.example.com/level3.css')
+
+      requested = []
+      await new SecureCSPGenerator('https://example.com', {
+        followStylesheets: true,
+      }).generate()
+      expect(requested).toContain('https://deep.example.com/level3.css')
+      expect(requested).not.toContain('https://deeper.example.com/level4.css')
+    })
+
+    test('should not fetch stylesheets from private origins', async () => {
+      dnsResults = [{address: '10.0.0.5', family: 4}]
+      const generator = new SecureCSPGenerator('https://example.com', {
+        followStylesheets: true,
+      })
+      await generator.generate()
+
+      expect(requested).toEqual(['https://example.com/'])
+    })
+
+    test('should warn and continue when a stylesheet fails', async () => {
+      const generator = new SecureCSPGenerator('https://example.com', {
+        followStylesheets: true,
+        logger: mockLogger,
+      })
+      await generator.generateFromHtml(
+        '<link rel="stylesheet" href="https://cdn.example.com/missing.css">',
+      )
+
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        expect.stringContaining('missing.css skipped'),
+      )
+    })
+  })
+
+  describe('analyzeScripts', () => {
+    const html = `
+      <html><body>
+        <script src="https://cdn.example.com/app.js"></script>
+        <script>
+          fetch('https://api.example.com/v1/items')
+        </script>
+        <script type="application/ld+json">{"url": "fetch('https://json.example.com')"}</script>
+      </body></html>`
+
+    beforeEach(() => {
+      global.fetch = mock(async (input: string | URL) => {
+        if (String(input) !== 'https://cdn.example.com/app.js') {
+          return new Response('', {status: 404})
+        }
+        return new Response(
+          "const ws = new WebSocket('wss://live.example.com/feed')\n" +
+            "new Worker('/static/worker.js')",
+          {status: 200},
+        )
+      }) as unknown as typeof fetch
+    })
+
+    test('should not analyze scripts by default', async () => {
+      const generator = new SecureCSPGenerator('https://example.com')
+      const cspHeader = await generator.generateFromHtml(html)
+
+      expect(cspHeader).not.toContain('connect-src')
+      expect(generator.getReport().scriptFindings).toEqual([])
+    })
+
+    test('should add endpoints from inline and external scripts', async () => {
+      const generator = new SecureCSPGenerator('https://example.com', {
+        analyzeScripts: true,
+      })
+      const cspHeader = await generator.generateFromHtml(html)
+
+      expect(cspHeader).toContain('connect-src')
+      expect(cspHeader).toContain('https://api.example.com')
+      expect(cspHeader).toContain('wss://live.example.com')
+      expect(cspHeader).toContain('worker-src https://example.com')
+      expect(cspHeader).not.toContain('json.example.com')
+    })
+
+    test('should report where each endpoint was found', async () => {
+      const generator = new SecureCSPGenerator('https://example.com', {
+        analyzeScripts: true,
+      })
+      await generator.generateFromHtml(html)
+      const findings = generator.getReport().scriptFindings
+
+      expect(findings).toContainEqual({
+        api: 'fetch',
+        directive: 'connect-src',
+        url: 'https://api.example.com/v1/items',
+        script: 'https://example.com/',
+        inline: true,
+        line: 2,
+        column: 17,
+      })
+      expect(findings).toContainEqual({
+        api: 'new Worker',
+        directive: 'worker-src',
+        url: '/static/worker.js',
+        script: 'https://cdn.example.com/app.js',
+        inline: false,
+        line: 2,
+        column: 12,
+      })
+    })
+
+    test('should not add insecure WebSocket endpoints', async () => {
+      const generator = new SecureCSPGenerator('https://example.com', {
+        analyzeScripts: true,
+      })
+      const cspHeader = await generator.generateFromHtml(
+        "<script>new WebSocket('ws://plain.example.com')</script>",
+      )
+
+      expect(cspHeader).not.toContain('ws://plain.example.com')
+    })
+
+    test('should resolve import() against the importing script', async () => {
+      global.fetch = mock(async (input: string | URL) => {
+        if (String(input) !== 'https://esm.example.org/lib/main.js') {
+          return new Response('', {status: 404})
+        }
+        return new Response("import('./chunk.js')", {status: 200})
+      }) as unknown as typeof fetch
+
+      const generator = new SecureCSPGenerator('https://example.com', {
+        analyzeScripts: true,
+        useNonce: false,
+        sourceGranularity: 'url',
+      })
+      const cspHeader = await generator.generateFromHtml(
+        '<script src="https://esm.example.org/lib/main.js"></script>' +
+          "<script>import('./local.js')</script>",
+      )
+
+      expect(cspHeader).toContain('https://esm.example.org/lib/chunk.js')
+      expect(cspHeader).toContain('https://example.com/local.js')
+      expect(cspHeader).not.toContain('https://example.com/chunk.js')
+    })
+
+    test('should cap script downloads when maxBodySize is unlimited', async () => {
+      // 1 MiB chunks without a content-length, so the cap applies mid-stream
+      const chunk = new TextEncoder().encode(
+        "fetch('https://api.example.net/')".padEnd(1024 * 1024),
+      )
+      let pulled = 0
+      global.fetch = mock(
+        async () =>
+          new Response(
+            new ReadableStream({
+              pull(controller) {
+                if (++pulled > 8) controller.close()
+                else controller.enqueue(chunk)
+              },
+            }),
+            {status: 200},
+          ),
+      ) as unknown as typeof fetch
+
+      const generator = new SecureCSPGenerator('https://example.com', {
+        analyzeScripts: true,
+        logger: mockLogger,
+      })
+      const cspHeader = await generator.generateFromHtml(
+        '<script src="https://cdn.example.com/big.js"></script>',
+      )
+
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        `Script https://cdn.example.com/big.js skipped: Response exceeded ${5 * 1024 * 1024} bytes`,
+      )
+      expect(pulled).toBeLessThan(8)
+      expect(cspHeader).not.toContain('api.example.net')
+    })
+  })
+
+  describe('generateFromHtml', () => {
+    test('should analyze supplied HTML without fetching', async () => {
+      const html = `
+        <html>
+          <body>
+            <script src="https://cdn.example.com/app.js"></script>
+            <img src="/logo.png">
+          </body>
+        </html>
+      `
+      const fetchSpy = mock(async () => new Response('')) as any
+      global.fetch = fetchSpy
+
+      const generator = new SecureCSPGenerator('https://example.com', {
+        useNonce: false,
+      })
+      const cspHeader = await generator.generateFromHtml(html)
+
+      expect(fetchSpy).not.toHaveBeenCalled()
+      expect(cspHeader).toContain('script-src https://cdn.example.com')
+      expect(cspHeader).toContain('img-src https://example.com')
+    })
+
+    test('should resolve relative references against the base URL', async () => {
+      const cspHeader = await SecureCSPGenerator.fromHtml(
+        '<html><body><iframe src="//embed.example.org/v/1"></iframe></body></html>',
+        'https://example.com/docs/page.html',
+      )
+
+      expect(cspHeader).toContain('frame-src https://embed.example.org')
+    })
+
+    test('should still enforce the base URL scheme', () => {
+      expect(() =>
+        SecureCSPGenerator.fromHtml('<html></html>', 'http://example.com'),
+      ).toThrow('Insecure scheme rejected')
+    })
+  })
+
+  describe('subresource integrity', () => {
+    const html =
+      '<script src="/app.js"></script>' +
+      '<link rel="stylesheet" href="https://cdn.example.com/a.css" crossorigin="use-credentials">' +
+      '<script src="https://nocors.example.com/b.js"></script>' +
+      '<script src="https://cdn.example.com/c.js" integrity="sha384-existing"></script>'
+    const requests: Request[] = []
+
+    beforeEach(() => {
+      requests.length = 0
+      global.fetch = mock(async (input: string | URL, init?: RequestInit) => {
+        requests.push(new Request(input, init))
+        const cors = {'access-control-allow-origin': 'https://example.com'}
+        switch (String(input)) {
+          case 'https://example.com/app.js':
+            return new Response('app', {status: 200})
+          case 'https://cdn.example.com/a.css':
+            return new Response('body{}', {status: 200, headers: cors})
+          case 'https://cdn.example.com/c.js':
+            return new Response('c', {status: 200, headers: cors})
+          case 'https://nocors.example.com/b.js':
+            return new Response('b', {status: 200})
+        }
+        return new Response('', {status: 404})
+      }) as unknown as typeof fetch
+    })
+
+    test('should not download resources by default', async () => {
+      const generator = new SecureCSPGenerator('https://example.com')
+      await generator.generateFromHtml(html)
+      expect(generator.getIntegrityManifest()).toEqual({})
+      expect(requests).toEqual([])
+    })
+
+    test('should compute sha384 values for CORS-enabled resources', async () => {
+      const generator = new SecureCSPGenerator('https://example.com', {
+        logger: mockLogger,
+        integrity: true,
+      })
+      await generator.generateFromHtml(html)
+
+      expect(generator.getIntegrityManifest()).toEqual({
+        'https://example.com/app.js':
+          'sha384-eHhHA5yRWyrA39S98cz2A2QMX97dgcouvSCGeivEhVGH4n/L3CzYW4PPvcsd5jL3',
+        'https://cdn.example.com/a.css':
+          'sha384-myyg/hQ74aSgjBBvVME/QXAXEkT4Y9dHbVQ5C0lIyGpldvNLJV2IWc5ElXbqLi06',
+        'https://cdn.example.com/c.js':
+          'sha384-QPmKBWYL+HGALuWZZN4ZRb1zGkXMf0jk2t2S80p+7sCJ4UmtjCQ08ReS5Yi3QNmX',
+      })
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        'Integrity for https://nocors.example.com/b.js skipped: served without CORS headers, so SRI would block it',
+      )
+      const origins = requests.map((r) => [r.url, r.headers.get('origin')])
+      expect(origins).toContainEqual([
+        'https://cdn.example.com/a.css',
+        'https://example.com',
+      ])
+      expect(origins).toContainEqual(['https://example.com/app.js', null])
+    })
+
+    test('should add integrity and crossorigin attributes to the document', async () => {
+      const generator = new SecureCSPGenerator('https://example.com', {
+        logger: mockLogger,
+        integrity: true,
+      })
+      await generator.generateFromHtml(html)
+      const manifest = generator.getIntegrityManifest()
+
+      expect(generator.injectIntegrity()).toBe(
+        `<script integrity="${manifest['https://example.com/app.js']}" crossorigin="anonymous" src="/app.js"></script>` +
+          `<link integrity="${manifest['https://cdn.example.com/a.css']}" rel="stylesheet" href="https://cdn.example.com/a.css" crossorigin="use-credentials">` +
+          '<script src="https://nocors.example.com/b.js"></script>' +
+          '<script src="https://cdn.example.com/c.js" integrity="sha384-existing"></script>',
+      )
+    })
+
+    test('should skip resources that fail the fetch limits', async () => {
+      const generator = new SecureCSPGenerator('https://example.com', {
+        logger: mockLogger,
+        integrity: true,
+        maxBodySize: 2,
+      })
+      await generator.generateFromHtml('<script src="/app.js"></script>')
+      expect(generator.getIntegrityManifest()).toEqual({})
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        'Integrity for https://example.com/app.js skipped: Response exceeded 2 bytes',
+      )
+    })
+  })
+
+  describe('reporting', () => {
+    test('should add report-uri and report-to directives', async () => {
+      const generator = new SecureCSPGenerator('https://example.com', {
+        reportUri: 'https://reports.example.com/csp',
+      })
+      const cspHeader = await generator.generate()
+
+      expect(cspHeader).toContain('report-uri https://reports.example.com/csp')
+      expect(cspHeader).toContain('report-to csp-endpoint')
+      expect(generator.getHeaders()).toEqual({
+        'Content-Security-Policy': cspHeader,
+        'Reporting-Endpoints': 'csp-endpoint="https://reports.example.com/csp"',
+        'Report-To': JSON.stringify({
+          group: 'csp-endpoint',
+          max_age: 10886400,
+          endpoints: [{url: 'https://reports.example.com/csp'}],
+        }),
+      })
+    })
+
+    test('should deliver the policy as report-only', async () => {
+      const generator = new SecureCSPGenerator('https://example.com', {
+        reportOnly: true,
+      })
+      const cspHeader = await generator.generate()
+
+      expect(cspHeader).not.toContain('report-uri')
+      expect(generator.getHeaders()).toEqual({
+        'Content-Security-Policy-Report-Only': cspHeader,
+      })
+    })
+
+    test('should use a custom report group', async () => {
+      const generator = new SecureCSPGenerator('https://example.com', {
+        reportUri: 'https://reports.example.com/csp',
+        reportGroup: 'csp-violations',
+      })
+      const cspHeader = await generator.generate()
+
+      expect(cspHeader).toContain('report-to csp-violations')
+      expect(generator.getHeaders()['Reporting-Endpoints']).toBe(
+        'csp-violations="https://reports.example.com/csp"',
+      )
+    })
+
+    test('should reject relative report URIs and invalid group names', () => {
+      expect(
+        () =>
+          new SecureCSPGenerator('https://example.com', {reportUri: '/csp'}),
+      ).toThrow('reportUri must be an absolute URL')
+      expect(
+        () =>
+          new SecureCSPGenerator('https://example.com', {
+            reportUri: 'https://example.com/csp',
+            reportGroup: 'CSP Group',
+          }),
+      ).toThrow('Invalid report group')
+    })
+  })
+
+  describe('meta output', () => {
+    test('should render the policy as a meta tag without frame-ancestors', async () => {
+      const generator = new SecureCSPGenerator('https://example.com', {
+        logger: mockLogger,
+        useNonce: false,
+        presets: {'frame-ancestors': ["'none'"]},
+        reportUri: 'https://reports.example.com/csp',
+      })
+      await generator.generate()
+
+      const tag = generator.getMetaTag()
+      expect(tag).toStartWith(
+        `<meta http-equiv="Content-Security-Policy" content="default-src 'self'`,
+      )
+      expect(tag).not.toContain('frame-ancestors')
+      expect(tag).not.toContain('report-')
+      expect(mockLogger.warn).toHaveBeenCalledTimes(3)
+    })
+
+    test('should insert the meta tag into the analyzed document', async () => {
+      const generator = new SecureCSPGenerator('https://example.com', {
+        logger: mockLogger,
+      })
+      await generator.generateFromHtml(
+        '<html><head><meta charset="utf-8"><script src="https://cdn.example.com/a.js"></script></head></html>',
+      )
+
+      expect(generator.injectMetaTag()).toBe(
+        `<html><head><meta charset="utf-8">${generator.getMetaTag()}<script src="https://cdn.example.com/a.js"></script></head></html>`,
+      )
+    })
+  })
+
+  describe('inline styles', () => {
+    const html = `<html><head>
+<style>p{}</style>
+</head><body>
+<div class="x" style="color:red">a</div>
+<style>   </style>
+</body></html>`
+
+    test('should report inline styles with their element and line', async () => {
+      const generator = new SecureCSPGenerator('https://example.com', {
+        logger: mockLogger,
+        useNonce: false,
+      })
+      const policy = await generator.generateFromHtml(html)
+
+      expect(policy).not.toContain('sha256-')
+      expect(generator.getReport().inlineStyles).toEqual([
+        {
+          kind: 'style-element',
+          directive: 'style-src-elem',
+          element: '<style>',
+          line: 2,
+          content: 'p{}',
+          hashes: ["'sha256-gG2yISYereRMiG2lMXrbiUgi0Ubw9p7QCeWcroOvy9Y='"],
+        },
+        {
+          kind: 'style-attribute',
+          directive: 'style-src-attr',
+          element: '<div class="x" style="color:red">',
+          line: 4,
+          attribute: 'style',
+          content: 'color:red',
+          hashes: ["'sha256-8f935d27GvUutRyY9yWScUMiFUk4WTdZURISiYfPOeQ='"],
+        },
+      ])
+    })
+
+    test('should hash blocks into style-src and attributes into style-src-attr', async () => {
+      const generator = new SecureCSPGenerator('https://example.com', {
+        logger: mockLogger,
+        useNonce: false,
+        hashInlineStyles: true,
+      })
+      await generator.generateFromHtml(html)
+
+      const policy = generator.getPolicy()
+      expect(policy.get('style-src')).toContain(
+        "'sha256-gG2yISYereRMiG2lMXrbiUgi0Ubw9p7QCeWcroOvy9Y='",
+      )
+      expect(policy.get('style-src-attr')).toEqual([
+        "'unsafe-hashes'",
+        "'sha256-8f935d27GvUutRyY9yWScUMiFUk4WTdZURISiYfPOeQ='",
+      ])
+    })
+
+    test('should put attribute hashes in style-src with unsafe-hashes', async () => {
+      const generator = new SecureCSPGenerator('https://example.com', {
+        logger: mockLogger,
+        useNonce: false,
+        hashInlineStyles: true,
+        attributeHashes: 'unsafe-hashes',
+      })
+      await generator.generateFromHtml(html)
+
+      const policy = generator.getPolicy()
+      expect(policy.get('style-src-attr')).toBeUndefined()
+      expect(policy.get('style-src')).toEqual(
+        expect.arrayContaining([
+          "'sha256-gG2yISYereRMiG2lMXrbiUgi0Ubw9p7QCeWcroOvy9Y='",
+          "'unsafe-hashes'",
+          "'sha256-8f935d27GvUutRyY9yWScUMiFUk4WTdZURISiYfPOeQ='",
+        ]),
+      )
+    })
+
+    test('should reject an unknown attributeHashes mode', () => {
+      expect(
+        () =>
+          new SecureCSPGenerator('https://example.com', {
+            attributeHashes: 'inline' as any,
+          }),
+      ).toThrow('Invalid attributeHashes "inline"')
+    })
+  })
+
+  describe('event handlers and javascript: URLs', () => {
+    const html = `<html><body>
+<button type="button" onclick="go()">Go</button>
+<a href=" java\tscript:void(0) ">x</a>
+<form action="/search"><button formaction="JavaScript:send()">s</button></form>
+<img src="/a.png" onerror="">
+</body></html>`
+
+    test('should report handlers and URLs with their element and line', async () => {
+      const generator = new SecureCSPGenerator('https://example.com', {
+        logger: mockLogger,
+      })
+      const policy = await generator.generateFromHtml(html)
+
+      expect(policy).not.toContain("'unsafe-hashes'")
+      expect(generator.getReport().inlineHandlers).toEqual([
+        {
+          kind: 'event-handler',
+          directive: 'script-src-attr',
+          element: '<button type="button" onclick="go()">',
+          line: 2,
+          attribute: 'onclick',
+          content: 'go()',
+          hashes: ["'sha256-5KYv+PUboo5h+0+YAtGRPbwv5d/QxzHslP4YGnUaxRw='"],
+        },
+        {
+          kind: 'javascript-url',
+          directive: 'script-src-elem',
+          element: '<a href=" java\tscript:void(0) ">',
+          line: 3,
+          attribute: 'href',
+          content: 'javascript:void(0)',
+          hashes: ["'sha256-rRMdkshZyJlCmDX27XnL7g3zXaxv7ei6Sg+yt4R3svU='"],
+        },
+        {
+          kind: 'javascript-url',
+          directive: 'script-src-elem',
+          element: '<button formaction="JavaScript:send()">',
+          line: 4,
+          attribute: 'formaction',
+          content: 'javascript:send()',
+          hashes: [expect.stringMatching(/^'sha256-/)],
+        },
+      ])
+    })
+
+    test('should hash handlers into script-src-attr and URLs into script-src', async () => {
+      const generator = new SecureCSPGenerator('https://example.com', {
+        logger: mockLogger,
+        useNonce: false,
+        hashInlineHandlers: true,
+      })
+      await generator.generateFromHtml(html)
+
+      const policy = generator.getPolicy()
+      expect(policy.get('script-src-attr')).toEqual([
+        "'unsafe-hashes'",
+        "'sha256-5KYv+PUboo5h+0+YAtGRPbwv5d/QxzHslP4YGnUaxRw='",
+      ])
+      expect(policy.get('script-src')).toEqual(
+        expect.arrayContaining([
+          "'unsafe-hashes'",
+          "'sha256-rRMdkshZyJlCmDX27XnL7g3zXaxv7ei6Sg+yt4R3svU='",
+        ]),
+      )
+    })
+
+    test('should put handler hashes in script-src with unsafe-hashes', async () => {
+      const generator = new SecureCSPGenerator('https://example.com', {
+        logger: mockLogger,
+        useNonce: false,
+        hashInlineHandlers: true,
+        attributeHashes: 'unsafe-hashes',
+      })
+      await generator.generateFromHtml(html)
+
+      const policy = generator.getPolicy()
+      expect(policy.get('script-src-attr')).toBeUndefined()
+      expect(policy.get('script-src')).toEqual(
+        expect.arrayContaining([
+          "'sha256-5KYv+PUboo5h+0+YAtGRPbwv5d/QxzHslP4YGnUaxRw='",
+          "'sha256-rRMdkshZyJlCmDX27XnL7g3zXaxv7ei6Sg+yt4R3svU='",
+        ]),
+      )
+    })
+
+    test('should count handlers as inline script for unsafe-inline', async () => {
+      const generator = new SecureCSPGenerator('https://example.com', {
+        logger: mockLogger,
+        useNonce: false,
+        allowUnsafeInlineScript: true,
+      })
+      await generator.generateFromHtml('<body onload="init()"></body>')
+
+      expect(generator.getPolicy().get('script-src')).toContain(
+        "'unsafe-inline'",
+      )
+    })
+  })
+
+  describe('trusted types', () => {
+    const html =
+      "<script>const p = trustedTypes.createPolicy('app', {})\nel.innerHTML = x</script>" +
+      '<script src="https://cdn.example.com/lib.js"></script>'
+
+    beforeEach(() => {
+      global.fetch = mock(
+        async () =>
+          new Response("trustedTypes.createPolicy('lib', {})", {status: 200}),
+      ) as unknown as typeof fetch
+    })
+
+    test('should report policies and sinks in inline scripts', async () => {
+      const generator = new SecureCSPGenerator('https://example.com', {
+        logger: mockLogger,
+      })
+      const policy = await generator.generateFromHtml(html)
+
+      expect(policy).not.toContain('trusted-types')
+      expect(generator.getReport().trustedTypes).toEqual([
+        {
+          kind: 'policy',
+          name: 'app',
+          script: 'https://example.com/',
+          inline: true,
+          line: 1,
+          column: 37,
+        },
+        {
+          kind: 'sink',
+          name: 'innerHTML',
+          script: 'https://example.com/',
+          inline: true,
+          line: 2,
+          column: 4,
+        },
+      ])
+    })
+
+    test('should list discovered policies when Trusted Types are required', async () => {
+      const warn = mock(() => {})
+      const generator = new SecureCSPGenerator('https://example.com', {
+        logger: {...mockLogger, warn},
+        requireTrustedTypes: true,
+        analyzeScripts: true,
+        trustedTypes: {defaultPolicy: true, allowDuplicates: true},
+      })
+      await generator.generateFromHtml(html)
+
+      expect(generator.getPolicy().get('trusted-types')).toEqual([
+        'app',
+        'lib',
+        'default',
+        "'allow-duplicates'",
+      ])
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining('1 DOM XSS sink(s) will throw'),
+      )
+    })
+
+    test('should leave trusted-types out when no policy is known', async () => {
+      const generator = new SecureCSPGenerator('https://example.com', {
+        logger: mockLogger,
+        requireTrustedTypes: true,
+      })
+      await generator.generateFromHtml('<p>static</p>')
+
+      expect(generator.getPolicy().has('trusted-types')).toBe(false)
+    })
+
+    test('should validate configured policy names', () => {
+      expect(
+        () =>
+          new SecureCSPGenerator('https://example.com', {
+            trustedTypes: {policies: ['my policy']},
+          }),
+      ).toThrow('Invalid value "my policy" for trusted-types')
+    })
+  })
+
+  describe('split directives', () => {
+    test('should emit -elem and -attr directives', async () => {
+      const generator = new SecureCSPGenerator('https://example.com', {
+        logger: mockLogger,
+        useNonce: false,
+        splitDirectives: true,
+        hashInlineStyles: true,
+        attributeHashes: 'unsafe-hashes',
+        presets: {'script-src': ['https://cdn.example.com']},
+      })
+      await generator.generateFromHtml('<p style="color:red">x</p>')
+
+      const policy = generator.getPolicy()
+      expect(policy.get('script-src-elem')).toEqual(['https://cdn.example.com'])
+      expect(policy.get('script-src-attr')).toEqual(["'none'"])
+      expect(policy.get('style-src-elem')).toEqual(["'self'"])
+      expect(policy.get('style-src-attr')).toEqual([
+        "'unsafe-hashes'",
+        "'sha256-8f935d27GvUutRyY9yWScUMiFUk4WTdZURISiYfPOeQ='",
+      ])
+    })
+
+    test('should carry an effective unsafe-inline over to -attr', async () => {
+      const generator = new SecureCSPGenerator('https://example.com', {
+        logger: mockLogger,
+        useNonce: false,
+        splitDirectives: true,
+        allowUnsafeInlineScript: true,
+      })
+      await generator.generateFromHtml('<button onclick="go()">x</button>')
+
+      expect(generator.getPolicy().get('script-src-attr')).toEqual([
+        "'unsafe-inline'",
+      ])
+    })
+
+    test('should validate presets against the directive registry', () => {
+      expect(
+        () =>
+          new SecureCSPGenerator('https://example.com', {
+            presets: {'script-src': ['https:', 'cdn.example.com']},
+          }),
+      ).not.toThrow()
+      expect(
+        () =>
+          new SecureCSPGenerator('https://example.com', {
+            presets: {'script-src': ["'self"]},
+          }),
+      ).toThrow(`Invalid value "'self" for script-src`)
+    })
+  })
+
+  describe('source granularity', () => {
+    const html =
+      '<script src="https://cdn.jsdelivr.net/npm/lib@1/lib.js"></script>' +
+      '<img src="https://img.example.com/a/b.png">'
+
+    test('should keep origins by default and report shared hosts', async () => {
+      const generator = new SecureCSPGenerator('https://example.com', {
+        logger: mockLogger,
+      })
+      await generator.generateFromHtml(html)
+
+      expect(generator.getPolicy().get('script-src')).toContain(
+        'https://cdn.jsdelivr.net',
+      )
+      const {sources} = generator.getReport()
+      const script = sources.find((f) => f.directive === 'script-src')
+      const image = sources.find((f) => f.directive === 'img-src')
+      expect(script).toMatchObject({
+        directive: 'script-src',
+        source: 'https://cdn.jsdelivr.net',
+        url: 'https://cdn.jsdelivr.net/npm/lib@1/lib.js',
+        granularity: 'origin',
+        sharedHost: true,
+      })
+      expect(image).toMatchObject({
+        directive: 'img-src',
+        source: 'https://img.example.com',
+        sharedHost: false,
+      })
+    })
+
+    test('should apply a granularity per directive', async () => {
+      const generator = new SecureCSPGenerator('https://example.com', {
+        logger: mockLogger,
+        sourceGranularity: {'script-src': 'url', 'img-src': 'path'},
+      })
+      await generator.generateFromHtml(html)
+
+      const policy = generator.getPolicy()
+      expect(policy.get('script-src')).toContain(
+        'https://cdn.jsdelivr.net/npm/lib@1/lib.js',
+      )
+      expect(policy.get('img-src')).toContain('https://img.example.com/a/')
+    })
+
+    test('should reject unknown modes', () => {
+      expect(
+        () =>
+          new SecureCSPGenerator('https://example.com', {
+            sourceGranularity: 'host' as 'origin',
+          }),
+      ).toThrow('Invalid source granularity "host"')
+    })
+  })
+
+  describe('wildcard collapsing', () => {
+    const html = [1, 2, 3, 4, 5]
+      .map(
+        (i) =>
+          `<img src="https://a${i}.cdn.example.com/i.png">` +
+          `<script src="https://s${i}.example.com/a.js"></script>`,
+      )
+      .join('')
+
+    test('should collapse sibling image hosts but not script hosts', async () => {
+      const generator = new SecureCSPGenerator('https://example.com', {
+        logger: mockLogger,
+        collapseWildcards: true,
+      })
+      await generator.generateFromHtml(html)
+
+      const policy = generator.getPolicy()
+      expect(policy.get('img-src')).toEqual(['https://*.cdn.example.com'])
+      expect(policy.get('script-src')).toContain('https://s1.example.com')
+      expect(generator.getReport().wildcards).toEqual([
+        {
+          directive: 'img-src',
+          wildcard: 'https://*.cdn.example.com',
+          domain: 'example.com',
+          replaced: [1, 2, 3, 4, 5].map((i) => `https://a${i}.cdn.example.com`),
+        },
+      ])
+    })
+
+    test('should be off by default', async () => {
+      const generator = new SecureCSPGenerator('https://example.com', {
+        logger: mockLogger,
+      })
+      await generator.generateFromHtml(html)
+
+      expect(generator.getPolicy().get('img-src')).toHaveLength(5)
+      expect(generator.getReport().wildcards).toEqual([])
+    })
+
+    test('should validate options', () => {
+      expect(
+        () =>
+          new SecureCSPGenerator('https://example.com', {
+            collapseWildcards: {threshold: 1},
+          }),
+      ).toThrow('collapseWildcards.threshold must be an integer of at least 2')
+      expect(
+        () =>
+          new SecureCSPGenerator('https://example.com', {
+            collapseWildcards: {exclude: ['scripts' as 'script-src']},
+          }),
+      ).toThrow('Unknown CSP directive "scripts"')
+    })
+  })
+
+  describe('minimize', () => {
+    const presets = {
+      'img-src': ['https:', 'https://img.example.net', "'self'"],
+      'font-src': ["'self'"],
+    }
+
+    test('should drop redundant sources and directives', async () => {
+      const generator = new SecureCSPGenerator('https://example.com', {
+        logger: mockLogger,
+        useNonce: false,
+        minimize: true,
+        presets,
+      })
+      const header = await generator.generateFromHtml('<p>x</p>')
+
+      expect(header).not.toContain('font-src')
+      expect(generator.getPolicy().get('img-src')).toEqual(['https:', "'self'"])
+      expect(generator.getReport().minimized).toEqual([
+        {
+          directive: 'img-src',
+          source: 'https://img.example.net',
+          reason: 'covered by https:',
+        },
+        {
+          directive: 'font-src',
+          reason: 'same as default-src, which it falls back to',
+        },
+      ])
+    })
+
+    test('should be off by default', async () => {
+      const generator = new SecureCSPGenerator('https://example.com', {
+        logger: mockLogger,
+        useNonce: false,
+        presets,
+      })
+      const header = await generator.generateFromHtml('<p>x</p>')
+
+      expect(header).toContain("font-src 'self'")
+      expect(generator.getReport().minimized).toEqual([])
+    })
+  })
+
+  describe('header budget', () => {
+    const html =
+      [1, 2, 3, 4, 5, 6]
+        .map((i) => `<img src="https://a${i}.cdn.example.com/i.png">`)
+        .join('') +
+      Array.from(
+        {length: 20},
+        (_, i) => `<script>console.log(${i})</script>`,
+      ).join('')
+    const options = {
+      useNonce: false,
+      presets: {'font-src': ["'self'"]},
+    }
+
+    test('should shrink an over-budget policy step by step', async () => {
+      const generator = new SecureCSPGenerator('https://example.com', {
+        ...options,
+        logger: mockLogger,
+        maxHeaderBytes: 600,
+      })
+      const header = await generator.generateFromHtml(html)
+      const nonce = generator.getNonce()
+
+      expect(header.length).toBeLessThanOrEqual(600)
+      expect(header).not.toContain('font-src')
+      expect(header).toContain('img-src https://*.cdn.example.com')
+      expect(generator.getPolicy().get('script-src')).toEqual([
+        `'nonce-${nonce}'`,
+      ])
+      expect(generator.stampNonces()).toContain(`<script nonce="${nonce}">`)
+      const steps = generator.getReport().headerBudget
+      expect(steps.map((s) => s.step)).toEqual([
+        'minimize',
+        'collapse-wildcards',
+        'hashes-to-nonce',
+      ])
+      expect(steps[2]!.changes).toEqual([
+        'script-src: 20 hash(es) replaced by the nonce',
+      ])
+      expect(steps[2]!.after).toBe(header.length)
+      expect(mockLogger.warn).toHaveBeenCalled()
+    })
+
+    test('should leave a policy within budget alone', async () => {
+      const unlimited = await SecureCSPGenerator.fromHtml(
+        html,
+        'https://example.com',
+        {...options, logger: mockLogger},
+      )
+      const generator = new SecureCSPGenerator('https://example.com', {
+        ...options,
+        logger: mockLogger,
+        maxHeaderBytes: 8192,
+      })
+
+      expect(await generator.generateFromHtml(html)).toBe(unlimited)
+      expect(generator.getReport().headerBudget).toEqual([])
+    })
+
+    test('should fail with the largest directives', async () => {
+      const generator = new SecureCSPGenerator('https://example.com', {
+        ...options,
+        logger: mockLogger,
+        maxHeaderBytes: 100,
+      })
+
+      const error = await generator.generateFromHtml(html).catch((e) => e)
+      expect(error).toBeInstanceOf(HeaderBudgetError)
+      expect(error.maxHeaderBytes).toBe(100)
+      expect(error.bytes).toBeGreaterThan(100)
+      expect(error.largest[0].directive).toBe('script-src')
+      expect(error.message).toContain('largest directives: script-src')
+    })
+
+    test('should validate the budget', () => {
+      expect(
+        () =>
+          new SecureCSPGenerator('https://example.com', {maxHeaderBytes: -1}),
+      ).toThrow('maxHeaderBytes must be a non-negative integer')
+    })
+  })
+
+  describe('sandbox', () => {
+    test('should emit a configured token list', async () => {
+      const generator = new SecureCSPGenerator('https://example.com', {
+        logger: mockLogger,
+        sandbox: ['allow-scripts', 'allow-forms'],
+      })
+      await generator.generateFromHtml('<p>x</p>')
+
+      expect(generator.getPolicy().get('sandbox')).toEqual([
+        'allow-forms',
+        'allow-scripts',
+      ])
+    })
+
+    test('should emit a bare sandbox for an empty list', async () => {
+      const generator = new SecureCSPGenerator('https://example.com', {
+        logger: mockLogger,
+        sandbox: [],
+      })
+      const policy = await generator.generateFromHtml('<p>x</p>')
+
+      expect(policy).toMatch(/(?:^|; )sandbox(?:;|$)/)
+    })
+
+    test('should infer the tokens the page needs', async () => {
+      const generator = new SecureCSPGenerator('https://example.com', {
+        logger: mockLogger,
+        sandbox: 'infer',
+      })
+      await generator.generateFromHtml(
+        '<form action="/s"><input name="q"></form>' +
+          '<a href="https://other.example" target="_blank">x</a>' +
+          "<script>alert('hi')</script>",
+      )
+
+      expect(generator.getPolicy().get('sandbox')).toEqual([
+        'allow-forms',
+        'allow-modals',
+        'allow-popups',
+        'allow-scripts',
+      ])
+    })
+
+    test('should treat useSandbox as infer', async () => {
+      const generator = new SecureCSPGenerator('https://example.com', {
+        logger: mockLogger,
+        useSandbox: true,
+      })
+      await generator.generateFromHtml('<p>static</p>')
+
+      expect(generator.getPolicy().get('sandbox')).toEqual([])
+    })
+
+    test('should warn about allow-scripts with allow-same-origin', async () => {
+      const warn = mock(() => {})
+      const generator = new SecureCSPGenerator('https://example.com', {
+        logger: {...mockLogger, warn},
+        sandbox: ['allow-scripts', 'allow-same-origin'],
+      })
+      await generator.generateFromHtml('<p>x</p>')
+
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining('allow-scripts with allow-same-origin'),
+      )
+    })
+
+    test('should reject unknown tokens', () => {
+      expect(
+        () =>
+          new SecureCSPGenerator('https://example.com', {
+            sandbox: ['allow-everything' as 'allow-forms'],
+          }),
+      ).toThrow('Unknown sandbox token "allow-everything"')
+    })
+  })
+
+  describe('nonce stamping', () => {
+    test('should classify module preloads and skip data block sources', async () => {
+      const generator = new SecureCSPGenerator('https://example.com', {
+        logger: mockLogger,
+        useNonce: false,
+      })
+      await generator.generateFromHtml(
+        '<link rel="modulepreload" href="https://modules.example.com/m.js">' +
+          '<script type="text/template" src="https://tpl.example.com/t.html"></script>',
+      )
+      expect(generator.getPolicy().get('script-src')).toEqual([
+        'https://modules.example.com',
+      ])
+      expect(generator.stampNonces()).not.toContain('nonce=')
+    })
+
+    test('should stamp the policy nonce onto the analyzed document', async () => {
+      const generator = new SecureCSPGenerator('https://example.com', {
+        logger: mockLogger,
+        customNonce: 'abc123',
+      })
+      const policy = await generator.generateFromHtml(
+        '<script src="https://cdn.example.com/a.js"></script><style>p{}</style>',
+      )
+      expect(generator.getNonce()).toBe('abc123')
+      expect(policy).toContain("'nonce-abc123'")
+      expect(generator.stampNonces()).toBe(
+        '<script nonce="abc123" src="https://cdn.example.com/a.js"></script><style nonce="abc123">p{}</style>',
+      )
+      // default-src 'self' carries over into the new style-src
+      expect(generator.getPolicy().get('style-src')).toEqual([
+        "'self'",
+        "'nonce-abc123'",
+      ])
+    })
+
+    test('should add the nonce to every style directive', async () => {
+      const generator = new SecureCSPGenerator('https://example.com', {
+        logger: mockLogger,
+        customNonce: 'abc123',
+        splitDirectives: true,
+        presets: {'style-src': ["'self'"]},
+      })
+      await generator.generateFromHtml('<style>p{}</style>')
+
+      const policy = generator.getPolicy()
+      expect(policy.get('style-src')).toEqual(["'self'", "'nonce-abc123'"])
+      expect(policy.get('style-src-elem')).toEqual(["'self'", "'nonce-abc123'"])
+      expect(policy.get('style-src-attr')).toEqual(["'none'"])
+    })
+
+    test('should leave style-src alone without inline styles or with unsafe-inline', async () => {
+      const plain = new SecureCSPGenerator('https://example.com', {
+        logger: mockLogger,
+        customNonce: 'abc123',
+      })
+      await plain.generateFromHtml('<p>x</p>')
+      expect(plain.getPolicy().get('style-src')).toBeUndefined()
+
+      const unsafe = new SecureCSPGenerator('https://example.com', {
+        logger: mockLogger,
+        customNonce: 'abc123',
+        allowUnsafeInlineStyle: true,
+      })
+      await unsafe.generateFromHtml('<style>p{}</style>')
+      expect(unsafe.getPolicy().get('style-src')).toEqual(["'unsafe-inline'"])
+    })
+
+    test('should stamp inline import maps', async () => {
+      const generator = new SecureCSPGenerator('https://example.com', {
+        logger: mockLogger,
+        customNonce: 'abc123',
+      })
+      await generator.generateFromHtml(
+        '<script type="importmap">{"imports": {}}</script>',
+      )
+      expect(generator.stampNonces()).toBe(
+        '<script nonce="abc123" type="importmap">{"imports": {}}</script>',
+      )
+    })
+  })
+
+  describe('existing policies', () => {
+    test('should capture enforced and report-only policy headers', async () => {
+      mockFetchResponse = new Response('<html></html>', {
+        status: 200,
+        headers: {
+          'content-type': 'text/html',
+          'content-security-policy':
+            "default-src 'self', script-src   https://cdn.example.com",
+          'content-security-policy-report-only': "img-src 'self'",
+        },
+      })
+
+      const generator = new SecureCSPGenerator('https://example.com')
+      await generator.generate()
+
+      expect(generator.getReport().existingPolicies).toEqual([
+        {source: 'header', policy: "default-src 'self'"},
+        {source: 'header', policy: 'script-src https://cdn.example.com'},
+        {source: 'report-only-header', policy: "img-src 'self'"},
+      ])
+    })
+
+    test('should capture <meta http-equiv> policies', async () => {
+      const generator = new SecureCSPGenerator('https://example.com')
+      await generator.generateFromHtml(`
+        <html>
+          <head>
+            <meta http-equiv="Content-Security-Policy" content="script-src 'self'">
+            <meta http-equiv="refresh" content="30">
+          </head>
+        </html>
+      `)
+
+      expect(generator.getReport().existingPolicies).toEqual([
+        {source: 'meta', policy: "script-src 'self'"},
+      ])
+    })
+
+    test('should report no policies when the page has none', async () => {
+      const generator = new SecureCSPGenerator('https://example.com')
+      await generator.generate()
+
+      expect(generator.getReport().existingPolicies).toEqual([])
+    })
+  })
+
   describe('generate', () => {
     test('should include default directives', async () => {
       const generator = new SecureCSPGenerator('https://example.com')
@@ -813,6 +2062,15 @@ describe('SecureCSPGenerator', () => {
       expect(cspHeader).toContain('connect-src https://api.example.com')
     })
 
+    test('should return a structured policy alongside the header', async () => {
+      const generator = new SecureCSPGenerator('https://example.com')
+      const cspHeader = await generator.generate()
+      const policy = generator.getPolicy()
+
+      expect(policy.toString()).toBe(cspHeader)
+      expect(policy.get('object-src')).toEqual(["'none'"])
+    })
+
     test('should format the CSP header correctly', async () => {
       const generator = new SecureCSPGenerator('https://example.com')
       const cspHeader = await generator.generate()
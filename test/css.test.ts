@@ -0,0 +1,35 @@
+import {describe, expect, test} from 'bun:test'
+import {extractCssReferences} from '../src/css'
+
+describe('extractCssReferences', () => {
+  test('should extract @import targets in both forms', () => {
+    const refs = extractCssReferences(`
+      @import url("base.css");
+      @import 'theme.css' screen;
+      @import url(print.css) print;
+    `)
+    expect(refs.imports).toEqual(['base.css', 'theme.css', 'print.css'])
+    expect(refs.images).toEqual([])
+  })
+
+  test('should classify @font-face URLs as fonts', () => {
+    const refs = extractCssReferences(`
+      @font-face {
+        font-family: Inter;
+        src: url(/fonts/inter.woff2) format('woff2'),
+             url('/fonts/inter.woff') format('woff');
+      }
+      body { background: url("img/bg.png") no-repeat; }
+    `)
+    expect(refs.fonts).toEqual(['/fonts/inter.woff2', '/fonts/inter.woff'])
+    expect(refs.images).toEqual(['img/bg.png'])
+  })
+
+  test('should ignore references inside comments', () => {
+    const refs = extractCssReferences(
+      '/* @import "old.css"; background: url(old.png) */ a { cursor: url(c.cur), auto }',
+    )
+    expect(refs.imports).toEqual([])
+    expect(refs.images).toEqual(['c.cur'])
+  })
+})
@@ -0,0 +1,201 @@
+import {describe, expect, test} from 'bun:test'
+import {evaluatePolicy, isAtLeast} from '../src/evaluator'
+import {CSPPolicy} from '../src/policy'
+
+const STRONG =
+  "default-src 'self'; script-src 'nonce-R4nd0mN0nc3V4lu3==' 'strict-dynamic'; object-src 'none'; base-uri 'none'; frame-ancestors 'none'"
+
+const ids = (policy: string) => evaluatePolicy(policy).map((f) => f.id)
+
+describe('evaluatePolicy', () => {
+  test('should report nothing for a strict nonce-based policy', () => {
+    expect(evaluatePolicy(STRONG)).toEqual([])
+  })
+
+  test('should accept a CSPPolicy instance', () => {
+    expect(evaluatePolicy(CSPPolicy.parse(STRONG))).toEqual([])
+  })
+
+  test('should flag unsafe-inline without nonces or hashes as high', () => {
+    const [finding] = evaluatePolicy(
+      "script-src 'self' 'unsafe-inline'; object-src 'none'; base-uri 'self'",
+    )
+    expect(finding).toMatchObject({
+      id: 'script-unsafe-inline',
+      severity: 'high',
+      directive: 'script-src',
+      value: "'unsafe-inline'",
+    })
+  })
+
+  test('should treat unsafe-inline next to a hash as a fallback', () => {
+    const findings = evaluatePolicy(
+      "script-src 'sha256-abc' 'unsafe-inline'; object-src 'none'; base-uri 'self'",
+    )
+    expect(
+      findings.find((f) => f.id.startsWith('script-unsafe-inline')),
+    ).toEqual(
+      expect.objectContaining({
+        id: 'script-unsafe-inline-fallback',
+        severity: 'info',
+      }),
+    )
+  })
+
+  test('should flag unsafe-eval and unsafe-hashes', () => {
+    const found = ids("script-src 'self' 'unsafe-eval' 'unsafe-hashes'")
+    expect(found).toContain('script-unsafe-eval')
+    expect(found).toContain('script-unsafe-hashes')
+  })
+
+  test('should flag wildcard and scheme-only script sources', () => {
+    const findings = evaluatePolicy("script-src * https: data: 'self'")
+    expect(
+      findings.filter((f) => f.id === 'script-wildcard').map((f) => f.value),
+    ).toEqual(['*', 'https:', 'data:'])
+  })
+
+  test('should fall back to default-src for script checks', () => {
+    const [finding] = evaluatePolicy("default-src *; base-uri 'none'")
+    expect(finding).toMatchObject({
+      id: 'script-wildcard',
+      directive: 'default-src',
+    })
+  })
+
+  test('should flag a missing script-src and default-src', () => {
+    expect(ids("img-src 'self'")).toContain('script-src-missing')
+  })
+
+  test('should judge script-src-elem and script-src-attr as themselves', () => {
+    const findings = evaluatePolicy(
+      `${STRONG}; script-src-elem 'self' 'unsafe-inline'; script-src-attr 'unsafe-hashes' 'sha256-abc'`,
+    )
+    expect(findings).toContainEqual(
+      expect.objectContaining({
+        id: 'script-unsafe-inline',
+        severity: 'high',
+        directive: 'script-src-elem',
+      }),
+    )
+    expect(findings).toContainEqual(
+      expect.objectContaining({
+        id: 'script-unsafe-hashes',
+        directive: 'script-src-attr',
+      }),
+    )
+    expect(findings.filter((f) => f.directive === 'script-src')).toHaveLength(0)
+  })
+
+  test('should check split directives that fall back to script-src', () => {
+    const findings = evaluatePolicy(
+      "script-src 'self' 'unsafe-inline'; script-src-elem 'nonce-R4nd0mN0nc3V4lu3=='; object-src 'none'; base-uri 'none'",
+    )
+    expect(
+      findings
+        .filter((f) => f.id === 'script-unsafe-inline')
+        .map((f) => f.directive),
+    ).toEqual(['script-src'])
+  })
+
+  test('should flag script directives left without a fallback', () => {
+    const findings = evaluatePolicy("script-src-elem 'self'")
+    expect(
+      findings.find((f) => f.id === 'script-src-missing')?.message,
+    ).toContain('event handlers')
+    expect(ids("script-src-elem 'self'; script-src-attr 'none'")).not.toContain(
+      'script-src-missing',
+    )
+  })
+
+  test('should flag plain HTTP and known bypass hosts', () => {
+    const found = ids(
+      "script-src 'self' http://cdn.example.com https://cdn.jsdelivr.net/npm/ *.googleapis.com",
+    )
+    expect(found.filter((id) => id === 'script-insecure-host')).toHaveLength(1)
+    expect(found.filter((id) => id === 'script-bypass-host')).toHaveLength(2)
+  })
+
+  test('should ignore host sources under strict-dynamic', () => {
+    const found = ids(
+      "script-src 'nonce-R4nd0mN0nc3V4lu3==' 'strict-dynamic' https: https://unpkg.com",
+    )
+    expect(found).not.toContain('script-wildcard')
+    expect(found).not.toContain('script-bypass-host')
+  })
+
+  test('should flag strict-dynamic without a nonce or hash', () => {
+    expect(ids("script-src 'strict-dynamic' https:")).toContain(
+      'strict-dynamic-without-nonce',
+    )
+  })
+
+  test('should flag short nonces', () => {
+    expect(ids("script-src 'nonce-abc123'")).toContain('weak-nonce')
+  })
+
+  test('should check object-src with default-src fallback', () => {
+    expect(ids("script-src 'self'")).toContain('object-src-missing')
+    expect(ids("default-src 'self'")).toContain('object-src-not-none')
+    expect(ids("default-src 'none'; script-src 'self'")).not.toContain(
+      'object-src-not-none',
+    )
+    expect(ids("script-src 'self'; object-src *")).toContain(
+      'object-src-wildcard',
+    )
+  })
+
+  test('should flag unsafe-inline in split and fallback style directives', () => {
+    expect(
+      evaluatePolicy(`${STRONG}; style-src-attr 'unsafe-inline'`)
+        .filter((f) => f.id === 'style-unsafe-inline')
+        .map((f) => f.directive),
+    ).toEqual(['style-src-attr'])
+    expect(
+      evaluatePolicy("default-src 'self' 'unsafe-inline'")
+        .filter((f) => f.id === 'style-unsafe-inline')
+        .map((f) => f.directive),
+    ).toEqual(['default-src'])
+  })
+
+  test('should flag missing base-uri even with default-src', () => {
+    expect(ids("default-src 'none'")).toContain('base-uri-missing')
+  })
+
+  test('should flag wildcards in other fetch directives as low', () => {
+    const finding = evaluatePolicy(`${STRONG}; img-src *`).find(
+      (f) => f.id === 'wildcard-source',
+    )
+    expect(finding).toMatchObject({severity: 'low', directive: 'img-src'})
+  })
+
+  test('should flag deprecated directives', () => {
+    const findings = evaluatePolicy(
+      `${STRONG}; block-all-mixed-content; report-uri /csp`,
+    )
+    expect(
+      findings
+        .filter((f) => f.id === 'deprecated-directive')
+        .map((f) => f.directive),
+    ).toEqual(['block-all-mixed-content', 'report-uri'])
+  })
+
+  test('should sort findings from most to least severe', () => {
+    const severities = evaluatePolicy(
+      "script-src 'unsafe-eval' 'unsafe-inline'; style-src 'unsafe-inline'; block-all-mixed-content",
+    ).map((f) => f.severity)
+    severities.slice(1).forEach((severity, i) => {
+      expect(isAtLeast(severities[i]!, severity)).toBe(true)
+    })
+    expect(severities[0]).toBe('high')
+    expect(severities[severities.length - 1]).toBe('info')
+  })
+})
+
+describe('isAtLeast', () => {
+  test('should compare severities', () => {
+    expect(isAtLeast('high', 'medium')).toBe(true)
+    expect(isAtLeast('medium', 'medium')).toBe(true)
+    expect(isAtLeast('low', 'medium')).toBe(false)
+  })
+})
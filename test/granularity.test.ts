@@ -0,0 +1,105 @@
+import {describe, expect, test} from 'bun:test'
+import {
+  describeSource,
+  granularityFor,
+  isSharedHost,
+  toSource,
+  validateSourceGranularity,
+} from '../src/granularity'
+
+const url = new URL(
+  'https://cdn.jsdelivr.net/npm/lib@1.2.3/dist/lib.min.js?v=1',
+)
+
+describe('toSource', () => {
+  test('should build a source at each granularity', () => {
+    expect(toSource(url, 'scheme')).toBe('https:')
+    expect(toSource(url, 'origin')).toBe('https://cdn.jsdelivr.net')
+    expect(toSource(url, 'path')).toBe(
+      'https://cdn.jsdelivr.net/npm/lib@1.2.3/dist/',
+    )
+    expect(toSource(url, 'url')).toBe(
+      'https://cdn.jsdelivr.net/npm/lib@1.2.3/dist/lib.min.js',
+    )
+  })
+
+  test('should use the origin for root paths', () => {
+    const root = new URL('https://cdn.example.com/app.js')
+    expect(toSource(root, 'path')).toBe('https://cdn.example.com')
+    expect(toSource(new URL('https://cdn.example.com/'), 'url')).toBe(
+      'https://cdn.example.com',
+    )
+  })
+
+  test('should keep separators encoded', () => {
+    expect(toSource(new URL('https://a.example/x;y,z/f.js'), 'path')).toBe(
+      'https://a.example/x%3By%2Cz/',
+    )
+  })
+})
+
+describe('granularityFor', () => {
+  test('should apply one mode or a mode per directive', () => {
+    expect(granularityFor(undefined, 'img-src')).toBe('origin')
+    expect(granularityFor('path', 'img-src')).toBe('path')
+    expect(granularityFor({'script-src': 'url'}, 'script-src')).toBe('url')
+    expect(granularityFor({'script-src': 'url'}, 'img-src')).toBe('origin')
+  })
+})
+
+describe('validateSourceGranularity', () => {
+  test('should reject unknown modes and directives', () => {
+    expect(() => validateSourceGranularity(undefined)).not.toThrow()
+    expect(() => validateSourceGranularity({'img-src': 'scheme'})).not.toThrow()
+    expect(() => validateSourceGranularity('file' as 'url')).toThrow(
+      'Invalid source granularity "file" – use scheme, origin, path, url',
+    )
+    expect(() =>
+      validateSourceGranularity({'script-source': 'url'} as {}),
+    ).toThrow('Unknown CSP directive "script-source"')
+  })
+})
+
+describe('describeSource', () => {
+  test('should flag shared hosts allowed in full', () => {
+    expect(isSharedHost('UNPKG.com')).toBe(true)
+    expect(isSharedHost('cdn.example.com')).toBe(false)
+
+    const finding = describeSource(
+      'script-src',
+      'https://cdn.jsdelivr.net',
+      url,
+      'origin',
+    )
+    expect(finding).toMatchObject({
+      directive: 'script-src',
+      source: 'https://cdn.jsdelivr.net',
+      url: url.href,
+      granularity: 'origin',
+      sharedHost: true,
+    })
+    expect(finding.impact).toContain('anyone can publish')
+  })
+
+  test('should mention redirects for path sources', () => {
+    const {impact} = describeSource(
+      'script-src',
+      'https://cdn.jsdelivr.net/npm/lib@1.2.3/dist/',
+      url,
+      'path',
+    )
+    expect(impact).toContain("keeping other publishers' files out")
+    expect(impact).toContain('open redirect')
+  })
+
+  test('should describe a root path source as the origin', () => {
+    const root = new URL('https://unpkg.com/app.js')
+    const {impact} = describeSource(
+      'script-src',
+      'https://unpkg.com',
+      root,
+      'path',
+    )
+    expect(impact).toContain('Allows every file on unpkg.com')
+  })
+})
@@ -0,0 +1,38 @@
+import {describe, expect, test} from 'bun:test'
+import {digestBase64, hashSources, validateHashAlgorithms} from '../src/hash'
+
+describe('validateHashAlgorithms', () => {
+  test('should accept lists and comma-separated strings', () => {
+    expect(validateHashAlgorithms(['sha384'])).toEqual(['sha384'])
+    expect(validateHashAlgorithms(' SHA384, sha512,sha384')).toEqual([
+      'sha384',
+      'sha512',
+    ])
+  })
+
+  test('should reject unsupported or missing algorithms', () => {
+    expect(() => validateHashAlgorithms(['md5'])).toThrow(
+      'Unsupported hash algorithm "md5" – use sha256, sha384, sha512',
+    )
+    expect(() => validateHashAlgorithms([])).toThrow(
+      'At least one hash algorithm is required',
+    )
+  })
+})
+
+describe('hashSources', () => {
+  test('should emit base64 source expressions per algorithm', async () => {
+    expect(
+      await hashSources("alert('Hello, world.');", ['sha256', 'sha384']),
+    ).toEqual([
+      "'sha256-qznLcsROx4GACP2dm0UCKCzCG+HiZ1guq6ZZDob/Tng='",
+      "'sha384-H8BRh8j48O9oYatfu5AZzq6A9RINhZO5H16dQZngK7T62em8MUt1FLm52t+eX6xO'",
+    ])
+  })
+
+  test('should hash text as UTF-8', async () => {
+    expect(await digestBase64('é', 'sha256')).toBe(
+      await digestBase64(new Uint8Array([0xc3, 0xa9]), 'sha256'),
+    )
+  })
+})
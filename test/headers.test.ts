@@ -0,0 +1,73 @@
+import {describe, expect, test} from 'bun:test'
+import {buildHeaders, formatServerConfig} from '../src/headers'
+
+const policy =
+  "default-src 'self'; script-src 'nonce-abc' https://cdn.example.com"
+
+describe('buildHeaders', () => {
+  test('should emit only the policy header by default', () => {
+    expect(buildHeaders(policy)).toEqual({'Content-Security-Policy': policy})
+  })
+
+  test('should escape quotes in the Reporting-Endpoints URL', () => {
+    const headers = buildHeaders(policy, {
+      reportUri: 'https://example.com/csp?a="b"',
+    })
+    expect(headers['Reporting-Endpoints']).toBe(
+      'csp-endpoint="https://example.com/csp?a=\\"b\\""',
+    )
+  })
+})
+
+describe('formatServerConfig', () => {
+  const headers = buildHeaders(policy, {
+    reportOnly: true,
+    reportUri: 'https://example.com/csp',
+  })
+
+  test('should render nginx add_header directives', () => {
+    expect(formatServerConfig(headers, 'nginx').split('\n')).toEqual([
+      `add_header Content-Security-Policy-Report-Only "${policy}" always;`,
+      'add_header Reporting-Endpoints "csp-endpoint=\\"https://example.com/csp\\"" always;',
+      'add_header Report-To "{\\"group\\":\\"csp-endpoint\\",\\"max_age\\":10886400,\\"endpoints\\":[{\\"url\\":\\"https://example.com/csp\\"}]}" always;',
+    ])
+  })
+
+  test('should render Apache Header directives', () => {
+    expect(
+      formatServerConfig({'Content-Security-Policy': policy}, 'apache'),
+    ).toBe(`Header always set Content-Security-Policy "${policy}"`)
+  })
+
+  test('should render a Caddy header block', () => {
+    expect(
+      formatServerConfig({'Content-Security-Policy': policy}, 'caddy'),
+    ).toBe(`header {\n\tContent-Security-Policy "${policy}"\n}`)
+  })
+
+  test('should render HAProxy set-header rules', () => {
+    expect(
+      formatServerConfig({'Content-Security-Policy': policy}, 'haproxy'),
+    ).toBe(`http-response set-header Content-Security-Policy "${policy}"`)
+  })
+
+  test('should escape characters each server treats specially', () => {
+    const value = "img-src https://a.example.com/%20 'self'; x {y} $z \\"
+    const render = (format: Parameters<typeof formatServerConfig>[1]) =>
+      formatServerConfig({'Content-Security-Policy': value}, format)
+
+    expect(render('nginx')).toBe(
+      '# Requires: geo $dollar { default "$"; } in the http block\n' +
+        `add_header Content-Security-Policy "img-src https://a.example.com/%20 'self'; x {y} \${dollar}z \\\\" always;`,
+    )
+    expect(render('apache')).toBe(
+      `Header always set Content-Security-Policy "img-src https://a.example.com/%%20 'self'; x {y} $z \\\\"`,
+    )
+    expect(render('caddy')).toBe(
+      `header {\n\tContent-Security-Policy "img-src https://a.example.com/%20 'self'; x \\{y\\} $z \\\\"\n}`,
+    )
+    expect(render('haproxy')).toBe(
+      `http-response set-header Content-Security-Policy "img-src https://a.example.com/%%20 'self'; x {y} $z \\\\"`,
+    )
+  })
+})
@@ -0,0 +1,94 @@
+import {describe, expect, mock, test} from 'bun:test'
+import {formatMetaTag, injectMetaTag, toMetaPolicy} from '../src/meta'
+
+const createLogger = () => ({
+  error: mock(() => {}),
+  warn: mock(() => {}),
+  info: mock(() => {}),
+  debug: mock(() => {}),
+})
+
+const TAG = `<meta http-equiv="Content-Security-Policy" content="default-src 'self'">`
+
+describe('toMetaPolicy', () => {
+  test('should drop directives ignored in meta policies and warn', () => {
+    const logger = createLogger()
+    const policy = toMetaPolicy(
+      "default-src 'self'; frame-ancestors 'none'; report-uri https://r.example.com; report-to csp; sandbox allow-scripts",
+      logger,
+    )
+    expect(policy.toString()).toBe("default-src 'self'")
+    expect(logger.warn).toHaveBeenCalledTimes(4)
+    expect(logger.warn).toHaveBeenCalledWith(
+      'Dropped frame-ancestors: it is ignored in <meta> policies',
+    )
+  })
+})
+
+describe('formatMetaTag', () => {
+  test('should render an HTML-escaped meta element', () => {
+    const logger = createLogger()
+    expect(
+      formatMetaTag(`img-src https://example.com/?a=1&b="2"`, {logger}),
+    ).toBe(
+      '<meta http-equiv="Content-Security-Policy" content="img-src https://example.com/?a=1&amp;b=&quot;2&quot;">',
+    )
+    expect(logger.warn).not.toHaveBeenCalled()
+  })
+
+  test('should warn that report-only cannot be delivered in meta', () => {
+    const logger = createLogger()
+    formatMetaTag("default-src 'self'", {logger, reportOnly: true})
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.stringContaining('Report-only policies cannot be delivered'),
+    )
+  })
+})
+
+describe('injectMetaTag', () => {
+  test('should insert the tag at the start of head', () => {
+    expect(
+      injectMetaTag(
+        '<html><head><title>x</title><script src="a.js"></script></head></html>',
+        TAG,
+      ),
+    ).toBe(
+      `<html><head>${TAG}<title>x</title><script src="a.js"></script></head></html>`,
+    )
+  })
+
+  test('should keep a charset declaration first', () => {
+    expect(
+      injectMetaTag(
+        '<head lang="en">\n  <meta charset="utf-8">\n  <title>x</title></head>',
+        TAG,
+      ),
+    ).toBe(
+      `<head lang="en">\n  <meta charset="utf-8">${TAG}\n  <title>x</title></head>`,
+    )
+  })
+
+  test('should replace an existing CSP meta tag', () => {
+    expect(
+      injectMetaTag(
+        `<head><meta http-equiv=content-security-policy content="img-src *">\n<title>x</title></head>`,
+        TAG,
+      ),
+    ).toBe(`<head>${TAG}<title>x</title></head>`)
+  })
+
+  test('should add a head when the document has none', () => {
+    expect(injectMetaTag('<html><body>x</body></html>', TAG)).toBe(
+      `<html><head>${TAG}</head><body>x</body></html>`,
+    )
+    expect(injectMetaTag('<!DOCTYPE html><p>x</p>', TAG)).toBe(
+      `<!DOCTYPE html><head>${TAG}</head><p>x</p>`,
+    )
+  })
+
+  test('should not mistake <header> for <head>', () => {
+    expect(injectMetaTag('<header>x</header>', TAG)).toBe(
+      `<head>${TAG}</head><header>x</header>`,
+    )
+  })
+})
@@ -0,0 +1,150 @@
+import {afterEach, describe, expect, test} from 'bun:test'
+import express from 'express'
+import Fastify from 'fastify'
+import {Hono} from 'hono'
+import type {AddressInfo} from 'net'
+import {
+  bunNonce,
+  expressNonce,
+  fastifyNonce,
+  honoNonce,
+  NoncePolicy,
+} from '../src/middleware'
+import {CSPPolicy} from '../src/policy'
+
+const policy =
+  "default-src 'self'; script-src 'nonce-build' 'strict-dynamic'; style-src 'self' 'nonce-build'"
+
+const nonceOf = (res: Response) =>
+  /'nonce-([^']+)'/.exec(res.headers.get('content-security-policy') ?? '')?.[1]
+
+// Requests a page twice, checking that each response carries a fresh nonce
+// that matches the one the handler rendered into the body.
+async function expectFreshNonces(url: string) {
+  const nonces: string[] = []
+  for (let i = 0; i < 2; i++) {
+    const res = await fetch(url)
+    const nonce = nonceOf(res)!
+    expect(await res.text()).toBe(`<script nonce="${nonce}"></script>`)
+    expect(res.headers.get('content-security-policy')).toBe(
+      `default-src 'self'; script-src 'nonce-${nonce}' 'strict-dynamic'; style-src 'self' 'nonce-${nonce}'`,
+    )
+    nonces.push(nonce)
+  }
+  expect(nonces[0]).not.toBe(nonces[1])
+  expect(nonces[0]).not.toBe('build')
+}
+
+const page = (nonce: unknown) => `<script nonce="${nonce}"></script>`
+
+describe('NoncePolicy', () => {
+  test('should substitute the nonce into every directive that had one', () => {
+    const nonces = new NoncePolicy(
+      "script-src 'nonce-a' 'nonce-b' https://cdn.example.com; style-src 'nonce-a'",
+    )
+    expect(nonces.headers('xyz')).toEqual({
+      'Content-Security-Policy':
+        "script-src 'nonce-xyz' https://cdn.example.com; style-src 'nonce-xyz'",
+    })
+  })
+
+  test('should add a nonce to script-src when the policy has none', () => {
+    expect(
+      new NoncePolicy(CSPPolicy.parse("default-src 'self'")).headers('n'),
+    ).toEqual({
+      'Content-Security-Policy':
+        "default-src 'self'; script-src 'self' 'nonce-n'",
+    })
+    expect(
+      new NoncePolicy("default-src 'none'").headers('n')[
+        'Content-Security-Policy'
+      ],
+    ).toBe("default-src 'none'; script-src 'nonce-n'")
+  })
+
+  test('should include report-only and reporting headers', () => {
+    const nonces = new NoncePolicy("script-src 'nonce-a'", {
+      reportOnly: true,
+      reportUri: 'https://example.com/csp',
+    })
+    expect(nonces.headers('n')).toEqual({
+      'Content-Security-Policy-Report-Only': "script-src 'nonce-n'",
+      'Reporting-Endpoints': 'csp-endpoint="https://example.com/csp"',
+      'Report-To': expect.any(String),
+    })
+  })
+
+  test('should create unique base64 nonces of the configured size', () => {
+    const nonces = new NoncePolicy(policy, {nonceBytes: 32})
+    const a = nonces.createNonce()
+    expect(Buffer.from(a, 'base64')).toHaveLength(32)
+    expect(a).not.toBe(nonces.createNonce())
+    expect(() => new NoncePolicy(policy, {nonceBytes: 8})).toThrow(
+      'nonceBytes must be an integer of at least 16',
+    )
+  })
+})
+
+describe('framework adapters', () => {
+  const cleanups: Array<() => unknown> = []
+
+  afterEach(async () => {
+    for (const cleanup of cleanups.splice(0)) await cleanup()
+  })
+
+  test('express', async () => {
+    const app = express()
+    app.use(expressNonce(policy))
+    app.get('/', (_req, res) => {
+      res.send(page(res.locals.cspNonce))
+    })
+    const server = app.listen(0, '127.0.0.1')
+    await new Promise((resolve) => server.once('listening', resolve))
+    cleanups.push(() => new Promise((resolve) => server.close(resolve)))
+
+    const {port} = server.address() as AddressInfo
+    await expectFreshNonces(`http://127.0.0.1:${port}/`)
+  })
+
+  test('fastify', async () => {
+    const app = Fastify()
+    app.decorateRequest('cspNonce', '')
+    app.addHook('onRequest', fastifyNonce(policy))
+    app.get('/', async (request, reply) => {
+      reply.type('text/html')
+      return page((request as {cspNonce?: string}).cspNonce)
+    })
+    const url = await app.listen({port: 0, host: '127.0.0.1'})
+    cleanups.push(() => app.close())
+
+    await expectFreshNonces(`${url}/`)
+  })
+
+  test('hono', async () => {
+    const app = new Hono<{Variables: {cspNonce: string}}>()
+    app.use(honoNonce(policy))
+    app.get('/', (c) => c.html(page(c.get('cspNonce'))))
+    const server = Bun.serve({port: 0, hostname: '127.0.0.1', fetch: app.fetch})
+    cleanups.push(() => server.stop(true))
+
+    await expectFreshNonces(`http://127.0.0.1:${server.port}/`)
+  })
+
+  test('Bun.serve', async () => {
+    const server = Bun.serve({
+      port: 0,
+      hostname: '127.0.0.1',
+      fetch: bunNonce(policy, (_req, nonce) => new Response(page(nonce))),
+    })
+    cleanups.push(() => server.stop(true))
+
+    await expectFreshNonces(`http://127.0.0.1:${server.port}/`)
+  })
+
+  test('Bun.serve with an immutable response', async () => {
+    const handler = bunNonce(policy, () => Response.redirect('/', 302))
+    const res = await handler(new Request('http://localhost/'), undefined)
+    expect(res.status).toBe(302)
+    expect(nonceOf(res)).toBeDefined()
+  })
+})
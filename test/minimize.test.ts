@@ -0,0 +1,190 @@
+import {describe, expect, test} from 'bun:test'
+import {minimizePolicy} from '../src/minimize'
+import {CSPPolicy} from '../src/policy'
+import {sourceListMatches} from '../src/source-matcher'
+import type {DirectiveName} from '../src/types'
+
+// mulberry32: a small seeded PRNG, so failures reproduce
+function random(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+const DIRECTIVES: DirectiveName[] = [
+  'default-src',
+  'script-src',
+  'script-src-elem',
+  'style-src',
+  'img-src',
+  'connect-src',
+  'child-src',
+  'frame-src',
+  'worker-src',
+  'font-src',
+]
+
+const SOURCES = [
+  "'self'",
+  "'none'",
+  "'unsafe-inline'",
+  "'nonce-abc'",
+  '*',
+  'https:',
+  'http:',
+  'wss:',
+  'ws:',
+  'data:',
+  'example.com',
+  'cdn.example.com',
+  'https://example.com',
+  'https://EXAMPLE.com',
+  'http://example.com',
+  'https://example.com:8443',
+  'https://example.com/',
+  'https://*.example.com',
+  'https://*.cdn.example.com',
+  'https://cdn.example.com',
+  'https://cdn.example.com/lib/',
+  'https://cdn.example.com/lib/a.js',
+  'https://cdn.example.com/lib',
+  'https://cdn.example.com:*',
+  'https://*',
+  'wss://example.com',
+  'https://other.org',
+  'https://a.other.org/x/',
+]
+
+const SELVES = [
+  'https://example.com/',
+  'http://example.com/',
+  'https://example.com:8443/',
+  'https://cdn.example.com/',
+]
+
+const SCHEMES = ['https', 'http', 'wss', 'ws']
+const HOSTS = [
+  'example.com',
+  'cdn.example.com',
+  'a.cdn.example.com',
+  'other.org',
+  'a.other.org',
+  'evil.net',
+]
+const PORTS = ['', ':443', ':80', ':8443']
+const PATHS = ['/', '/lib/a.js', '/lib/b/c.js', '/lib', '/x/y.png', '/lib/']
+
+describe('minimizePolicy', () => {
+  test('should keep every allow/deny decision (seeded property test)', () => {
+    const rand = random(20240617)
+    const pick = <T>(list: readonly T[]) =>
+      list[Math.floor(rand() * list.length)]!
+    const urls = [
+      ...Array.from(
+        {length: 200},
+        () =>
+          new URL(
+            `${pick(SCHEMES)}://${pick(HOSTS)}${pick(PORTS)}${pick(PATHS)}`,
+          ),
+      ),
+      new URL('data:image/png;base64,AAAA'),
+      new URL('blob:https://example.com/0b8c'),
+    ]
+
+    let changed = 0
+    for (let run = 0; run < 400; run++) {
+      const policy = new CSPPolicy()
+      const shared = Array.from({length: 1 + Math.floor(rand() * 4)}, () =>
+        pick(SOURCES),
+      )
+      for (const directive of DIRECTIVES) {
+        const roll = rand()
+        if (roll < 0.4) continue
+        // Often repeat another list, so fallbacks become redundant
+        const values =
+          roll < 0.6
+            ? [...shared].reverse()
+            : Array.from({length: Math.floor(rand() * 5)}, () => pick(SOURCES))
+        policy.set(directive, values)
+      }
+      const self = new URL(pick(SELVES))
+      const {policy: minimized, changes} = minimizePolicy(policy, {self})
+      if (changes.length) changed++
+
+      for (const directive of DIRECTIVES) {
+        const before = policy.effective(directive)
+        const after = minimized.effective(directive)
+        for (const url of urls) {
+          const allowed = !before || sourceListMatches(before, url, self)
+          const stillAllowed = !after || sourceListMatches(after, url, self)
+          if (allowed !== stillAllowed) {
+            throw new Error(
+              `${directive} ${url.href} from ${self.href}: ${policy} became ${minimized}`,
+            )
+          }
+        }
+      }
+    }
+    // The sample exercises the minimizer rather than leaving policies alone
+    expect(changed).toBeGreaterThan(300)
+  })
+
+  test('should drop directives that repeat their fallback', () => {
+    const {policy, changes} = minimizePolicy(
+      "default-src 'self' https://cdn.example.com; img-src https://cdn.example.com 'self'; script-src 'self'",
+    )
+    expect(policy.toString()).toBe(
+      "default-src 'self' https://cdn.example.com; script-src 'self'",
+    )
+    expect(changes).toEqual([
+      {
+        directive: 'img-src',
+        reason: 'same as default-src, which it falls back to',
+      },
+    ])
+  })
+
+  test('should keep a directive other directives fall back through', () => {
+    const policy = "default-src 'self'; child-src 'self'; script-src https:"
+    // worker-src falls back to child-src before script-src
+    expect(minimizePolicy(policy).policy.toString()).toBe(policy)
+  })
+
+  test('should drop duplicate, covered and ignored sources', () => {
+    const {policy, changes} = minimizePolicy(
+      "img-src 'none' 'self' https://example.com/img/ https: https://CDN.example.com https://cdn.example.com data:",
+      {self: 'https://example.com'},
+    )
+    expect(policy.get('img-src')).toEqual(["'self'", 'https:', 'data:'])
+    expect(changes).toEqual([
+      {
+        directive: 'img-src',
+        source: 'https://cdn.example.com',
+        reason: 'duplicate of https://CDN.example.com',
+      },
+      {
+        directive: 'img-src',
+        source: "'none'",
+        reason: 'ignored next to other sources',
+      },
+      {
+        directive: 'img-src',
+        source: 'https://example.com/img/',
+        reason: "covered by 'self'",
+      },
+      {
+        directive: 'img-src',
+        source: 'https://CDN.example.com',
+        reason: 'covered by https:',
+      },
+    ])
+  })
+
+  test('should keep keywords that matter to older browsers', () => {
+    const policy = "script-src 'unsafe-inline' 'nonce-abc' 'strict-dynamic'"
+    expect(minimizePolicy(policy).changes).toEqual([])
+  })
+})
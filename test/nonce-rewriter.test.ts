@@ -0,0 +1,126 @@
+import {describe, expect, test} from 'bun:test'
+import {
+  classifyElement,
+  NonceRewriter,
+  nonceStream,
+  stampNonces,
+} from '../src/nonce-rewriter'
+
+const page = `<!DOCTYPE html>
+<html><head>
+<link rel="stylesheet" href="/a.css">
+<link rel="modulepreload" href="/m.js">
+<link rel="icon" href="/favicon.ico">
+<style>body{}</style>
+<script type="application/ld+json">{"a": "<b>"}</script>
+<script type="importmap">{}</script>
+</head><body>
+<!-- <script>commented out</script> -->
+<p title="<script>">x</p>
+<script>if (a < b) document.write('<script><\\/script>')</script>
+<script type="module" src="/app.js" defer></script>
+</body></html>`
+
+const stamped = `<!DOCTYPE html>
+<html><head>
+<link nonce="n0" rel="stylesheet" href="/a.css">
+<link nonce="n0" rel="modulepreload" href="/m.js">
+<link rel="icon" href="/favicon.ico">
+<style nonce="n0">body{}</style>
+<script type="application/ld+json">{"a": "<b>"}</script>
+<script nonce="n0" type="importmap">{}</script>
+</head><body>
+<!-- <script>commented out</script> -->
+<p title="<script>">x</p>
+<script nonce="n0">if (a < b) document.write('<script><\\/script>')</script>
+<script nonce="n0" type="module" src="/app.js" defer></script>
+</body></html>`
+
+describe('classifyElement', () => {
+  test('should classify executable scripts and styles', () => {
+    expect(classifyElement('script', {})).toEqual({directive: 'script-src'})
+    expect(classifyElement('script', {type: 'module', src: '/a.js'})).toEqual({
+      directive: 'script-src',
+      url: '/a.js',
+    })
+    expect(classifyElement('style', {})).toEqual({directive: 'style-src'})
+    expect(
+      classifyElement('link', {rel: 'Alternate StyleSheet', href: '/b.css'}),
+    ).toEqual({directive: 'style-src', url: '/b.css'})
+  })
+
+  test('should classify inline import maps and speculation rules', () => {
+    expect(classifyElement('script', {type: 'importmap'})).toEqual({
+      directive: 'script-src',
+    })
+    expect(classifyElement('script', {type: 'SpeculationRules'})).toEqual({
+      directive: 'script-src',
+    })
+    expect(
+      classifyElement('script', {type: 'importmap', src: '/map.json'}),
+    ).toBeUndefined()
+  })
+
+  test('should ignore data blocks and other elements', () => {
+    expect(classifyElement('script', {type: 'text/template'})).toBeUndefined()
+    expect(classifyElement('link', {rel: 'stylesheet'})).toBeUndefined()
+    expect(classifyElement('link', {rel: 'preconnect', href: '/'})).toBe(
+      undefined,
+    )
+    expect(classifyElement('img', {src: '/a.png'})).toBeUndefined()
+  })
+})
+
+describe('stampNonces', () => {
+  test('should stamp scripts and styles and leave everything else alone', () => {
+    expect(stampNonces(page, 'n0')).toBe(stamped)
+  })
+
+  test('should replace existing nonces', () => {
+    expect(
+      stampNonces(
+        `<SCRIPT NONCE='old' src=a.js data-x="nonce=keep"></SCRIPT><style nonce>x</style>`,
+        'new',
+      ),
+    ).toBe(
+      `<SCRIPT nonce="new" src=a.js data-x="nonce=keep"></SCRIPT><style nonce="new">x</style>`,
+    )
+  })
+
+  test('should escape the nonce', () => {
+    expect(stampNonces('<script></script>', 'a"b')).toBe(
+      '<script nonce="a&quot;b"></script>',
+    )
+  })
+})
+
+describe('NonceRewriter', () => {
+  test('should produce the same output for any chunking', () => {
+    for (const size of [1, 3, 7, 64]) {
+      const rewriter = new NonceRewriter('n0')
+      let out = ''
+      for (let i = 0; i < page.length; i += size) {
+        out += rewriter.write(page.slice(i, i + size))
+      }
+      expect(out + rewriter.end()).toBe(stamped)
+    }
+  })
+
+  test('should hold back an unfinished tag until it completes', () => {
+    const rewriter = new NonceRewriter('n0')
+    expect(rewriter.write('<p>a</p><scr')).toBe('<p>a</p>')
+    expect(rewriter.write('ipt>x')).toBe('<script nonce="n0">x')
+    expect(rewriter.write('</scr')).toBe('')
+    expect(rewriter.write('ipt>')).toBe('</script>')
+    expect(rewriter.end()).toBe('')
+  })
+})
+
+describe('nonceStream', () => {
+  test('should rewrite a text stream', async () => {
+    const body = new Response(page)
+      .body!.pipeThrough(new TextDecoderStream())
+      .pipeThrough(nonceStream('n0'))
+    expect(await new Response(body).text()).toBe(stamped)
+  })
+})
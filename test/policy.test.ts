@@ -0,0 +1,274 @@
+import {describe, expect, test} from 'bun:test'
+import {CSPPolicy, normalizeSource} from '../src/policy'
+import {policyAllows} from '../src/source-matcher'
+
+describe('CSPPolicy', () => {
+  describe('parse', () => {
+    test('should parse directives and values', () => {
+      const policy = CSPPolicy.parse(
+        "default-src 'self'; script-src 'self' https://cdn.example.com; upgrade-insecure-requests",
+      )
+      expect(policy.directiveNames).toEqual([
+        'default-src',
+        'script-src',
+        'upgrade-insecure-requests',
+      ])
+      expect(policy.get('script-src')).toEqual([
+        "'self'",
+        'https://cdn.example.com',
+      ])
+      expect(policy.get('upgrade-insecure-requests')).toEqual([])
+      expect(policy.get('img-src')).toBeUndefined()
+    })
+
+    test('should lowercase names, skip empties and ignore duplicates', () => {
+      const policy = CSPPolicy.parse(
+        ';  Script-Src   a.example.com ;; script-src b.example.com;',
+      )
+      expect(policy.entries()).toEqual([['script-src', ['a.example.com']]])
+    })
+
+    test('should split comma-separated header values', () => {
+      const policies = CSPPolicy.parseHeader(
+        "default-src 'self', script-src 'none'",
+      )
+      expect(policies).toHaveLength(2)
+      expect(policies[1]!.get('script-src')).toEqual(["'none'"])
+    })
+  })
+
+  describe('serialize', () => {
+    test('should round-trip through toString in insertion order', () => {
+      const header =
+        "default-src 'self'; object-src 'none'; img-src https://b.example.com https://a.example.com; block-all-mixed-content"
+      expect(CSPPolicy.parse(header).toString()).toBe(header)
+    })
+
+    test('should serialize canonically', () => {
+      const policy = CSPPolicy.parse(
+        "script-src https://B.example.com 'nonce-AbC' 'SELF' https: https://a.example.com; default-src 'self'",
+      )
+      expect(policy.serialize()).toBe(
+        "default-src 'self'; script-src 'self' 'nonce-AbC' https: https://a.example.com https://b.example.com",
+      )
+    })
+
+    test('should compare policies canonically', () => {
+      const a = CSPPolicy.parse(
+        "img-src a.example.com b.example.com; default-src 'self'",
+      )
+      const b = CSPPolicy.parse(
+        "default-src 'SELF'; img-src B.example.com a.example.com",
+      )
+      expect(a.equals(b)).toBe(true)
+    })
+  })
+
+  describe('normalizeSource', () => {
+    test('should keep nonce, hash and path case', () => {
+      expect(normalizeSource("'NONCE-AbC'")).toBe("'nonce-AbC'")
+      expect(normalizeSource("'SHA256-Xy='")).toBe("'sha256-Xy='")
+      expect(normalizeSource('HTTPS://CDN.Example.com/Libs/')).toBe(
+        'https://cdn.example.com/Libs/',
+      )
+      expect(normalizeSource("'Unsafe-Inline'")).toBe("'unsafe-inline'")
+    })
+  })
+
+  describe('merge', () => {
+    const a = CSPPolicy.parse(
+      "default-src 'self'; script-src 'self' https://a.example.com; img-src 'none'",
+    )
+    const b = CSPPolicy.parse(
+      'script-src https://a.example.com https://b.example.com; img-src https://img.example.com; font-src https://fonts.example.com',
+    )
+
+    test('should union directive values', () => {
+      const merged = a.merge(b)
+      expect(merged.get('script-src')).toEqual([
+        "'self'",
+        'https://a.example.com',
+        'https://b.example.com',
+      ])
+      expect(merged.get('img-src')).toEqual(['https://img.example.com'])
+      // a allows fonts through default-src 'self'
+      expect(merged.get('font-src')).toEqual([
+        "'self'",
+        'https://fonts.example.com',
+      ])
+      expect(merged.get('default-src')).toEqual(["'self'"])
+    })
+
+    test('should union with the fallback of a missing directive', () => {
+      const first = CSPPolicy.parse(
+        "default-src 'self'; img-src https://a.example.com",
+      )
+      const second = CSPPolicy.parse("default-src 'self'")
+      const merged = first.merge(second)
+      const page = 'https://example.com/'
+
+      for (const url of ['https://a.example.com/1.png', `${page}logo.png`]) {
+        expect(policyAllows(merged, 'img-src', url, page)).toBe(true)
+      }
+      expect(
+        policyAllows(merged, 'img-src', 'https://b.example.com/1.png', page),
+      ).toBe(false)
+    })
+
+    test('should keep unsafe-inline working when the other side has a nonce', () => {
+      const merged = CSPPolicy.parse(
+        "script-src 'self' 'unsafe-inline'; style-src 'unsafe-inline'",
+      ).merge(
+        CSPPolicy.parse(
+          "script-src 'self' 'nonce-abc' 'strict-dynamic'; style-src 'sha256-xyz'",
+        ),
+      )
+      expect(merged.get('script-src')).toEqual(["'self'", "'unsafe-inline'"])
+      expect(merged.get('style-src')).toEqual(["'unsafe-inline'"])
+      expect(
+        policyAllows(
+          merged,
+          'script-src',
+          'https://example.com/a.js',
+          'https://example.com',
+        ),
+      ).toBe(true)
+    })
+
+    test('should spell out directives a shared fallback would narrow', () => {
+      const merged = CSPPolicy.parse('child-src https://c.example.com').merge(
+        CSPPolicy.parse('script-src https://s.example.com'),
+      )
+      const page = 'https://example.com'
+      for (const url of [
+        'https://c.example.com/w.js',
+        'https://s.example.com/w.js',
+      ]) {
+        expect(policyAllows(merged, 'worker-src', url, page)).toBe(true)
+      }
+    })
+
+    test('should intersect directive values', () => {
+      const merged = a.merge(b, 'intersection')
+      expect(merged.get('script-src')).toEqual(['https://a.example.com'])
+      expect(merged.get('img-src')).toEqual(["'none'"])
+      // a restricts fonts through default-src 'self'
+      expect(merged.get('font-src')).toEqual(["'none'"])
+    })
+
+    test('should intersect with the fallback of a missing directive', () => {
+      const merged = CSPPolicy.parse(
+        "default-src 'self'; img-src * 'self'",
+      ).merge(CSPPolicy.parse("default-src 'self'"), 'intersection')
+      expect(merged.toString()).toBe("default-src 'self'; img-src 'self'")
+    })
+
+    test('should intersect sources that cover one another', () => {
+      const merged = CSPPolicy.parse("img-src https: 'self'").merge(
+        CSPPolicy.parse(
+          'img-src https://a.example.com https://*.b.example.com',
+        ),
+        'intersection',
+      )
+      expect(merged.get('img-src')).toEqual([
+        'https://a.example.com',
+        'https://*.b.example.com',
+      ])
+      expect(
+        policyAllows(
+          merged,
+          'img-src',
+          'https://a.example.com/1.png',
+          'https://example.com',
+        ),
+      ).toBe(true)
+    })
+
+    test('should copy directives the other policy leaves unrestricted', () => {
+      const merged = CSPPolicy.parse('img-src https://img.example.com').merge(
+        CSPPolicy.parse('script-src https://a.example.com'),
+        'intersection',
+      )
+      expect(merged.toString()).toBe(
+        'img-src https://img.example.com; script-src https://a.example.com',
+      )
+    })
+
+    test('should spell out directives a shared fallback would loosen', () => {
+      const merged = CSPPolicy.parse('child-src https://c.example.com').merge(
+        CSPPolicy.parse('script-src https://s.example.com'),
+        'intersection',
+      )
+      // worker-src: child-src in the first policy, script-src in the second
+      expect(merged.get('worker-src')).toEqual(["'none'"])
+      expect(merged.effective('frame-src')).toEqual(['https://c.example.com'])
+    })
+
+    test('should not modify the inputs', () => {
+      a.merge(b)
+      expect(a.get('script-src')).toEqual(["'self'", 'https://a.example.com'])
+    })
+  })
+
+  describe('effective', () => {
+    test('should follow the fallback chain', () => {
+      const policy = CSPPolicy.parse(
+        "default-src 'self'; script-src https://js.example.com; child-src https://c.example.com",
+      )
+      expect(policy.effective('script-src-elem')).toEqual([
+        'https://js.example.com',
+      ])
+      expect(policy.effective('worker-src')).toEqual(['https://c.example.com'])
+      expect(policy.effective('img-src')).toEqual(["'self'"])
+      expect(policy.effective('base-uri')).toBeUndefined()
+    })
+  })
+
+  describe('diff', () => {
+    test('should report directive-level differences', () => {
+      const live = CSPPolicy.parse(
+        "default-src 'self'; script-src 'self' https://old.example.com; frame-ancestors 'none'",
+      )
+      const next = CSPPolicy.parse(
+        "default-src 'self'; script-src 'self' https://new.example.com; img-src https://img.example.com",
+      )
+      expect(live.diff(next)).toEqual([
+        {
+          directive: 'script-src',
+          status: 'changed',
+          added: ['https://new.example.com'],
+          removed: ['https://old.example.com'],
+        },
+        {
+          directive: 'frame-ancestors',
+          status: 'removed',
+          added: [],
+          removed: ["'none'"],
+        },
+        {
+          directive: 'img-src',
+          status: 'added',
+          added: ['https://img.example.com'],
+          removed: [],
+        },
+      ])
+    })
+
+    test('should be empty for equivalent policies', () => {
+      const a = CSPPolicy.parse("default-src 'self' https://A.example.com")
+      const b = CSPPolicy.parse("default-src https://a.example.com 'self'")
+      expect(a.diff(b)).toEqual([])
+    })
+  })
+
+  test('should build from a presets-style record and serialize to JSON', () => {
+    const policy = new CSPPolicy({
+      'default-src': ["'self'"],
+      'upgrade-insecure-requests': [],
+    })
+    expect(JSON.parse(JSON.stringify(policy))).toEqual({
+      'default-src': ["'self'"],
+      'upgrade-insecure-requests': [],
+    })
+  })
+})
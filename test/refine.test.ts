@@ -0,0 +1,223 @@
+import {afterEach, beforeEach, describe, expect, mock, test} from 'bun:test'
+import dns from 'dns/promises'
+import type {ViolationReport} from '../src/collector'
+import {CSPPolicy} from '../src/policy'
+import {refinePolicy} from '../src/refine'
+
+const originalLookup = dns.lookup
+let dnsAddress = '8.8.8.8'
+
+const report = (
+  directive: string,
+  blockedUri: string,
+  documentUri = 'https://example.com/',
+): ViolationReport => ({
+  documentUri,
+  directive,
+  blockedUri,
+  disposition: 'report',
+})
+
+const repeat = (n: number, r: ViolationReport) => Array(n).fill(r)
+
+describe('refinePolicy', () => {
+  const logger = {
+    error: mock(() => {}),
+    warn: mock(() => {}),
+    info: mock(() => {}),
+    debug: mock(() => {}),
+  }
+
+  beforeEach(() => {
+    dnsAddress = '8.8.8.8'
+    dns.lookup = (async () => [{address: dnsAddress, family: 4}]) as any
+  })
+
+  afterEach(() => {
+    dns.lookup = originalLookup
+  })
+
+  test('should propose origins with counts and confidence', async () => {
+    const {proposals} = await refinePolicy(
+      "default-src 'self'",
+      [
+        ...repeat(3, report('img-src', 'https://img.example.net/a.png')),
+        report(
+          'img-src',
+          'https://img.example.net/b.png',
+          'https://example.com/2',
+        ),
+        report('script-src-elem', 'https://cdn.example.net/lib.js'),
+      ],
+      {logger},
+    )
+    expect(proposals).toEqual([
+      {
+        directive: 'img-src',
+        source: 'https://img.example.net',
+        count: 4,
+        pages: 2,
+        confidence: 0.94,
+        accepted: true,
+      },
+      {
+        directive: 'script-src',
+        source: 'https://cdn.example.net',
+        count: 1,
+        pages: 1,
+        confidence: 0.5,
+        accepted: false,
+      },
+    ])
+  })
+
+  test('should add accepted proposals to the policy', async () => {
+    const {policy} = await refinePolicy(
+      "default-src 'self'; object-src 'none'",
+      repeat(5, report('font-src', 'https://fonts.example.net/a.woff2')),
+      {logger},
+    )
+    expect(policy.toString()).toBe(
+      "default-src 'self'; object-src 'none'; font-src 'self' https://fonts.example.net",
+    )
+  })
+
+  test('should honour a custom confidence threshold', async () => {
+    const {policy, proposals} = await refinePolicy(
+      "default-src 'self'",
+      [report('connect-src', 'https://api.example.net/v1')],
+      {logger, confidenceThreshold: 0.5},
+    )
+    expect(proposals[0]?.accepted).toBe(true)
+    expect(policy.get('connect-src')).toEqual([
+      "'self'",
+      'https://api.example.net',
+    ])
+  })
+
+  test('should use occurrence counts from collected violations', async () => {
+    const {proposals} = await refinePolicy("default-src 'self'", [
+      {
+        ...report('img-src', 'https://img.example.net/a.png'),
+        count: 10,
+        firstSeen: '',
+        lastSeen: '',
+      },
+    ])
+    expect(proposals[0]).toMatchObject({count: 10, accepted: true})
+  })
+
+  test('should not modify a CSPPolicy passed in', async () => {
+    const base = CSPPolicy.parse("default-src 'self'")
+    await refinePolicy(
+      base,
+      repeat(5, report('img-src', 'https://img.example.net/a.png')),
+      {logger},
+    )
+    expect(base.toString()).toBe("default-src 'self'")
+  })
+
+  test('should skip sources the policy already allows', async () => {
+    const {proposals} = await refinePolicy(
+      "default-src 'self' https://cdn.example.net",
+      repeat(5, report('script-src-elem', 'https://cdn.example.net/x.js')),
+      {logger},
+    )
+    expect(proposals).toEqual([])
+  })
+
+  test('should skip sources that scheme and wildcard sources cover', async () => {
+    const live =
+      "default-src 'self'; img-src https:; script-src https://*.example.net"
+    const {policy, proposals} = await refinePolicy(
+      live,
+      [
+        ...repeat(5, report('img-src', 'https://img.example.org/a.png')),
+        ...repeat(5, report('script-src-elem', 'https://cdn.example.net/x.js')),
+        ...repeat(5, report('script-src-elem', 'https://cdn.example.org/y.js')),
+      ],
+      {logger},
+    )
+    expect(proposals.map((p) => [p.directive, p.source])).toEqual([
+      ['script-src', 'https://cdn.example.org'],
+    ])
+    expect(policy.get('img-src')).toEqual(['https:'])
+    expect(policy.get('script-src')).toEqual([
+      'https://*.example.net',
+      'https://cdn.example.org',
+    ])
+  })
+
+  test('should map same-origin URLs to self and safe schemes to scheme sources', async () => {
+    const {proposals} = await refinePolicy("default-src 'none'", [
+      report('img-src', 'https://example.com/logo.png'),
+      report('img-src', 'data'),
+      report('font-src', 'blob:https://example.com/1234'),
+    ])
+    expect(proposals.map((p) => [p.directive, p.source])).toEqual([
+      ['img-src', "'self'"],
+      ['img-src', 'data:'],
+      ['font-src', 'blob:'],
+    ])
+  })
+
+  test('should reject violations that need something other than a source', async () => {
+    const {proposals, rejected} = await refinePolicy("default-src 'self'", [
+      ...repeat(2, report('script-src-elem', 'inline')),
+      report('script-src', 'eval'),
+      report('script-src-elem', 'data'),
+      report('script-src-elem', 'chrome-extension://abc/inject.js'),
+      report('img-src', 'http://insecure.example.net/a.png'),
+      report('navigate-to', 'https://example.net/'),
+    ])
+    expect(proposals).toEqual([])
+    expect(rejected.map((r) => [r.blockedUri, r.count])).toEqual([
+      ['inline', 2],
+      ['eval', 1],
+      ['data', 1],
+      ['chrome-extension://abc/inject.js', 1],
+      ['http://insecure.example.net/a.png', 1],
+      ['https://example.net/', 1],
+    ])
+    expect(rejected[0]?.reason).toContain('nonce or hash')
+  })
+
+  test('should extend split directives only where the policy uses them', async () => {
+    const reports = repeat(
+      4,
+      report('script-src-elem', 'https://cdn.example.net/a.js'),
+    )
+
+    const base = await refinePolicy("default-src 'self'", reports, {logger})
+    expect(base.policy.get('script-src')).toEqual([
+      "'self'",
+      'https://cdn.example.net',
+    ])
+
+    const split = await refinePolicy(
+      "script-src 'self'; script-src-elem 'self'",
+      reports,
+      {logger},
+    )
+    expect(split.policy.get('script-src-elem')).toEqual([
+      "'self'",
+      'https://cdn.example.net',
+    ])
+    expect(split.policy.get('script-src')).toEqual(["'self'"])
+  })
+
+  test('should apply the private-origin rules', async () => {
+    dnsAddress = '10.0.0.5'
+    const reports = [report('connect-src', 'https://internal.example.net/')]
+
+    const blocked = await refinePolicy("default-src 'self'", reports, {logger})
+    expect(blocked.proposals).toEqual([])
+    expect(blocked.rejected[0]?.reason).toContain('private-origin')
+
+    const allowed = await refinePolicy("default-src 'self'", reports, {
+      logger,
+      allowPrivateOrigins: true,
+    })
+    expect(allowed.proposals[0]?.source).toBe('https://internal.example.net')
+  })
+})
@@ -0,0 +1,128 @@
+import {describe, expect, test} from 'bun:test'
+import {
+  inferSandbox,
+  resolveSandbox,
+  sandboxWarnings,
+  validateSandbox,
+} from '../src/sandbox'
+
+const el = (name: string, attribs: Record<string, string> = {}) => ({
+  name,
+  attribs,
+})
+
+describe('validateSandbox', () => {
+  test('should normalize, de-duplicate and order tokens', () => {
+    expect(
+      validateSandbox(['allow-scripts', ' Allow-Forms ', 'allow-scripts']),
+    ).toEqual(['allow-forms', 'allow-scripts'])
+    expect(validateSandbox([])).toEqual([])
+  })
+
+  test('should reject unknown tokens', () => {
+    expect(() => validateSandbox(['allow-everything'])).toThrow(
+      'Unknown sandbox token "allow-everything"',
+    )
+  })
+})
+
+describe('resolveSandbox', () => {
+  test('should map the deprecated flag to infer', () => {
+    expect(resolveSandbox(undefined)).toBeUndefined()
+    expect(resolveSandbox(undefined, true)).toBe('infer')
+    expect(resolveSandbox([], true)).toEqual([])
+    expect(resolveSandbox('infer')).toBe('infer')
+  })
+
+  test('should reject other modes', () => {
+    expect(() => resolveSandbox('strict' as 'infer')).toThrow(
+      `Invalid sandbox "strict" – use a list of tokens or 'infer'`,
+    )
+  })
+})
+
+describe('inferSandbox', () => {
+  test('should sandbox a static page fully', () => {
+    expect(
+      inferSandbox({
+        elements: [
+          el('p'),
+          el('a', {href: '/next', target: '_self'}),
+          el('script', {type: 'application/ld+json'}),
+        ],
+        scripts: [],
+      }),
+    ).toEqual([])
+  })
+
+  test('should infer tokens from markup', () => {
+    expect(
+      inferSandbox({
+        elements: [
+          el('form', {action: '/search'}),
+          el('a', {href: '/doc.pdf', download: ''}),
+          el('a', {href: 'https://other.example', target: '_blank'}),
+          el('base', {target: '_top'}),
+          el('button', {onclick: 'go()'}),
+        ],
+        scripts: [],
+      }),
+    ).toEqual([
+      'allow-downloads',
+      'allow-forms',
+      'allow-popups',
+      'allow-scripts',
+      'allow-top-navigation-by-user-activation',
+    ])
+  })
+
+  test('should infer tokens from script APIs', () => {
+    expect(
+      inferSandbox({
+        elements: [el('script')],
+        scripts: [
+          "if (confirm('Leave?')) window.open('/help')",
+          "localStorage.setItem('k', 1); top.location = '/'",
+        ],
+      }),
+    ).toEqual([
+      'allow-modals',
+      'allow-popups',
+      'allow-same-origin',
+      'allow-scripts',
+      'allow-top-navigation',
+    ])
+  })
+
+  test('should scan event handlers and javascript: URLs as scripts', () => {
+    expect(
+      inferSandbox({
+        elements: [el('a', {href: 'javascript:print()'})],
+        scripts: [],
+      }),
+    ).toEqual(['allow-modals', 'allow-scripts'])
+  })
+
+  test('should not mistake methods for modal dialogs', () => {
+    expect(
+      inferSandbox({
+        elements: [],
+        scripts: ['logger.print(x); api.confirm(order)'],
+      }),
+    ).toEqual([])
+  })
+})
+
+describe('sandboxWarnings', () => {
+  test('should warn about tokens that undo the sandbox', () => {
+    expect(sandboxWarnings(['allow-forms', 'allow-scripts'])).toEqual([])
+    const warnings = sandboxWarnings([
+      'allow-same-origin',
+      'allow-scripts',
+      'allow-top-navigation',
+    ])
+    expect(warnings).toHaveLength(2)
+    expect(warnings[0]).toContain('allow-scripts with allow-same-origin')
+    expect(warnings[1]).toContain('allow-top-navigation')
+  })
+})
@@ -0,0 +1,159 @@
+import {describe, expect, test} from 'bun:test'
+import {
+  analyzeScript,
+  analyzeTrustedTypes,
+  isJavaScriptType,
+  tokenize,
+} from '../src/script-analyzer'
+
+describe('tokenize', () => {
+  test('should skip comments and report positions', () => {
+    const tokens = tokenize('// fetch("a")\n/* x */ foo("b")')
+    expect(tokens.map((t) => t.value)).toEqual(['foo', '(', 'b', ')'])
+    expect(tokens[2]).toMatchObject({type: 'string', line: 2, column: 13})
+  })
+
+  test('should tell regex literals from division', () => {
+    const tokens = tokenize('a = b / c; r = /fetch("x")/g')
+    expect(tokens.filter((t) => t.type === 'regex')).toHaveLength(1)
+    expect(tokens.some((t) => t.value === 'x')).toBe(false)
+  })
+
+  test('should keep the static prefix of template literals', () => {
+    const [tpl] = tokenize('`https://api.example.com/${`nested ${x}`}/items`')
+    expect(tpl).toMatchObject({
+      type: 'template',
+      value: 'https://api.example.com/',
+    })
+  })
+
+  test('should unescape string contents', () => {
+    const [str] = tokenize("'https:\\/\\/a.example.com\\u002fx'")
+    expect(str!.value).toBe('https://a.example.com/x')
+  })
+})
+
+describe('analyzeScript', () => {
+  test('should map network APIs to connect-src', () => {
+    const calls = analyzeScript(`
+      fetch('https://api.example.com/data')
+      window.fetch("/relative")
+      const ws = new WebSocket('wss://ws.example.com/socket')
+      const es = new EventSource('https://events.example.com/stream')
+      navigator.sendBeacon('https://beacon.example.com/collect', data)
+      const xhr = new XMLHttpRequest()
+      xhr.open('POST', 'https://xhr.example.com/submit', true)
+    `)
+    expect(calls.map((c) => [c.api, c.directive, c.url])).toEqual([
+      ['fetch', 'connect-src', 'https://api.example.com/data'],
+      ['fetch', 'connect-src', '/relative'],
+      ['new WebSocket', 'connect-src', 'wss://ws.example.com/socket'],
+      ['new EventSource', 'connect-src', 'https://events.example.com/stream'],
+      [
+        'navigator.sendBeacon',
+        'connect-src',
+        'https://beacon.example.com/collect',
+      ],
+      ['XMLHttpRequest.open', 'connect-src', 'https://xhr.example.com/submit'],
+    ])
+  })
+
+  test('should map imports and workers', () => {
+    const calls = analyzeScript(`
+      const mod = await import('https://esm.example.com/mod.js')
+      new Worker('/workers/w.js', {type: 'module'})
+      new SharedWorker("https://shared.example.com/sw.js")
+      navigator.serviceWorker.register('/sw.js')
+    `)
+    expect(calls.map((c) => [c.api, c.directive, c.url])).toEqual([
+      ['import()', 'script-src', 'https://esm.example.com/mod.js'],
+      ['new Worker', 'worker-src', '/workers/w.js'],
+      ['new SharedWorker', 'worker-src', 'https://shared.example.com/sw.js'],
+      ['serviceWorker.register', 'worker-src', '/sw.js'],
+    ])
+  })
+
+  test('should ignore look-alikes', () => {
+    const calls = analyzeScript(`
+      client.fetch('https://not-a-global.example.com')
+      window.open('https://popup.example.com')
+      const s = "fetch('https://in-a-string.example.com')"
+      fetch(url)
+      fetch(\`\${base}/api\`)
+    `)
+    expect(calls).toEqual([])
+  })
+
+  test('should use absolute template prefixes', () => {
+    const [call] = analyzeScript('fetch(`https://api.example.com/users/${id}`)')
+    expect(call).toMatchObject({line: 1, column: 7})
+    expect(call!.url).toBe('https://api.example.com/users/')
+  })
+})
+
+describe('analyzeTrustedTypes', () => {
+  test('should find policy names', () => {
+    const calls = analyzeTrustedTypes(
+      "const p = trustedTypes.createPolicy('app', {createHTML: (s) => s})\n" +
+        'window.trustedTypes.createPolicy(`default`, {})\n' +
+        'trustedTypes.createPolicy(name, {})',
+    )
+    expect(calls).toEqual([
+      {kind: 'policy', name: 'app', line: 1, column: 37},
+      {kind: 'policy', name: 'default', line: 2, column: 34},
+    ])
+  })
+
+  test('should find DOM XSS sinks', () => {
+    const calls = analyzeTrustedTypes(
+      [
+        'el.innerHTML = html',
+        'el.outerHTML += html',
+        'frame.srcdoc = html',
+        "el.insertAdjacentHTML('beforeend', html)",
+        'document.write(html)',
+        'eval(code)',
+        "new Function('return 1')",
+        "setTimeout('tick()', 10)",
+      ].join('\n'),
+    )
+    expect(calls.map((c) => [c.name, c.line])).toEqual([
+      ['innerHTML', 1],
+      ['outerHTML', 2],
+      ['srcdoc', 3],
+      ['insertAdjacentHTML', 4],
+      ['document.write', 5],
+      ['eval', 6],
+      ['Function', 7],
+      ['setTimeout', 8],
+    ])
+  })
+
+  test('should ignore reads and look-alikes', () => {
+    expect(
+      analyzeTrustedTypes(
+        [
+          'const h = el.innerHTML',
+          'if (el.innerHTML === h) {}',
+          'setTimeout(tick, 10)',
+          'stream.write(chunk)',
+          'function eval(x) {}',
+          'obj.eval(x)',
+          "// el.innerHTML = 'x'",
+        ].join('\n'),
+      ),
+    ).toEqual([])
+  })
+})
+
+describe('isJavaScriptType', () => {
+  test('should classify script types', () => {
+    expect(isJavaScriptType(undefined)).toBe(true)
+    expect(isJavaScriptType('')).toBe(true)
+    expect(isJavaScriptType('module')).toBe(true)
+    expect(isJavaScriptType('text/javascript; charset=utf-8')).toBe(true)
+    expect(isJavaScriptType('application/ld+json')).toBe(false)
+    expect(isJavaScriptType('importmap')).toBe(false)
+    expect(isJavaScriptType('text/template')).toBe(false)
+  })
+})
@@ -0,0 +1,98 @@
+import {describe, expect, test} from 'bun:test'
+import {
+  covers,
+  parseHostSource,
+  policyAllows,
+  sourceListMatches,
+  sourceMatches,
+} from '../src/source-matcher'
+
+const self = new URL('https://example.com/page')
+const matches = (expression: string, url: string) =>
+  sourceMatches(expression, new URL(url), self)
+
+describe('sourceMatches', () => {
+  test('should match keywords and schemes', () => {
+    expect(matches("'self'", 'https://example.com/a.js')).toBe(true)
+    expect(matches("'self'", 'wss://example.com/socket')).toBe(true)
+    expect(matches("'self'", 'https://cdn.example.com/a.js')).toBe(false)
+    expect(matches("'nonce-abc'", 'https://example.com/a.js')).toBe(false)
+    expect(matches('*', 'https://evil.net/')).toBe(true)
+    expect(matches('*', 'data:text/plain,x')).toBe(false)
+    expect(matches('http:', 'https://evil.net/')).toBe(true)
+    expect(matches('https:', 'http://evil.net/')).toBe(false)
+  })
+
+  test('should match hosts, ports and paths', () => {
+    expect(matches('cdn.example.com', 'https://cdn.example.com/x')).toBe(true)
+    expect(matches('cdn.example.com', 'http://cdn.example.com/x')).toBe(false)
+    expect(matches('https://*.example.com', 'https://a.b.example.com')).toBe(
+      true,
+    )
+    expect(matches('https://*.example.com', 'https://example.com')).toBe(false)
+    expect(matches('https://a.com', 'https://a.com:443/')).toBe(true)
+    expect(matches('https://a.com', 'https://a.com:8443/')).toBe(false)
+    expect(matches('https://a.com:*', 'https://a.com:8443/')).toBe(true)
+    expect(matches('https://a.com/lib/', 'https://a.com/lib/x/y.js')).toBe(true)
+    expect(matches('https://a.com/lib', 'https://a.com/lib/x.js')).toBe(false)
+    expect(matches('https://a.com/a%20b.js', 'https://a.com/a b.js')).toBe(true)
+  })
+
+  test('should treat a lone none as matching nothing', () => {
+    expect(sourceListMatches(["'none'"], new URL('https://a.com'), self)).toBe(
+      false,
+    )
+  })
+})
+
+describe('parseHostSource', () => {
+  test('should split a host source', () => {
+    expect(parseHostSource('HTTPS://*.Example.com:8443/a/')).toEqual({
+      scheme: 'https',
+      host: '*.example.com',
+      port: '8443',
+      path: '/a/',
+    })
+    expect(parseHostSource("'self'")).toBeUndefined()
+  })
+})
+
+describe('policyAllows', () => {
+  test('should follow fallback directives', () => {
+    const policy = "default-src 'self'; child-src https://frames.example.com"
+    expect(
+      policyAllows(policy, 'frame-src', 'https://frames.example.com/', self),
+    ).toBe(true)
+    expect(policyAllows(policy, 'img-src', 'https://a.com/x.png', self)).toBe(
+      false,
+    )
+    expect(
+      policyAllows('img-src *', 'connect-src', 'https://a.com', self),
+    ).toBe(true)
+  })
+})
+
+describe('covers', () => {
+  test('should compare host sources', () => {
+    expect(covers('https://*.example.com', 'https://a.b.example.com')).toBe(
+      true,
+    )
+    expect(covers('https://*.example.com', 'https://example.com')).toBe(false)
+    expect(covers('http:', 'https://example.com')).toBe(true)
+    expect(covers('https:', 'http://example.com')).toBe(false)
+    expect(covers('https://a.com/lib/', 'https://a.com/lib/x.js')).toBe(true)
+    expect(covers('https://a.com/lib', 'https://a.com/lib/x.js')).toBe(false)
+    expect(covers('https://a.com:*', 'https://a.com:8443')).toBe(true)
+    expect(covers('https://a.com', 'https://a.com:8443')).toBe(false)
+  })
+
+  test('should need the page URL for self and scheme-less hosts', () => {
+    const self = new URL('https://example.com')
+    expect(covers("'self'", 'https://example.com/a/')).toBe(false)
+    expect(covers("'self'", 'https://example.com/a/', self)).toBe(true)
+    expect(covers("'self'", 'example.com', self)).toBe(true)
+    expect(covers("'self'", 'http://example.com', self)).toBe(false)
+    expect(covers('*', 'cdn.example.com', self)).toBe(true)
+    expect(covers('*', 'data:', self)).toBe(false)
+  })
+})
@@ -0,0 +1,135 @@
+import {describe, expect, test} from 'bun:test'
+import {collapseWildcards} from '../src/wildcards'
+import type {DirectiveName} from '../src/types'
+
+const hosts = (prefix: string, count: number, domain: string) =>
+  Array.from({length: count}, (_, i) => `https://${prefix}${i + 1}.${domain}`)
+
+const sourcesOf = (init: Partial<Record<DirectiveName, string[]>>) =>
+  new Map(
+    Object.entries(init).map(([dir, values]) => [
+      dir as DirectiveName,
+      new Set(values),
+    ]),
+  )
+
+describe('collapseWildcards', () => {
+  test('should collapse siblings into their closest common parent', () => {
+    const sources = sourcesOf({
+      'img-src': [
+        "'self'",
+        ...hosts('a', 5, 'cdn.example.com'),
+        'https://other.example.org',
+      ],
+    })
+
+    expect(collapseWildcards(sources)).toEqual([
+      {
+        directive: 'img-src',
+        wildcard: 'https://*.cdn.example.com',
+        domain: 'example.com',
+        replaced: hosts('a', 5, 'cdn.example.com'),
+      },
+    ])
+    expect(Array.from(sources.get('img-src')!)).toEqual([
+      "'self'",
+      'https://*.cdn.example.com',
+      'https://other.example.org',
+    ])
+  })
+
+  test('should stay below the threshold', () => {
+    const sources = sourcesOf({'img-src': hosts('a', 4, 'example.com')})
+    expect(collapseWildcards(sources)).toEqual([])
+    expect(sources.get('img-src')!.size).toBe(4)
+  })
+
+  test('should never collapse above the registrable domain', () => {
+    const sources = sourcesOf({
+      'img-src': [
+        ...hosts('shop', 3, 'co.uk'),
+        ...hosts('user', 3, 'github.io'),
+        'https://img.example.com',
+        'https://static.example.com',
+        'https://www.example.com',
+      ],
+    })
+
+    expect(collapseWildcards(sources, {threshold: 3})).toEqual([
+      {
+        directive: 'img-src',
+        wildcard: 'https://*.example.com',
+        domain: 'example.com',
+        replaced: [
+          'https://img.example.com',
+          'https://static.example.com',
+          'https://www.example.com',
+        ],
+      },
+    ])
+  })
+
+  test('should keep the apex, paths, ports and schemes apart', () => {
+    const sources = sourcesOf({
+      'connect-src': [
+        'https://example.com',
+        'https://cdn.example.com',
+        'https://a.cdn.example.com',
+        'https://b.example.com/api/',
+        'wss://c.example.com',
+        'https://d.example.com:8443',
+      ],
+    })
+
+    expect(collapseWildcards(sources, {threshold: 2})).toEqual([
+      {
+        directive: 'connect-src',
+        wildcard: 'https://*.example.com',
+        domain: 'example.com',
+        replaced: ['https://cdn.example.com', 'https://a.cdn.example.com'],
+      },
+    ])
+    expect(sources.get('connect-src')).toContain('https://example.com')
+    expect(sources.get('connect-src')).toContain('https://b.example.com/api/')
+  })
+
+  test('should leave script-src alone by default', () => {
+    const scripts = hosts('js', 6, 'example.com')
+    const sources = sourcesOf({
+      'script-src': scripts,
+      'report-uri': ['https://a.r.example.com'],
+    })
+
+    expect(collapseWildcards(sources)).toEqual([])
+    expect(collapseWildcards(sources, {exclude: []})).toHaveLength(1)
+  })
+
+  test('should leave the fallback that governs scripts alone', () => {
+    const sources = sourcesOf({
+      'default-src': hosts('cdn', 6, 'example.com'),
+      'img-src': hosts('img', 6, 'example.com'),
+    })
+
+    expect(collapseWildcards(sources).map((c) => c.directive)).toEqual([
+      'img-src',
+    ])
+    expect(sources.get('default-src')!.size).toBe(6)
+
+    // With script-src set, default-src no longer governs scripts
+    sources.set('script-src', new Set(["'self'"]))
+    sources.set('worker-src', new Set(["'self'"]))
+    expect(collapseWildcards(sources).map((c) => c.directive)).toEqual([
+      'default-src',
+    ])
+  })
+
+  test('should leave worker scripts alone by default', () => {
+    const sources = sourcesOf({
+      'script-src': ["'self'"],
+      'child-src': hosts('w', 6, 'example.com'),
+    })
+
+    // worker-src falls back to child-src
+    expect(collapseWildcards(sources)).toEqual([])
+  })
+})